@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            upload_stream: vi.fn(),
+            destroy: vi.fn(),
+        },
+        url: vi.fn(() => 'https://res.cloudinary.com/test-cloud/signed'),
+    },
+}));
+
+describe('CloudinaryProvider abort', () => {
+    let provider: CloudinaryProvider;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should reject with ABORTED and destroy an asset that arrives afterwards', async () => {
+        const cloudinary = await import('cloudinary');
+        let finish!: (value: unknown) => void;
+        vi.mocked(cloudinary.v2.uploader.upload).mockReturnValueOnce(
+            new Promise((resolve) => (finish = resolve)) as never
+        );
+        vi.mocked(cloudinary.v2.uploader.destroy).mockResolvedValue({ result: 'ok' });
+
+        const controller = new AbortController();
+        const pending = provider.upload(Buffer.from('data'), { signal: controller.signal });
+        await vi.waitFor(() => expect(cloudinary.v2.uploader.upload).toHaveBeenCalled());
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+
+        finish({ public_id: 'late', resource_type: 'raw' });
+        await vi.waitFor(() =>
+            expect(cloudinary.v2.uploader.destroy).toHaveBeenCalledWith('late', {
+                resource_type: 'raw',
+            })
+        );
+    });
+
+    it('should stop feeding upload_stream when aborted', async () => {
+        const cloudinary = await import('cloudinary');
+        const uploadStream = new PassThrough();
+        vi.mocked(cloudinary.v2.uploader.upload_stream).mockReturnValueOnce(uploadStream as never);
+
+        const source = new PassThrough();
+        const controller = new AbortController();
+        const pending = provider.upload(source, {
+            contentType: 'video/mp4',
+            signal: controller.signal,
+        });
+        await vi.waitFor(() => expect(cloudinary.v2.uploader.upload_stream).toHaveBeenCalled());
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+        expect(uploadStream.destroyed).toBe(true);
+    });
+
+    it('should not start an upload when the signal is already aborted', async () => {
+        const cloudinary = await import('cloudinary');
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+            provider.upload(Buffer.from('data'), { signal: controller.signal })
+        ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+        expect(cloudinary.v2.uploader.upload).not.toHaveBeenCalled();
+    });
+
+    it('should map an aborted download to ABORTED', async () => {
+        const abortError = Object.assign(new Error('This operation was aborted'), {
+            name: 'AbortError',
+        });
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(abortError));
+
+        await expect(provider.download('clips/intro')).rejects.toMatchObject({
+            code: MediaErrorCode.ABORTED,
+        });
+    });
+});
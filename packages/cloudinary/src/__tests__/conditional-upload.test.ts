@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+        },
+        url: vi.fn(),
+    },
+}));
+
+const response = (extra: Record<string, unknown> = {}) => ({
+    public_id: 'reports/q1',
+    secure_url: 'https://res.cloudinary.com/test-cloud/raw/upload/reports/q1',
+    bytes: 4,
+    format: '',
+    resource_type: 'raw',
+    type: 'upload',
+    version: 1,
+    created_at: '2024-01-01T00:00:00Z',
+    ...extra,
+});
+
+describe('CloudinaryProvider conditional uploads', () => {
+    let provider: CloudinaryProvider;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    it('should upload with overwrite: false for ifNotExists', async () => {
+        const cloudinary = await import('cloudinary');
+        const upload = cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>;
+        upload.mockResolvedValueOnce(response());
+
+        await provider.upload(Buffer.from('data'), {
+            folder: 'reports',
+            filename: 'q1',
+            uniqueFilename: false,
+            ifNotExists: true,
+        });
+
+        expect(upload.mock.calls[0]![1]).toMatchObject({ public_id: 'q1', overwrite: false });
+    });
+
+    it('should fail with CONFLICT when Cloudinary kept an existing asset', async () => {
+        const cloudinary = await import('cloudinary');
+        (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+            response({ existing: true })
+        );
+
+        await expect(
+            provider.upload(Buffer.from('data'), {
+                folder: 'reports',
+                filename: 'q1',
+                uniqueFilename: false,
+                ifNotExists: true,
+            })
+        ).rejects.toMatchObject({
+            code: MediaErrorCode.CONFLICT,
+            message: "Asset 'reports/q1' already exists",
+        });
+    });
+
+    it('should reject ifMatch as unsupported without uploading', async () => {
+        const cloudinary = await import('cloudinary');
+        const upload = cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>;
+
+        await expect(
+            provider.upload(Buffer.from('data'), { filename: 'q1', ifMatch: '"abc"' })
+        ).rejects.toMatchObject({ code: MediaErrorCode.INVALID_CONFIG });
+        expect(upload).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+            rename: vi.fn(),
+        },
+        url: vi.fn(),
+    },
+}));
+
+const resource = (publicId: string) => ({
+    public_id: publicId,
+    secure_url: `https://res.cloudinary.com/test-cloud/video/upload/${publicId}.mp4`,
+    bytes: 100,
+    format: 'mp4',
+    resource_type: 'video',
+    type: 'upload',
+    version: 1,
+    created_at: '2024-01-01T00:00:00Z',
+});
+
+describe('CloudinaryProvider copy and move', () => {
+    let provider: CloudinaryProvider;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    it('should copy by uploading a signed URL under the new public ID', async () => {
+        const cloudinary = await import('cloudinary');
+        const explicit = cloudinary.v2.uploader.explicit as ReturnType<typeof vi.fn>;
+        const upload = cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>;
+        const url = cloudinary.v2.url as ReturnType<typeof vi.fn>;
+        explicit.mockResolvedValueOnce(resource('clips/a'));
+        upload.mockResolvedValueOnce(resource('archive/a'));
+        url.mockReturnValueOnce('https://res.cloudinary.com/test-cloud/video/upload/s--sig--/clips/a');
+
+        const result = await provider.copy('clips/a', 'archive/a');
+
+        expect(url).toHaveBeenCalledWith(
+            'clips/a',
+            expect.objectContaining({ sign_url: true, type: 'upload', resource_type: 'video' })
+        );
+        expect(upload).toHaveBeenCalledWith(
+            'https://res.cloudinary.com/test-cloud/video/upload/s--sig--/clips/a',
+            { public_id: 'archive/a', resource_type: 'video', type: 'upload', overwrite: true }
+        );
+        expect(result).toMatchObject({ id: 'archive/a', format: 'mp4' });
+    });
+
+    it('should copy authenticated assets without looking them up', async () => {
+        const cloudinary = await import('cloudinary');
+        const explicit = cloudinary.v2.uploader.explicit as ReturnType<typeof vi.fn>;
+        const upload = cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>;
+        const url = cloudinary.v2.url as ReturnType<typeof vi.fn>;
+        upload.mockResolvedValueOnce({ ...resource('archive/a'), type: 'authenticated' });
+        url.mockReturnValueOnce('https://res.cloudinary.com/test-cloud/image/authenticated/s--sig--/docs/a');
+
+        await provider.copy('docs/a', 'archive/a', { resourceType: 'image', type: 'authenticated' });
+
+        expect(explicit).not.toHaveBeenCalled();
+        expect(upload).toHaveBeenCalledWith(
+            'https://res.cloudinary.com/test-cloud/image/authenticated/s--sig--/docs/a',
+            { public_id: 'archive/a', resource_type: 'image', type: 'authenticated', overwrite: true }
+        );
+    });
+
+    it('should move using the rename API', async () => {
+        const cloudinary = await import('cloudinary');
+        const rename = cloudinary.v2.uploader.rename as ReturnType<typeof vi.fn>;
+        rename.mockResolvedValueOnce(resource('archive/a'));
+
+        const result = await provider.move('clips/a', 'archive/a', { resourceType: 'video' });
+
+        expect(rename).toHaveBeenCalledWith('clips/a', 'archive/a', {
+            resource_type: 'video',
+            overwrite: true,
+        });
+        expect(result.id).toBe('archive/a');
+    });
+
+    it('should look up the resource type before renaming', async () => {
+        const cloudinary = await import('cloudinary');
+        const explicit = cloudinary.v2.uploader.explicit as ReturnType<typeof vi.fn>;
+        const rename = cloudinary.v2.uploader.rename as ReturnType<typeof vi.fn>;
+        explicit
+            .mockRejectedValueOnce({ message: 'Resource not found', http_code: 404 })
+            .mockResolvedValueOnce(resource('clips/a'));
+        rename.mockResolvedValueOnce(resource('archive/a'));
+
+        await provider.move('clips/a', 'archive/a');
+
+        expect(explicit).toHaveBeenNthCalledWith(1, 'clips/a', {
+            type: 'upload',
+            resource_type: 'image',
+        });
+        expect(explicit).toHaveBeenNthCalledWith(2, 'clips/a', {
+            type: 'upload',
+            resource_type: 'video',
+        });
+        expect(rename).toHaveBeenCalledWith('clips/a', 'archive/a', {
+            resource_type: 'video',
+            overwrite: true,
+        });
+    });
+
+    it('should map rename failures', async () => {
+        const cloudinary = await import('cloudinary');
+        const rename = cloudinary.v2.uploader.rename as ReturnType<typeof vi.fn>;
+        rename.mockRejectedValueOnce({ message: 'Resource not found', http_code: 404 });
+
+        await expect(
+            provider.move('missing', 'dest', { resourceType: 'image' })
+        ).rejects.toMatchObject({
+            code: MediaErrorCode.FILE_NOT_FOUND,
+        });
+    });
+});
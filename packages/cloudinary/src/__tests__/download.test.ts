@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+        },
+        url: vi.fn(() => 'https://res.cloudinary.com/test-cloud/signed'),
+    },
+}));
+
+describe('CloudinaryProvider download', () => {
+    let provider: CloudinaryProvider;
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should fetch the signed delivery URL with a range', async () => {
+        const cloudinary = await import('cloudinary');
+        fetchMock.mockResolvedValueOnce(
+            new Response('vid', {
+                status: 206,
+                headers: {
+                    'content-type': 'video/mp4',
+                    'content-length': '3',
+                    'content-range': 'bytes 0-2/100',
+                    etag: '"v1"',
+                },
+            })
+        );
+
+        const result = await provider.download('clips/intro', {
+            resourceType: 'video',
+            range: { start: 0, end: 2 },
+        });
+
+        expect(cloudinary.v2.url).toHaveBeenCalledWith(
+            'clips/intro',
+            expect.objectContaining({ sign_url: true, resource_type: 'video' })
+        );
+        expect(fetchMock).toHaveBeenCalledWith('https://res.cloudinary.com/test-cloud/signed', {
+            headers: { Range: 'bytes=0-2' },
+        });
+        expect(await new Response(result.stream).text()).toBe('vid');
+        expect(result).toMatchObject({
+            contentType: 'video/mp4',
+            contentLength: 3,
+            contentRange: 'bytes 0-2/100',
+            etag: '"v1"',
+        });
+    });
+
+    it('should map a 404 to FILE_NOT_FOUND', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+        await expect(provider.download('missing')).rejects.toMatchObject({
+            code: MediaErrorCode.FILE_NOT_FOUND,
+        });
+    });
+
+    it('should map fetch failures to PROVIDER_ERROR', async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+        await expect(provider.download('a')).rejects.toMatchObject({
+            code: MediaErrorCode.PROVIDER_ERROR,
+        });
+    });
+});
@@ -58,7 +58,7 @@ describe('CloudinaryProvider Error Mapping', () => {
             }
         });
 
-        it('should map timeout errors to NETWORK_ERROR', async () => {
+        it('should map timeout errors to TIMEOUT', async () => {
             const cloudinary = await import('cloudinary');
             (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
                 http_code: 408,
@@ -68,11 +68,56 @@ describe('CloudinaryProvider Error Mapping', () => {
             try {
                 await provider.upload(Buffer.from('test'));
             } catch (error: unknown) {
-                const err = error as { code?: string };
-                expect(err.code).toBe(MediaErrorCode.NETWORK_ERROR);
+                const err = error as { code?: string; retryable?: boolean; httpStatus?: number };
+                expect(err.code).toBe(MediaErrorCode.TIMEOUT);
+                expect(err.retryable).toBe(true);
+                expect(err.httpStatus).toBe(408);
             }
         });
 
+        it('should map rate limits to RATE_LIMITED with the Retry-After hint', async () => {
+            const cloudinary = await import('cloudinary');
+            (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
+                http_code: 420,
+                message: 'Rate Limit Exceeded',
+                headers: { 'retry-after': '30', 'x-request-id': 'req-123' },
+            });
+
+            await expect(provider.upload(Buffer.from('test'))).rejects.toMatchObject({
+                code: MediaErrorCode.RATE_LIMITED,
+                retryable: true,
+                retryAfterMs: 30000,
+                requestId: 'req-123',
+            });
+        });
+
+        it('should map 409 errors to CONFLICT', async () => {
+            const cloudinary = await import('cloudinary');
+            (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
+                http_code: 409,
+                message: 'Resource already exists',
+            });
+
+            await expect(provider.upload(Buffer.from('test'))).rejects.toMatchObject({
+                code: MediaErrorCode.CONFLICT,
+                retryable: false,
+            });
+        });
+
+        it('should flag server errors as retryable', async () => {
+            const cloudinary = await import('cloudinary');
+            (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
+                http_code: 500,
+                message: 'Internal server error',
+            });
+
+            await expect(provider.upload(Buffer.from('test'))).rejects.toMatchObject({
+                code: MediaErrorCode.UPLOAD_FAILED,
+                retryable: true,
+                httpStatus: 500,
+            });
+        });
+
         it('should map file size errors to FILE_TOO_LARGE', async () => {
             const cloudinary = await import('cloudinary');
             (cloudinary.v2.uploader.upload as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
@@ -111,12 +156,31 @@ describe('CloudinaryProvider Error Mapping', () => {
             });
 
             try {
-                await provider.get('non-existent-id');
+                await provider.get('non-existent-id', { resourceType: 'image' });
             } catch (error: unknown) {
                 const err = error as { code?: string };
                 expect(err.code).toBe(MediaErrorCode.FILE_NOT_FOUND);
             }
         });
+
+        it('should try every resource type before reporting FILE_NOT_FOUND', async () => {
+            const cloudinary = await import('cloudinary');
+            const explicit = cloudinary.v2.uploader.explicit as ReturnType<typeof vi.fn>;
+            const notFound = { http_code: 404, message: 'Resource not found' };
+            explicit
+                .mockRejectedValueOnce(notFound)
+                .mockRejectedValueOnce(notFound)
+                .mockRejectedValueOnce(notFound);
+
+            await expect(provider.get('non-existent-id')).rejects.toMatchObject({
+                code: MediaErrorCode.FILE_NOT_FOUND,
+            });
+            expect(explicit.mock.calls.map(([, options]) => options.resource_type)).toEqual([
+                'image',
+                'video',
+                'raw',
+            ]);
+        });
     });
 
     describe('delete errors', () => {
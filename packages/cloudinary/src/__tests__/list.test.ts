@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+        },
+        api: {
+            resources: vi.fn(),
+        },
+        url: vi.fn(),
+    },
+}));
+
+describe('CloudinaryProvider list', () => {
+    let provider: CloudinaryProvider;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    it('should map resources and next_cursor', async () => {
+        const cloudinary = await import('cloudinary');
+        const resources = cloudinary.v2.api.resources as ReturnType<typeof vi.fn>;
+        resources.mockResolvedValueOnce({
+            resources: [
+                {
+                    public_id: 'avatars/a',
+                    secure_url: 'https://res.cloudinary.com/test-cloud/image/upload/avatars/a.jpg',
+                    bytes: 100,
+                    format: 'jpg',
+                    resource_type: 'image',
+                    type: 'upload',
+                    version: 1,
+                    created_at: '2024-01-01T00:00:00Z',
+                },
+            ],
+            next_cursor: 'cursor-2',
+        });
+
+        const page = await provider.list({ prefix: 'avatars/', limit: 1000, cursor: 'cursor-1' });
+
+        expect(resources).toHaveBeenCalledWith({
+            type: 'upload',
+            resource_type: 'image',
+            prefix: 'avatars/',
+            next_cursor: 'cursor-1',
+            max_results: 500,
+        });
+        expect(page.nextCursor).toBe('cursor-2');
+        expect(page.items[0]).toMatchObject({ id: 'avatars/a', size: 100, format: 'jpg' });
+    });
+
+    it('should list other resource types and end without a cursor', async () => {
+        const cloudinary = await import('cloudinary');
+        const resources = cloudinary.v2.api.resources as ReturnType<typeof vi.fn>;
+        resources.mockResolvedValueOnce({ resources: [] });
+
+        const page = await provider.list({ resourceType: 'video' });
+
+        expect(resources).toHaveBeenCalledWith({ type: 'upload', resource_type: 'video' });
+        expect(page).toEqual({ items: [], nextCursor: undefined });
+    });
+});
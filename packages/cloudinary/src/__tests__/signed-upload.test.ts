@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+        },
+        utils: {
+            api_sign_request: vi.fn(() => 'signature'),
+        },
+        url: vi.fn(),
+    },
+}));
+
+describe('CloudinaryProvider createSignedUpload', () => {
+    let provider: CloudinaryProvider;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+        provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should sign the public ID and timestamp', async () => {
+        const cloudinary = await import('cloudinary');
+        const now = Math.round(Date.now() / 1000);
+
+        const signed = await provider.createSignedUpload({
+            filename: 'avatar.png',
+            contentType: 'image/png',
+            folder: 'avatars',
+        });
+
+        expect(cloudinary.v2.utils.api_sign_request).toHaveBeenCalledWith(
+            { timestamp: now, public_id: 'avatars/avatar' },
+            'test-secret'
+        );
+        expect(signed).toEqual({
+            uploadUrl: 'https://api.cloudinary.com/v1_1/test-cloud/image/upload',
+            method: 'POST',
+            fields: {
+                api_key: 'test-key',
+                timestamp: String(now),
+                signature: 'signature',
+                public_id: 'avatars/avatar',
+            },
+            publicId: 'avatars/avatar',
+            publicUrl: 'https://res.cloudinary.com/test-cloud/image/upload/avatars/avatar',
+        });
+    });
+
+    it('should keep the extension for raw files and backdate shorter expiries', async () => {
+        const now = Math.round(Date.now() / 1000);
+
+        const signed = await provider.createSignedUpload({
+            filename: 'report.pdf',
+            contentType: 'application/pdf',
+            expiresIn: 600,
+        });
+
+        expect(signed.uploadUrl).toBe('https://api.cloudinary.com/v1_1/test-cloud/raw/upload');
+        expect(signed.publicId).toBe('report.pdf');
+        expect(signed.fields?.timestamp).toBe(String(now - 3000));
+    });
+});
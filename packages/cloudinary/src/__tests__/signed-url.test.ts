@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CloudinaryProvider } from '../cloudinary-provider';
+
+// Mock cloudinary SDK
+vi.mock('cloudinary', () => ({
+    v2: {
+        config: vi.fn(),
+        uploader: {
+            upload: vi.fn(),
+            destroy: vi.fn(),
+            explicit: vi.fn(),
+        },
+        url: vi.fn(() => 'https://res.cloudinary.com/test-cloud/signed'),
+    },
+}));
+
+describe('CloudinaryProvider getSignedUrl', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should sign authenticated delivery URLs with transformations and attachment flag', async () => {
+        const cloudinary = await import('cloudinary');
+        const provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+        });
+
+        const url = await provider.getSignedUrl('docs/report', {
+            type: 'authenticated',
+            transform: { width: 100 },
+            disposition: 'attachment',
+            filename: 'report.pdf',
+        });
+
+        expect(url).toBe('https://res.cloudinary.com/test-cloud/signed');
+        expect(cloudinary.v2.url).toHaveBeenCalledWith('docs/report', {
+            secure: true,
+            sign_url: true,
+            type: 'authenticated',
+            resource_type: 'image',
+            transformation: [{ width: 100 }],
+            flags: 'attachment:report',
+        });
+    });
+
+    it('should add an expiring token when authTokenKey is configured', async () => {
+        const cloudinary = await import('cloudinary');
+        const provider = new CloudinaryProvider({
+            cloudName: 'test-cloud',
+            apiKey: 'test-key',
+            apiSecret: 'test-secret',
+            authTokenKey: 'token-key',
+        });
+
+        await provider.getSignedUrl('docs/report', { expiresIn: 300 });
+
+        expect(cloudinary.v2.url).toHaveBeenCalledWith(
+            'docs/report',
+            expect.objectContaining({ auth_token: { key: 'token-key', duration: 300 } })
+        );
+    });
+});
@@ -5,8 +5,22 @@ import type {
   UploadInput,
   TransformationOptions,
   ProviderFeatures,
+  ListOptions,
+  ListResult,
+  SignedUploadOptions,
+  SignedUpload,
+  SignedUrlOptions,
+  DownloadOptions,
+  DownloadResult,
+  MediaErrorHints,
+} from '@fluxmedia/core';
+import {
+  MediaError,
+  MediaErrorCode,
+  createMediaError,
+  getFileType,
+  parseRetryAfter,
 } from '@fluxmedia/core';
-import { MediaErrorCode, createMediaError, getFileType } from '@fluxmedia/core';
 import type { Readable } from 'node:stream';
 import { CloudinaryFeatures } from './features';
 import type {
@@ -117,6 +131,18 @@ export class CloudinaryProvider implements MediaProvider {
   }
 
   async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    if (options?.signal?.aborted) {
+      throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name);
+    }
+    if (options?.ifMatch !== undefined) {
+      // Cloudinary has no compare-and-swap on upload; checking first would race
+      throw new MediaError(
+        'ifMatch is not supported by Cloudinary - use ifNotExists instead',
+        MediaErrorCode.INVALID_CONFIG,
+        this.name
+      );
+    }
+
     const client = await this.ensureClient();
 
     try {
@@ -163,7 +189,11 @@ export class CloudinaryProvider implements MediaProvider {
           options.onProgress(50); // Starting upload
         }
 
-        result = await client.uploader.upload(uploadData, cloudinaryOptions);
+        result = await this.withAbort(
+          client,
+          client.uploader.upload(uploadData, cloudinaryOptions),
+          options?.signal
+        );
       } else {
         // File object
         if (options?.onProgress) {
@@ -174,7 +204,22 @@ export class CloudinaryProvider implements MediaProvider {
           options.onProgress(50); // Starting upload
         }
 
-        result = await client.uploader.upload(file as unknown as string, cloudinaryOptions);
+        result = await this.withAbort(
+          client,
+          client.uploader.upload(file as unknown as string, cloudinaryOptions),
+          options?.signal
+        );
+      }
+
+      // With overwrite: false Cloudinary keeps the existing asset and reports it
+      if (options?.ifNotExists && result.existing === true) {
+        throw new MediaError(
+          `Asset '${result.public_id}' already exists`,
+          MediaErrorCode.CONFLICT,
+          this.name,
+          undefined,
+          { publicId: result.public_id }
+        );
       }
 
       if (options?.onProgress) {
@@ -183,6 +228,12 @@ export class CloudinaryProvider implements MediaProvider {
 
       return this.normalizeResult(result);
     } catch (error) {
+      if (error instanceof MediaError) {
+        throw error;
+      }
+      if (options?.signal?.aborted) {
+        throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name, error);
+      }
       throw this.mapCloudinaryError(error, 'upload');
     }
   }
@@ -207,15 +258,38 @@ export class CloudinaryProvider implements MediaProvider {
     }
   }
 
-  async get(id: string): Promise<UploadResult> {
+  /**
+   * Look up an `upload` type resource. Cloudinary looks resources up per
+   * resource type; without `resourceType` image, video and raw are tried in
+   * turn until one is found.
+   */
+  async get(
+    id: string,
+    options?: { resourceType?: 'image' | 'video' | 'raw' }
+  ): Promise<UploadResult> {
     const client = await this.ensureClient();
-
-    try {
-      const result = await client.uploader.explicit(id, { type: 'upload' });
-      return this.normalizeResult(result);
-    } catch (error) {
-      throw this.mapCloudinaryError(error, 'get');
+    const resourceTypes = options?.resourceType
+      ? [options.resourceType]
+      : (['image', 'video', 'raw'] as const);
+
+    let notFound: Error | undefined;
+    for (const resourceType of resourceTypes) {
+      try {
+        const result = await client.uploader.explicit(id, {
+          type: 'upload',
+          resource_type: resourceType,
+        });
+        return this.normalizeResult(result);
+      } catch (error) {
+        const mapped = this.mapCloudinaryError(error, 'get');
+        if (!(mapped instanceof MediaError) || mapped.code !== MediaErrorCode.FILE_NOT_FOUND) {
+          throw mapped;
+        }
+        notFound = mapped;
+      }
     }
+
+    throw notFound;
   }
 
   getUrl(id: string, transform?: TransformationOptions): string {
@@ -237,6 +311,218 @@ export class CloudinaryProvider implements MediaProvider {
     return basePath;
   }
 
+  /**
+   * List resources using the Admin API. The cursor is Cloudinary's `next_cursor`.
+   * Cloudinary lists one resource type at a time; pass `resourceType` to list
+   * videos or raw files (default: 'image').
+   */
+  async list(
+    options?: ListOptions & { resourceType?: 'image' | 'video' | 'raw' }
+  ): Promise<ListResult> {
+    const client = await this.ensureClient();
+
+    try {
+      const response = await client.api.resources({
+        type: 'upload',
+        resource_type: options?.resourceType ?? 'image',
+        ...(options?.prefix && { prefix: options.prefix }),
+        ...(options?.cursor && { next_cursor: options.cursor }),
+        ...(options?.limit && { max_results: Math.min(options.limit, 500) }),
+      });
+
+      return {
+        items: (response.resources as CloudinaryUploadResponse[]).map((resource) =>
+          this.normalizeResult(resource)
+        ),
+        nextCursor: response.next_cursor ?? undefined,
+      };
+    } catch (error) {
+      throw this.mapCloudinaryError(error, 'list');
+    }
+  }
+
+  /**
+   * Copy a resource by uploading a signed delivery URL under a new public ID,
+   * so authenticated and private assets can be copied too. Cloudinary has no
+   * server-side copy, but fetching from its own CDN avoids routing the bytes
+   * through this process. The copy keeps the source's delivery type. The
+   * resource type is looked up with `get()` unless `resourceType` is given;
+   * pass it for assets that are not `upload` type, since only those can be
+   * looked up.
+   */
+  async copy(
+    id: string,
+    destKey: string,
+    options?: {
+      resourceType?: 'image' | 'video' | 'raw';
+      type?: 'upload' | 'authenticated' | 'private';
+    }
+  ): Promise<UploadResult> {
+    const client = await this.ensureClient();
+    const type = options?.type ?? 'upload';
+    const resourceType = options?.resourceType ?? (await this.lookupResourceType(id));
+    const url = await this.getSignedUrl(id, { resourceType, type });
+
+    try {
+      const result = await client.uploader.upload(url, {
+        public_id: destKey,
+        resource_type: resourceType,
+        type,
+        overwrite: true,
+      });
+      return this.normalizeResult(result);
+    } catch (error) {
+      throw this.mapCloudinaryError(error, 'upload');
+    }
+  }
+
+  /**
+   * Move a resource to a new public ID using the rename API. The resource
+   * type is looked up with `get()` unless `resourceType` is given.
+   */
+  async move(
+    id: string,
+    destKey: string,
+    options?: { resourceType?: 'image' | 'video' | 'raw' }
+  ): Promise<UploadResult> {
+    const client = await this.ensureClient();
+    const resourceType = options?.resourceType ?? (await this.lookupResourceType(id));
+
+    try {
+      const result = await client.uploader.rename(id, destKey, {
+        resource_type: resourceType,
+        overwrite: true,
+      });
+      return this.normalizeResult(result);
+    } catch (error) {
+      throw this.mapCloudinaryError(error, 'move');
+    }
+  }
+
+  /**
+   * Create signed upload parameters for a client to POST directly to Cloudinary.
+   * Cloudinary accepts a signature for one hour after its timestamp, so a shorter
+   * `expiresIn` is applied by backdating the timestamp and longer values are capped.
+   * `maxSize` cannot be signed; use an upload preset to limit file size.
+   */
+  async createSignedUpload(options: SignedUploadOptions): Promise<SignedUpload> {
+    const client = await this.ensureClient();
+    const resourceType = this.resourceTypeFromContentType(options.contentType);
+
+    // Raw files keep their extension; Cloudinary derives the format for images and videos
+    const name =
+      resourceType === 'raw' ? options.filename : options.filename.replace(/\.[^/.]+$/, '');
+    const publicId = options.folder ? `${options.folder}/${name}` : name;
+
+    const maxValidity = 3600;
+    const expiresIn = Math.min(options.expiresIn ?? maxValidity, maxValidity);
+    const timestamp = Math.round(Date.now() / 1000) - (maxValidity - expiresIn);
+
+    const signature = client.utils.api_sign_request(
+      { timestamp, public_id: publicId },
+      this.config.apiSecret
+    );
+
+    const protocol = this.config.secure ? 'https' : 'http';
+    return {
+      uploadUrl: `https://api.cloudinary.com/v1_1/${this.config.cloudName}/${resourceType}/upload`,
+      method: 'POST',
+      fields: {
+        api_key: this.config.apiKey,
+        timestamp: String(timestamp),
+        signature,
+        public_id: publicId,
+      },
+      publicId,
+      publicUrl: `${protocol}://res.cloudinary.com/${this.config.cloudName}/${resourceType}/upload/${publicId}`,
+    };
+  }
+
+  /**
+   * Generate a signed delivery URL, e.g. for `authenticated` assets.
+   * With `authTokenKey` configured the URL carries a token that expires after
+   * `expiresIn` seconds; plain signed URLs are valid until the asset changes.
+   */
+  async getSignedUrl(
+    id: string,
+    options?: SignedUrlOptions & {
+      resourceType?: 'image' | 'video' | 'raw';
+      type?: 'upload' | 'authenticated' | 'private';
+    }
+  ): Promise<string> {
+    const client = await this.ensureClient();
+
+    const urlOptions: Record<string, unknown> = {
+      secure: this.config.secure,
+      sign_url: true,
+      type: options?.type ?? 'upload',
+      resource_type: options?.resourceType ?? 'image',
+    };
+    if (options?.transform) {
+      urlOptions.transformation = [this.mapTransformations(options.transform)];
+    }
+    if (options?.disposition === 'attachment') {
+      // Cloudinary appends the extension itself
+      urlOptions.flags = options.filename
+        ? `attachment:${options.filename.replace(/\.[^/.]+$/, '')}`
+        : 'attachment';
+    }
+    if (this.config.authTokenKey) {
+      urlOptions.auth_token = {
+        key: this.config.authTokenKey,
+        duration: options?.expiresIn ?? 3600,
+      };
+    }
+
+    return client.url(id, urlOptions);
+  }
+
+  /**
+   * Download from a signed delivery URL, so authenticated and private assets
+   * work too. `range` is sent as the HTTP Range header. Pass `resourceType`
+   * for videos and raw files.
+   */
+  async download(
+    id: string,
+    options?: DownloadOptions & {
+      resourceType?: 'image' | 'video' | 'raw';
+      type?: 'upload' | 'authenticated' | 'private';
+    }
+  ): Promise<DownloadResult> {
+    const url = await this.getSignedUrl(id, {
+      ...(options?.resourceType && { resourceType: options.resourceType }),
+      ...(options?.type && { type: options.type }),
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...(options?.range && {
+          headers: { Range: `bytes=${options.range.start}-${options.range.end ?? ''}` },
+        }),
+        ...(options?.signal && { signal: options.signal }),
+      });
+    } catch (error) {
+      throw this.mapCloudinaryError(error, 'download');
+    }
+
+    if (!response.ok || !response.body) {
+      throw this.mapCloudinaryError(
+        { http_code: response.status, message: `Download failed with HTTP ${response.status}` },
+        'download'
+      );
+    }
+
+    const contentLength = response.headers.get('content-length');
+    return {
+      stream: response.body as ReadableStream<Uint8Array>,
+      contentType: response.headers.get('content-type') ?? undefined,
+      contentLength: contentLength ? Number(contentLength) : undefined,
+      etag: response.headers.get('etag') ?? undefined,
+      contentRange: response.headers.get('content-range') ?? undefined,
+    };
+  }
+
   async uploadMultiple(
     files: File[] | Buffer[],
     options?: UploadOptions & {
@@ -331,12 +617,25 @@ export class CloudinaryProvider implements MediaProvider {
   /**
    * Issue #5: Map Cloudinary-specific errors to appropriate MediaErrorCodes
    */
-  private mapCloudinaryError(error: unknown, operation: 'upload' | 'delete' | 'get'): Error {
+  private mapCloudinaryError(
+    error: unknown,
+    operation: 'upload' | 'delete' | 'get' | 'list' | 'move' | 'download'
+  ): Error {
     const err = error as Record<string, unknown>;
     const errorMessage = err?.message ?? String(error);
-    const httpCode = (err?.http_code ?? (err?.error as Record<string, unknown>)?.http_code) as
-      | number
-      | undefined;
+    const nested = err?.error as Record<string, unknown> | undefined;
+    const httpCode = (err?.http_code ?? nested?.http_code) as number | undefined;
+    const headers = (err?.headers ?? nested?.headers) as Record<string, unknown> | undefined;
+    const hints: MediaErrorHints = {
+      httpStatus: httpCode,
+      requestId: (err?.request_id ?? nested?.request_id ?? headers?.['x-request-id']) as
+        string | undefined,
+    };
+
+    // Cancelled through an AbortSignal
+    if (err?.name === 'AbortError') {
+      return createMediaError(MediaErrorCode.ABORTED, this.name, error as Error, undefined, hints);
+    }
 
     // Authentication errors
     if (httpCode === 401 || String(errorMessage).includes('Invalid API key')) {
@@ -344,7 +643,8 @@ export class CloudinaryProvider implements MediaProvider {
         MediaErrorCode.INVALID_CREDENTIALS,
         this.name,
         new Error('Invalid Cloudinary credentials - check apiKey and apiSecret'),
-        { httpCode }
+        { httpCode },
+        hints
       );
     }
 
@@ -354,7 +654,8 @@ export class CloudinaryProvider implements MediaProvider {
         MediaErrorCode.QUOTA_EXCEEDED,
         this.name,
         new Error('Cloudinary account quota exceeded'),
-        { httpCode }
+        { httpCode },
+        hints
       );
     }
 
@@ -364,21 +665,45 @@ export class CloudinaryProvider implements MediaProvider {
         MediaErrorCode.FILE_NOT_FOUND,
         this.name,
         new Error(`File not found`),
-        { httpCode }
+        { httpCode },
+        hints
       );
     }
 
-    // Network/timeout errors
+    // Rate limiting (the Admin API answers 420)
+    if (httpCode === 420 || httpCode === 429) {
+      return createMediaError(
+        MediaErrorCode.RATE_LIMITED,
+        this.name,
+        new Error('Cloudinary rate limit exceeded - try again later'),
+        { httpCode },
+        { ...hints, retryAfterMs: parseRetryAfter(headers?.['retry-after']) }
+      );
+    }
+
+    // Conflicting resource
+    if (httpCode === 409) {
+      return createMediaError(
+        MediaErrorCode.CONFLICT,
+        this.name,
+        new Error(`Conflict: ${errorMessage}`),
+        { httpCode },
+        hints
+      );
+    }
+
+    // Timeout errors
     if (
       httpCode === 408 ||
       String(errorMessage).toLowerCase().includes('timeout') ||
       String(errorMessage).includes('ETIMEDOUT')
     ) {
       return createMediaError(
-        MediaErrorCode.NETWORK_ERROR,
+        MediaErrorCode.TIMEOUT,
         this.name,
         new Error('Request timeout - network may be slow or file too large'),
-        { httpCode }
+        { httpCode },
+        hints
       );
     }
 
@@ -391,7 +716,8 @@ export class CloudinaryProvider implements MediaProvider {
         MediaErrorCode.FILE_TOO_LARGE,
         this.name,
         new Error(`Invalid file: ${errorMessage}`),
-        { httpCode }
+        { httpCode },
+        hints
       );
     }
 
@@ -401,12 +727,18 @@ export class CloudinaryProvider implements MediaProvider {
         ? MediaErrorCode.UPLOAD_FAILED
         : operation === 'delete'
           ? MediaErrorCode.DELETE_FAILED
-          : MediaErrorCode.FILE_NOT_FOUND;
-
-    return createMediaError(defaultCode, this.name, error as Error, {
-      cloudinaryError: errorMessage,
-      httpCode,
-    });
+          : operation === 'list' || operation === 'move' || operation === 'download'
+            ? MediaErrorCode.PROVIDER_ERROR
+            : MediaErrorCode.FILE_NOT_FOUND;
+
+    // Server-side failures keep the operation's code but may succeed on retry
+    return createMediaError(
+      defaultCode,
+      this.name,
+      error as Error,
+      { cloudinaryError: errorMessage, httpCode },
+      httpCode !== undefined && httpCode >= 500 ? { ...hints, retryable: true } : hints
+    );
   }
 
   /**
@@ -458,6 +790,9 @@ export class CloudinaryProvider implements MediaProvider {
     if (options?.tags) {
       cloudinaryOptions.tags = options.tags;
     }
+    if (options?.ifNotExists) {
+      cloudinaryOptions.overwrite = false;
+    }
     if (options?.metadata) {
       cloudinaryOptions.context = Object.entries(options.metadata).reduce(
         (acc, [key, value]) => {
@@ -606,9 +941,11 @@ export class CloudinaryProvider implements MediaProvider {
     options?: UploadOptions
   ): Promise<CloudinaryUploadResponse> {
     return new Promise((resolve, reject) => {
+      let removeAbortListener = (): void => undefined;
       const uploadStream = client.uploader.upload_stream(
         cloudinaryOptions,
         (error: unknown, result: CloudinaryUploadResponse | undefined) => {
+          removeAbortListener();
           if (error) return reject(error);
           if (!result) return reject(new Error('Cloudinary upload_stream returned no result'));
           resolve(result);
@@ -623,9 +960,17 @@ export class CloudinaryProvider implements MediaProvider {
       if ('pipe' in stream && typeof (stream as Readable).pipe === 'function') {
         // Node.js Readable
         (stream as Readable).pipe(uploadStream);
+        removeAbortListener = this.onAbort(options?.signal, reject, () => {
+          (stream as Readable).unpipe(uploadStream);
+          uploadStream.destroy();
+        });
       } else {
         // Web ReadableStream — consume with reader
         const reader = (stream as ReadableStream<Uint8Array>).getReader();
+        removeAbortListener = this.onAbort(options?.signal, reject, () => {
+          reader.cancel().catch(() => undefined);
+          uploadStream.destroy();
+        });
         const pump = (): void => {
           reader
             .read()
@@ -644,6 +989,48 @@ export class CloudinaryProvider implements MediaProvider {
     });
   }
 
+  /**
+   * Reject an SDK upload as soon as the signal fires. The SDK cannot cancel a
+   * request in flight, so an asset that still arrives afterwards is destroyed.
+   */
+  private withAbort(
+    client: CloudinaryClient,
+    upload: Promise<CloudinaryUploadResponse>,
+    signal: AbortSignal | undefined
+  ): Promise<CloudinaryUploadResponse> {
+    if (!signal) return upload;
+
+    return new Promise((resolve, reject) => {
+      const cleanup = this.onAbort(signal, reject, () => {
+        upload
+          .then((result) =>
+            client.uploader.destroy(result.public_id, { resource_type: result.resource_type })
+          )
+          .catch(() => undefined);
+      });
+      upload.then(resolve, reject).finally(cleanup);
+    });
+  }
+
+  /**
+   * Run `cancel` and reject with the signal's reason when it fires.
+   * Returns a function that removes the listener.
+   */
+  private onAbort(
+    signal: AbortSignal | undefined,
+    reject: (reason: unknown) => void,
+    cancel: () => void
+  ): () => void {
+    if (!signal) return () => undefined;
+
+    const listener = () => {
+      cancel();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', listener, { once: true });
+    return () => signal.removeEventListener('abort', listener);
+  }
+
   /**
    * Check whether the given input is a stream.
    */
@@ -656,6 +1043,14 @@ export class CloudinaryProvider implements MediaProvider {
     );
   }
 
+  /**
+   * Find the resource type of an `upload` type resource.
+   */
+  private async lookupResourceType(id: string): Promise<'image' | 'video' | 'raw'> {
+    const resource = await this.get(id);
+    return (resource.metadata.resourceType as 'image' | 'video' | 'raw' | undefined) ?? 'image';
+  }
+
   /**
    * Derive Cloudinary resource_type from a MIME content type.
    */
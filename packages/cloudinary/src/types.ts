@@ -22,6 +22,13 @@ export interface CloudinaryConfig {
      * @default true
      */
     secure?: boolean;
+
+    /**
+     * Token key for token-based authentication (Cloudinary Enterprise).
+     * When set, getSignedUrl() returns token URLs that expire; otherwise it
+     * returns signed delivery URLs, which do not expire.
+     */
+    authTokenKey?: string;
 }
 
 /**
@@ -34,6 +41,7 @@ export interface CloudinaryUploadOptions {
     context?: Record<string, string>;
     transformation?: unknown[];
     resource_type?: 'image' | 'video' | 'raw' | 'auto';
+    overwrite?: boolean;
     [key: string]: unknown;
 }
 
@@ -54,6 +62,8 @@ export interface CloudinaryUploadResponse {
     type: string;
     url: string;
     secure_url: string;
+    /** True when `overwrite: false` kept an asset that already existed */
+    existing?: boolean;
     [key: string]: unknown;
 }
 
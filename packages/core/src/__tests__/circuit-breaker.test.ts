@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start closed and let requests through', () => {
+    const breaker = new CircuitBreaker('s3');
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should open after the failure threshold', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 2 });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should allow a single half-open probe after the open duration', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 1, openDurationMs: 1000 });
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(999);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close when the probe succeeds', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 1, openDurationMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should reopen for a full duration when the probe fails', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 3, openDurationMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    vi.advanceTimersByTime(999);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should free the probe slot on release', () => {
+    const breaker = new CircuitBreaker('s3', { failureThreshold: 1, openDurationMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+
+    breaker.release();
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should report every state change', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker(
+      's3',
+      { failureThreshold: 1, openDurationMs: 1000 },
+      onStateChange
+    );
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(onStateChange.mock.calls.map(([change]) => change)).toEqual([
+      { provider: 's3', from: 'closed', to: 'open' },
+      { provider: 's3', from: 'open', to: 'half-open' },
+      { provider: 's3', from: 'half-open', to: 'closed' },
+    ]);
+  });
+});
@@ -1,5 +1,12 @@
-import { describe, it, expect } from 'vitest';
-import { MediaError, MediaErrorCode, createMediaError } from '../errors';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    BatchDeleteError,
+    MediaError,
+    MediaErrorCode,
+    createMediaError,
+    isRetryableError,
+    parseRetryAfter,
+} from '../errors';
 
 describe('MediaError', () => {
     it('should create an error with all properties', () => {
@@ -112,6 +119,11 @@ describe('MediaErrorCode', () => {
             'MISSING_CREDENTIALS',
             'FILE_NOT_FOUND',
             'DELETE_FAILED',
+            'ABORTED',
+            'TIMEOUT',
+            'CHECKSUM_MISMATCH',
+            'CONFLICT',
+            'PRECONDITION_FAILED',
         ];
 
         expectedCodes.forEach((code) => {
@@ -119,3 +131,76 @@ describe('MediaErrorCode', () => {
         });
     });
 });
+
+describe('retry hints', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should derive retryable from the code by default', () => {
+        expect(new MediaError('x', MediaErrorCode.TIMEOUT, 's3').retryable).toBe(true);
+        expect(new MediaError('x', MediaErrorCode.RATE_LIMITED, 's3').retryable).toBe(true);
+        expect(new MediaError('x', MediaErrorCode.FILE_NOT_FOUND, 's3').retryable).toBe(false);
+        expect(new MediaError('x', MediaErrorCode.CONFLICT, 's3').retryable).toBe(false);
+    });
+
+    it('should carry hints passed to createMediaError', () => {
+        const error = createMediaError(
+            MediaErrorCode.UPLOAD_FAILED,
+            's3',
+            new Error('We encountered an internal error'),
+            undefined,
+            { retryable: true, retryAfterMs: 2000, httpStatus: 500, requestId: 'req-1' }
+        );
+
+        expect(error.retryable).toBe(true);
+        expect(error.retryAfterMs).toBe(2000);
+        expect(error.httpStatus).toBe(500);
+        expect(error.requestId).toBe('req-1');
+    });
+
+    it('should treat only transient system errors as retryable plain errors', () => {
+        const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+        expect(isRetryableError(reset)).toBe(true);
+        expect(isRetryableError(new Error('network is down'))).toBe(false);
+        expect(isRetryableError('ETIMEDOUT')).toBe(false);
+    });
+
+    it('should parse Retry-After seconds and HTTP dates', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+        expect(parseRetryAfter('120')).toBe(120000);
+        expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30000);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+});
+
+describe('BatchDeleteError', () => {
+    it('should list failed ids and be retryable only when every failure is', () => {
+        const transient = new MediaError('slow down', MediaErrorCode.RATE_LIMITED, 's3');
+        const denied = new MediaError('denied', MediaErrorCode.UNAUTHORIZED, 's3');
+
+        const retryable = new BatchDeleteError('Failed to delete 1 of 2 files', 's3', {
+            deleted: ['a'],
+            failed: [{ id: 'b', error: transient }],
+        });
+        const permanent = new BatchDeleteError('Failed to delete 2 of 2 files', 's3', {
+            deleted: [],
+            failed: [
+                { id: 'a', error: transient },
+                { id: 'b', error: denied },
+            ],
+        });
+
+        expect(retryable).toBeInstanceOf(MediaError);
+        expect(retryable.code).toBe(MediaErrorCode.DELETE_FAILED);
+        expect(retryable.originalError).toBe(transient);
+        expect(retryable.details).toEqual({ deleted: 1, failed: ['b'] });
+        expect(retryable.retryable).toBe(true);
+        expect(permanent.failedIds).toEqual(['a', 'b']);
+        expect(permanent.retryable).toBe(false);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypedEventEmitter } from '../events';
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { label: string };
+}
+
+describe('TypedEventEmitter', () => {
+  it('should call listeners of the emitted event in subscription order', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const calls: string[] = [];
+    emitter.on('ping', ({ n }) => calls.push(`a${n}`));
+    emitter.on('ping', ({ n }) => calls.push(`b${n}`));
+    emitter.on('pong', () => calls.push('pong'));
+
+    emitter.emit('ping', { n: 1 });
+
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  it('should remove listeners with off() or the returned function', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    emitter.on('ping', first);
+    const unsubscribe = emitter.on('ping', second);
+
+    emitter.off('ping', first);
+    unsubscribe();
+    emitter.emit('ping', { n: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it('should call a once() listener a single time', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.once('ping', listener);
+
+    emitter.emit('ping', { n: 1 });
+    emitter.emit('ping', { n: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ n: 1 });
+  });
+
+  it('should keep calling listeners after one throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const after = vi.fn();
+    emitter.on('ping', () => {
+      throw new Error('listener boom');
+    });
+    emitter.on('ping', after);
+
+    expect(() => emitter.emit('ping', { n: 1 })).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { InMemoryProvider, createProviderContractTests } from '../testing';
+import { MediaErrorCode } from '../errors';
+import { MediaUploader } from '../media-uploader';
+
+createProviderContractTests('InMemory', () => new InMemoryProvider());
+
+describe('InMemoryProvider', () => {
+  let provider: InMemoryProvider;
+
+  beforeEach(() => {
+    provider = new InMemoryProvider();
+  });
+
+  it('should store bytes and return them from get', async () => {
+    const data = Buffer.from('hello');
+    const result = await provider.upload(data, {
+      folder: 'docs',
+      filename: 'greeting',
+      uniqueFilename: false,
+      contentType: 'text/plain',
+      metadata: { owner: 'user-1' },
+    });
+
+    expect(result.id).toBe('docs/greeting');
+    expect(result.size).toBe(5);
+    expect(provider.getData('docs/greeting')).toEqual(data);
+
+    const fetched = await provider.get('docs/greeting');
+    expect(fetched.metadata).toEqual({ owner: 'user-1', contentType: 'text/plain' });
+  });
+
+  it('should append a unique suffix to filenames by default', async () => {
+    const a = await provider.upload(Buffer.from('a'), { filename: 'avatar' });
+    const b = await provider.upload(Buffer.from('b'), { filename: 'avatar' });
+
+    expect(a.id).not.toBe(b.id);
+    expect(provider.size).toBe(2);
+  });
+
+  it('should read stream inputs', async () => {
+    const result = await provider.upload(Readable.from([Buffer.from('ab'), Buffer.from('cd')]), {
+      contentType: 'text/plain',
+    });
+
+    expect(provider.getData(result.id)?.toString()).toBe('abcd');
+  });
+
+  it('should enforce features.storage.maxFileSize', async () => {
+    const small = new InMemoryProvider({
+      features: { storage: { maxFileSize: 2, supportedFormats: ['*'] } },
+    });
+
+    await expect(small.upload(Buffer.from('abc'))).rejects.toMatchObject({
+      code: MediaErrorCode.FILE_TOO_LARGE,
+    });
+    expect(small.size).toBe(0);
+  });
+
+  it('should reject aborted uploads without storing them', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      provider.upload(Buffer.from('abc'), { signal: controller.signal })
+    ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+    expect(provider.size).toBe(0);
+  });
+
+  it('should delete files', async () => {
+    const result = await provider.upload(Buffer.from('x'));
+    await provider.delete(result.id);
+
+    expect(provider.has(result.id)).toBe(false);
+    await expect(provider.get(result.id)).rejects.toMatchObject({
+      code: MediaErrorCode.FILE_NOT_FOUND,
+    });
+  });
+
+  it('should refuse to overwrite with ifNotExists', async () => {
+    const options = { filename: 'report', uniqueFilename: false, ifNotExists: true };
+    await provider.upload(Buffer.from('first'), options);
+
+    await expect(provider.upload(Buffer.from('second'), options)).rejects.toMatchObject({
+      code: MediaErrorCode.CONFLICT,
+    });
+    expect(provider.getData('report')?.toString()).toBe('first');
+  });
+
+  it('should only overwrite a file whose ETag matches ifMatch', async () => {
+    const options = { filename: 'report', uniqueFilename: false };
+    await provider.upload(Buffer.from('v1'), options);
+    const { etag } = await provider.download('report');
+
+    await provider.upload(Buffer.from('v2'), { ...options, ifMatch: etag! });
+    await expect(
+      provider.upload(Buffer.from('v3'), { ...options, ifMatch: etag! })
+    ).rejects.toMatchObject({ code: MediaErrorCode.CONFLICT });
+    expect(provider.getData('report')?.toString()).toBe('v2');
+  });
+
+  it('should search by folder and tags', async () => {
+    await provider.upload(Buffer.from('1'), { folder: 'a', tags: ['x', 'y'] });
+    await provider.upload(Buffer.from('2'), { folder: 'a', tags: ['x'] });
+    await provider.upload(Buffer.from('3'), { folder: 'b', tags: ['y'] });
+
+    expect(await provider.search({ folder: 'a' })).toHaveLength(2);
+    expect(await provider.search({ tags: ['x', 'y'] })).toHaveLength(1);
+    expect(await provider.search({ limit: 1, offset: 2 })).toHaveLength(1);
+  });
+
+  describe('failure injection', () => {
+    it('should fail the given number of times, then recover', async () => {
+      provider.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+
+      await expect(provider.upload(Buffer.from('x'))).rejects.toMatchObject({
+        code: MediaErrorCode.NETWORK_ERROR,
+        provider: 'memory',
+      });
+      await expect(provider.upload(Buffer.from('x'))).resolves.toBeDefined();
+    });
+
+    it('should fail until cleared when times is omitted', async () => {
+      provider.injectFailure({
+        operation: 'delete',
+        code: MediaErrorCode.DELETE_FAILED,
+        message: 'disk on fire',
+      });
+
+      await expect(provider.delete('a')).rejects.toThrow('disk on fire');
+      await expect(provider.delete('a')).rejects.toThrow('disk on fire');
+
+      provider.clearFailures();
+      await expect(provider.delete('a')).resolves.toBeUndefined();
+    });
+
+    it('should drive MediaUploader fallback', async () => {
+      const primary = new InMemoryProvider({
+        name: 'primary',
+        failures: [{ operation: 'upload', code: MediaErrorCode.PROVIDER_ERROR }],
+      });
+      const fallback = new InMemoryProvider({ name: 'fallback' });
+      const uploader = new MediaUploader(primary, [], { fallbackProvider: fallback });
+
+      const result = await uploader.upload(Buffer.from('x'));
+
+      expect(result.provider).toBe('fallback');
+      expect(fallback.has(result.id)).toBe(true);
+    });
+  });
+});
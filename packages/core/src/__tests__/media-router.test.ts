@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { InMemoryProvider, createProviderContractTests } from '../testing';
+import { MediaRouter } from '../media-router';
+import { MediaErrorCode } from '../errors';
+import { MediaUploader } from '../media-uploader';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+createProviderContractTests(
+  'MediaRouter',
+  () => new MediaRouter({ rules: [], defaultProvider: new InMemoryProvider() })
+);
+
+describe('MediaRouter', () => {
+  let images: InMemoryProvider;
+  let large: InMemoryProvider;
+  let fallback: InMemoryProvider;
+  let router: MediaRouter;
+
+  beforeEach(() => {
+    images = new InMemoryProvider({ name: 'images' });
+    large = new InMemoryProvider({
+      name: 'large',
+      features: { storage: { maxFileSize: 1024 * 1024, supportedFormats: ['*'] } },
+    });
+    fallback = new InMemoryProvider({ name: 'fallback' });
+    router = new MediaRouter({
+      rules: [
+        { mimeTypes: ['image/*'], maxSize: 1024, provider: images },
+        { minSize: 100, provider: large },
+        { folders: ['archive'], tags: ['cold'], provider: large },
+      ],
+      defaultProvider: fallback,
+    });
+  });
+
+  it('should route by detected MIME type and size', async () => {
+    const image = await router.upload(PNG);
+    const big = await router.upload(Buffer.alloc(200));
+    const small = await router.upload(Buffer.from('hi'));
+
+    expect(images.has(image.id)).toBe(true);
+    expect(large.has(big.id)).toBe(true);
+    expect(fallback.has(small.id)).toBe(true);
+  });
+
+  it('should match folders including subfolders and require every tag', async () => {
+    const cold = await router.upload(Buffer.from('a'), {
+      folder: 'archive/2024',
+      tags: ['cold', 'q1'],
+    });
+    const untagged = await router.upload(Buffer.from('b'), { folder: 'archive' });
+
+    expect(router.getOwner(cold.id)).toBe('large');
+    expect(router.getOwner(untagged.id)).toBe('fallback');
+  });
+
+  it('should use contentType for streams and skip size rules', async () => {
+    const image = await router.upload(Readable.from([PNG]), { contentType: 'image/png' });
+    const unknown = await router.upload(Readable.from([Buffer.alloc(200)]));
+
+    // maxSize can't be checked for a stream, so the image rule does not match
+    expect(router.getOwner(image.id)).toBe('fallback');
+    expect(router.getOwner(unknown.id)).toBe('fallback');
+  });
+
+  it('should send get, getUrl and delete to the owning provider', async () => {
+    // Give both providers the same id to prove lookups don't just probe providers
+    const result = await router.upload(PNG, { filename: 'same', uniqueFilename: false });
+    await fallback.upload(Buffer.from('other'), { filename: 'same', uniqueFilename: false });
+
+    expect((await router.get('same')).provider).toBe('images');
+    expect(router.getUrl(result.id)).toBe(images.getUrl('same'));
+
+    await router.delete(result.id);
+    expect(images.has('same')).toBe(false);
+    expect(fallback.has('same')).toBe(true);
+    expect(router.getOwner('same')).toBeUndefined();
+  });
+
+  it('should group deleteMultiple by owner', async () => {
+    const image = await router.upload(PNG, { filename: 'image' });
+    const big = await router.upload(Buffer.alloc(200), { filename: 'big' });
+
+    await router.deleteMultiple([image.id, big.id]);
+
+    expect(images.size).toBe(0);
+    expect(large.size).toBe(0);
+  });
+
+  it('should restore ownership from a shared map', async () => {
+    const ownership = new Map<string, string>();
+    const first = new MediaRouter({
+      rules: [{ mimeTypes: ['image/*'], provider: images }],
+      defaultProvider: fallback,
+      ownership,
+    });
+    const result = await first.upload(PNG);
+
+    const restored = new MediaRouter({
+      rules: [{ mimeTypes: ['image/*'], provider: images }],
+      defaultProvider: fallback,
+      ownership: new Map(ownership),
+    });
+
+    expect((await restored.get(result.id)).provider).toBe('images');
+  });
+
+  it('should reject different providers with the same name', () => {
+    expect(
+      () =>
+        new MediaRouter({
+          rules: [{ mimeTypes: ['image/*'], provider: new InMemoryProvider() }],
+          defaultProvider: new InMemoryProvider(),
+        })
+    ).toThrow(expect.objectContaining({ code: MediaErrorCode.INVALID_CONFIG }));
+  });
+
+  it('should report a capability when any provider has it', () => {
+    const router = new MediaRouter({
+      rules: [
+        {
+          mimeTypes: ['image/*'],
+          provider: new InMemoryProvider({
+            name: 'transforming',
+            features: {
+              transformations: {
+                resize: true,
+                crop: false,
+                format: false,
+                quality: false,
+                blur: false,
+                rotate: false,
+                effects: false,
+              },
+            },
+          }),
+        },
+      ],
+      defaultProvider: large,
+    });
+
+    const uploader = new MediaUploader(router);
+    expect(uploader.supports('transformations.resize')).toBe(true);
+    expect(uploader.supports('transformations.crop')).toBe(false);
+    expect(router.features.storage.maxFileSize).toBe(10 * 1024 * 1024);
+  });
+});
@@ -1,8 +1,16 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Readable } from 'node:stream';
 import { MediaUploader } from '../media-uploader';
-import { MediaError, MediaErrorCode } from '../errors';
-import type { MediaProvider, UploadResult, ProviderFeatures, UploadInput } from '../types';
+import { MediaError, MediaErrorCode, TransactionError } from '../errors';
+import type {
+  MediaProvider,
+  UploadResult,
+  ProviderFeatures,
+  UploadInput,
+  DownloadResult,
+} from '../types';
 import type { FluxMediaPlugin } from '../plugin';
+import { InMemoryProvider } from '../in-memory-provider';
 
 // Mock provider for testing
 class MockProvider implements MediaProvider {
@@ -89,6 +97,27 @@ describe('MediaUploader', () => {
 
       expect(mockProvider.delete).toHaveBeenCalledWith('test-id');
     });
+
+    it('should not emit a delete event when a hook skips the delete', async () => {
+      const mockProvider = new MockProvider();
+      const afterDelete = vi.fn();
+      const uploader = new MediaUploader(mockProvider);
+      await uploader.use({
+        name: 'keep',
+        hooks: {
+          beforeDelete: (id) => ({ id, skip: true }),
+          afterDelete,
+        },
+      });
+      const deleted = vi.fn();
+      uploader.on('delete', deleted);
+
+      await uploader.delete('test-id');
+
+      expect(mockProvider.delete).not.toHaveBeenCalled();
+      expect(afterDelete).not.toHaveBeenCalled();
+      expect(deleted).not.toHaveBeenCalled();
+    });
   });
 
   describe('get', () => {
@@ -118,6 +147,44 @@ describe('MediaUploader', () => {
     });
   });
 
+  describe('getSignedUrl', () => {
+    it('should run beforeGetUrl hooks before signing', async () => {
+      const provider = new MockProvider();
+      const getSignedUrl = vi.fn().mockResolvedValue('https://signed.example.com/b');
+      const plugin: FluxMediaPlugin = {
+        name: 'rewrite',
+        hooks: {
+          beforeGetUrl: async (_id, transform) => ({
+            id: 'tenant/b',
+            transform: { ...transform, width: 200 },
+          }),
+        },
+      };
+      const uploader = new MediaUploader(Object.assign(provider, { getSignedUrl }), [plugin]);
+
+      const url = await uploader.getSignedUrl('b', {
+        expiresIn: 60,
+        transform: { height: 100 },
+        disposition: 'attachment',
+      });
+
+      expect(url).toBe('https://signed.example.com/b');
+      expect(getSignedUrl).toHaveBeenCalledWith('tenant/b', {
+        expiresIn: 60,
+        transform: { height: 100, width: 200 },
+        disposition: 'attachment',
+      });
+    });
+
+    it('should throw error if signed URLs are not supported', async () => {
+      const uploader = new MediaUploader(new MockProvider());
+
+      await expect(uploader.getSignedUrl('a')).rejects.toThrow(
+        'Signed URLs are not supported by mock provider'
+      );
+    });
+  });
+
   describe('uploadMultiple', () => {
     it('should upload each file individually (for plugin support)', async () => {
       const mockProvider = new MockProvider();
@@ -151,6 +218,87 @@ describe('MediaUploader', () => {
     });
   });
 
+  describe('uploadBatch', () => {
+    it('should report failures per file instead of throwing', async () => {
+      const provider = new InMemoryProvider();
+      provider.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+      const beforeUpload = vi.fn(async (file: UploadInput, options) => ({ file, options }));
+      const uploader = new MediaUploader(provider, [{ name: 'hooks', hooks: { beforeUpload } }]);
+      const files = [Buffer.from('a'), Buffer.from('b'), Buffer.from('c')];
+
+      const result = await uploader.uploadBatch(files, { concurrency: 1 });
+
+      expect(result.succeeded).toHaveLength(2);
+      expect(result.failed).toEqual([{ input: files[0], error: expect.any(MediaError) }]);
+      expect(result.failed[0]!.error.message).toBe('Injected upload failure');
+      expect(beforeUpload).toHaveBeenCalledTimes(3);
+    });
+
+    it('should limit concurrency and keep results in input order', async () => {
+      const mockProvider = new MockProvider();
+      let active = 0;
+      let peak = 0;
+      mockProvider.upload.mockImplementation(async (file) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, file.toString() === 'a' ? 10 : 1));
+        active--;
+        return { ...mockResult, id: file.toString() };
+      });
+      const onBatchProgress = vi.fn();
+
+      const uploader = new MediaUploader(mockProvider);
+      const result = await uploader.uploadBatch(
+        ['a', 'b', 'c', 'd'].map((name) => Buffer.from(name)),
+        { concurrency: 2, onBatchProgress }
+      );
+
+      expect(peak).toBe(2);
+      expect(result.succeeded.map((r) => r.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(onBatchProgress).toHaveBeenLastCalledWith(4, 4);
+    });
+
+    it('should aggregate byte progress across files', async () => {
+      const uploader = new MediaUploader(new InMemoryProvider());
+      const onBatchByteProgress = vi.fn();
+
+      await uploader.uploadBatch([Buffer.from('abc'), Buffer.from('defgh')], {
+        onBatchByteProgress,
+      });
+
+      expect(onBatchByteProgress).toHaveBeenLastCalledWith(8, 8);
+    });
+
+    it('should report an unknown total when a file is a stream', async () => {
+      const uploader = new MediaUploader(new InMemoryProvider());
+      const onBatchByteProgress = vi.fn();
+
+      await uploader.uploadBatch([Buffer.from('abc'), Readable.from([Buffer.from('de')])], {
+        contentType: 'text/plain',
+        onBatchByteProgress,
+      });
+
+      expect(onBatchByteProgress).toHaveBeenLastCalledWith(5, undefined);
+    });
+  });
+
+  describe('deleteBatch', () => {
+    it('should delete every id and collect failures', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.delete.mockImplementation(async (id) => {
+        if (id === 'id2') throw new Error('delete boom');
+      });
+      const afterDelete = vi.fn();
+
+      const uploader = new MediaUploader(mockProvider, [{ name: 'hooks', hooks: { afterDelete } }]);
+      const result = await uploader.deleteBatch(['id1', 'id2', 'id3']);
+
+      expect(result.succeeded).toEqual(['id1', 'id3']);
+      expect(result.failed).toEqual([{ input: 'id2', error: new Error('delete boom') }]);
+      expect(afterDelete).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('search', () => {
     it('should delegate search to provider if supported', async () => {
       const mockProvider = new MockProvider();
@@ -175,6 +323,356 @@ describe('MediaUploader', () => {
     });
   });
 
+  describe('list', () => {
+    it('should delegate list to provider', async () => {
+      const provider = new InMemoryProvider();
+      await provider.upload(Buffer.from('a'), { folder: 'docs' });
+
+      const uploader = new MediaUploader(provider);
+      const page = await uploader.list({ prefix: 'docs/' });
+
+      expect(page.items).toHaveLength(1);
+    });
+
+    it('should throw error if list not supported', async () => {
+      const uploader = new MediaUploader(new MockProvider());
+
+      await expect(uploader.list()).rejects.toThrow('List is not supported by mock provider');
+    });
+
+    it('should follow cursors in listAll', async () => {
+      const provider = new InMemoryProvider();
+      for (let i = 0; i < 5; i++) {
+        await provider.upload(Buffer.from(String(i)), { folder: 'docs' });
+      }
+      await provider.upload(Buffer.from('x'), { folder: 'other' });
+      const listSpy = vi.spyOn(provider, 'list');
+
+      const uploader = new MediaUploader(provider);
+      const ids: string[] = [];
+      for await (const file of uploader.listAll({ prefix: 'docs/', limit: 2 })) {
+        ids.push(file.id);
+      }
+
+      expect(ids).toHaveLength(5);
+      expect(new Set(ids).size).toBe(5);
+      expect(listSpy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('storage classes', () => {
+    it('should delegate transition and restore to the provider', async () => {
+      const provider = new MockProvider();
+      const transition = vi.fn().mockResolvedValue(mockResult);
+      const restore = vi.fn().mockResolvedValue({ status: 'in-progress' });
+      Object.assign(provider, { transition, restore });
+      const uploader = new MediaUploader(provider);
+
+      await uploader.transition('raw/master.mov', 'GLACIER');
+      const status = await uploader.restore('raw/master.mov', { days: 7, tier: 'bulk' });
+
+      expect(transition).toHaveBeenCalledWith('raw/master.mov', 'GLACIER');
+      expect(restore).toHaveBeenCalledWith('raw/master.mov', { days: 7, tier: 'bulk' });
+      expect(status).toEqual({ status: 'in-progress' });
+    });
+
+    it('should throw error if the provider has no storage classes', async () => {
+      const uploader = new MediaUploader(new MockProvider());
+
+      await expect(uploader.transition('a', 'GLACIER')).rejects.toThrow(
+        'Storage class transitions are not supported by mock provider'
+      );
+      await expect(uploader.restore('a', { days: 1 })).rejects.toThrow(
+        'Restore is not supported by mock provider'
+      );
+    });
+  });
+
+  describe('copy and move', () => {
+    it('should use the provider copy within the same provider', async () => {
+      const provider = new InMemoryProvider();
+      const source = await provider.upload(Buffer.from('a'), {
+        folder: 'docs',
+        filename: 'a',
+        uniqueFilename: false,
+      });
+
+      const uploader = new MediaUploader(provider);
+      const copied = await uploader.copy(source.id, 'archive/a');
+
+      expect(copied.id).toBe('archive/a');
+      expect(provider.has('docs/a')).toBe(true);
+      expect(provider.getData('archive/a')?.toString()).toBe('a');
+    });
+
+    it('should remove the source on move', async () => {
+      const provider = new InMemoryProvider();
+      const source = await provider.upload(Buffer.from('a'), { folder: 'docs' });
+
+      const uploader = new MediaUploader(provider);
+      await uploader.move(source.id, 'archive/a');
+
+      expect(provider.has(source.id)).toBe(false);
+      expect(provider.has('archive/a')).toBe(true);
+    });
+
+    it('should run copy hooks and apply rewritten keys', async () => {
+      const provider = new InMemoryProvider();
+      const source = await provider.upload(Buffer.from('a'));
+      const afterCopy = vi.fn();
+      const plugin: FluxMediaPlugin = {
+        name: 'prefix',
+        hooks: {
+          beforeCopy: async (id, destKey) => ({ id, destKey: `tenant-1/${destKey}` }),
+          afterCopy,
+        },
+      };
+
+      const uploader = new MediaUploader(provider, [plugin]);
+      const copied = await uploader.copy(source.id, 'b');
+
+      expect(copied.id).toBe('tenant-1/b');
+      expect(afterCopy).toHaveBeenCalledWith(copied, source.id);
+    });
+
+    it('should download and re-upload across providers', async () => {
+      const source = new InMemoryProvider({ name: 'source' });
+      const destination = new InMemoryProvider({ name: 'destination' });
+      const file = await source.upload(Buffer.from('payload'), { folder: 'docs' });
+      Object.defineProperty(source, 'download', { value: undefined });
+
+      const fetchMock = vi.fn(
+        async () =>
+          new Response('payload', {
+            headers: { 'content-type': 'text/plain' },
+          })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        const uploader = new MediaUploader(source);
+        const moved = await uploader.move(file.id, 'archive/payload', { destination });
+
+        expect(fetchMock).toHaveBeenCalledWith(source.getUrl(file.id));
+        expect(moved).toMatchObject({ id: 'archive/payload', provider: 'destination' });
+        expect(destination.getData('archive/payload')?.toString()).toBe('payload');
+        expect(source.has(file.id)).toBe(false);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should fetch the signed URL when the source cannot download', async () => {
+      const source = new InMemoryProvider({ name: 'source' });
+      const destination = new InMemoryProvider({ name: 'destination' });
+      const file = await source.upload(Buffer.from('payload'));
+      Object.defineProperty(source, 'download', { value: undefined });
+      Object.defineProperty(source, 'getSignedUrl', {
+        value: async (id: string) => `https://signed.example.com/${id}`,
+      });
+
+      const fetchMock = vi.fn(async () => new Response('payload'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        const uploader = new MediaUploader(source);
+        await uploader.copy(file.id, 'copy', { destination });
+
+        expect(fetchMock).toHaveBeenCalledWith(`https://signed.example.com/${file.id}`);
+        expect(destination.getData('copy')?.toString()).toBe('payload');
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should run delete hooks for the source of a cross-provider move', async () => {
+      const source = new InMemoryProvider({ name: 'source' });
+      const destination = new InMemoryProvider({ name: 'destination' });
+      const file = await source.upload(Buffer.from('payload'));
+      const beforeDelete = vi.fn();
+      const afterDelete = vi.fn();
+      const uploader = new MediaUploader(source, [
+        { name: 'audit', hooks: { beforeDelete, afterDelete } },
+      ]);
+
+      await uploader.move(file.id, 'moved', { destination });
+
+      expect(beforeDelete).toHaveBeenCalledWith(file.id);
+      expect(afterDelete).toHaveBeenCalledWith(file.id);
+      expect(source.has(file.id)).toBe(false);
+    });
+
+    it('should carry tags and metadata over across providers', async () => {
+      const source = new InMemoryProvider({ name: 'source' });
+      const destination = new InMemoryProvider({ name: 'destination' });
+      const file = await source.upload(Buffer.from('payload'), {
+        metadata: { owner: 'user-1', pages: 3, tags: ['invoice'] },
+      });
+      const uploadSpy = vi.spyOn(destination, 'upload');
+
+      await new MediaUploader(source).copy(file.id, 'docs/copy', { destination });
+
+      expect(uploadSpy).toHaveBeenCalledWith(
+        expect.any(ReadableStream),
+        expect.objectContaining({
+          folder: 'docs',
+          filename: 'copy',
+          tags: ['invoice'],
+          metadata: expect.objectContaining({ owner: 'user-1', pages: '3' }),
+        })
+      );
+    });
+
+    it('should leave the file in place when moved to its own key', async () => {
+      const provider = new InMemoryProvider();
+      const file = await provider.upload(Buffer.from('a'), {
+        folder: 'docs',
+        filename: 'a',
+        uniqueFilename: false,
+      });
+      Object.defineProperty(provider, 'move', { value: undefined });
+
+      const moved = await new MediaUploader(provider).move(file.id, 'docs/a');
+
+      expect(moved.id).toBe('docs/a');
+      expect(provider.getData('docs/a')?.toString()).toBe('a');
+    });
+
+    it('should keep the source when the transfer download fails', async () => {
+      const source = new InMemoryProvider();
+      const file = await source.upload(Buffer.from('a'));
+      Object.defineProperty(source, 'download', { value: undefined });
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(null, { status: 404 }))
+      );
+
+      try {
+        const uploader = new MediaUploader(source);
+        await expect(
+          uploader.move(file.id, 'b', { destination: new InMemoryProvider() })
+        ).rejects.toMatchObject({ code: MediaErrorCode.FILE_NOT_FOUND });
+        expect(source.has(file.id)).toBe(true);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should stream with download across providers when supported', async () => {
+      const source = new InMemoryProvider({ name: 'source' });
+      const destination = new InMemoryProvider({ name: 'destination' });
+      const file = await source.upload(Buffer.from('payload'));
+      const downloadSpy = vi.spyOn(source, 'download');
+
+      const copied = await new MediaUploader(source).copy(file.id, 'docs/copy', { destination });
+
+      expect(downloadSpy).toHaveBeenCalledWith(file.id);
+      expect(copied.id).toBe('docs/copy');
+      expect(destination.getData('docs/copy')?.toString()).toBe('payload');
+    });
+  });
+
+  describe('download', () => {
+    const readAll = async (stream: ReadableStream<Uint8Array>): Promise<string> =>
+      new Response(stream).text();
+
+    it('should stream the file with its headers', async () => {
+      const provider = new InMemoryProvider();
+      const file = await provider.upload(Buffer.from('hello world'), { contentType: 'text/plain' });
+
+      const result = await new MediaUploader(provider).download(file.id);
+
+      expect(await readAll(result.stream)).toBe('hello world');
+      expect(result).toMatchObject({ contentType: 'text/plain', contentLength: 11 });
+      expect(result.etag).toMatch(/^"[0-9a-f]{32}"$/);
+    });
+
+    it('should read a byte range', async () => {
+      const provider = new InMemoryProvider();
+      const file = await provider.upload(Buffer.from('hello world'));
+
+      const result = await new MediaUploader(provider).download(file.id, {
+        range: { start: 6 },
+      });
+
+      expect(await readAll(result.stream)).toBe('world');
+      expect(result).toMatchObject({ contentLength: 5, contentRange: 'bytes 6-10/11' });
+    });
+
+    it('should run download hooks', async () => {
+      const provider = new InMemoryProvider();
+      await provider.upload(Buffer.from('hello world'), {
+        folder: 'tenant-1',
+        filename: 'a',
+        uniqueFilename: false,
+      });
+      const afterDownload = vi.fn(async (result: DownloadResult) => ({
+        ...result,
+        contentType: 'application/x-scanned',
+      }));
+
+      const plugin: FluxMediaPlugin = {
+        name: 'tenant',
+        hooks: {
+          beforeDownload: async (id, options) => ({
+            id: `tenant-1/${id}`,
+            options: { ...options, range: { start: 0, end: 4 } },
+          }),
+          afterDownload,
+        },
+      };
+
+      const uploader = new MediaUploader(provider, [plugin]);
+      const result = await uploader.download('a');
+
+      expect(await readAll(result.stream)).toBe('hello');
+      expect(result.contentType).toBe('application/x-scanned');
+      expect(afterDownload).toHaveBeenCalledWith(expect.anything(), 'tenant-1/a');
+    });
+
+    it('should throw when the provider cannot download', async () => {
+      const uploader = new MediaUploader(new MockProvider());
+      await expect(uploader.download('a')).rejects.toThrow(
+        'Downloads are not supported by mock provider'
+      );
+    });
+
+    it('should throw FILE_NOT_FOUND for missing files', async () => {
+      const uploader = new MediaUploader(new InMemoryProvider());
+      await expect(uploader.download('missing')).rejects.toMatchObject({
+        code: MediaErrorCode.FILE_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('createSignedUpload', () => {
+    it('should delegate to the provider', async () => {
+      const provider = new MockProvider();
+      const signed = {
+        uploadUrl: 'https://upload.example.com',
+        method: 'PUT' as const,
+        publicId: 'avatars/a.png',
+      };
+      const createSignedUpload = vi.fn().mockResolvedValue(signed);
+      const uploader = new MediaUploader(Object.assign(provider, { createSignedUpload }));
+
+      const options = { filename: 'a.png', contentType: 'image/png', folder: 'avatars' };
+      await expect(uploader.createSignedUpload(options)).resolves.toBe(signed);
+      expect(createSignedUpload).toHaveBeenCalledWith(options);
+    });
+
+    it('should throw when the provider does not support signed uploads', async () => {
+      const provider = new InMemoryProvider();
+      const createSignedUpload = vi.fn();
+      const uploader = new MediaUploader(Object.assign(provider, { createSignedUpload }));
+
+      await expect(
+        uploader.createSignedUpload({ filename: 'a.png', contentType: 'image/png' })
+      ).rejects.toThrow('Signed uploads are not supported by memory provider');
+      expect(createSignedUpload).not.toHaveBeenCalled();
+    });
+  });
+
   describe('supports', () => {
     it('should return true for supported features', () => {
       const mockProvider = new MockProvider();
@@ -300,16 +798,16 @@ describe('MediaUploader', () => {
       expect(mockProvider.delete).not.toHaveBeenCalled();
     });
 
-    it('should log error and re-throw commit error if rollback also fails', async () => {
+    it('should report a failed rollback in a TransactionError instead of logging', async () => {
       const mockProvider = new MockProvider();
       mockProvider.upload.mockResolvedValue(mockResult);
 
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const consoleSpy = vi.spyOn(console, 'error');
 
       const uploader = new MediaUploader(mockProvider);
 
-      await expect(
-        uploader.uploadWithTransaction(
+      const error = (await uploader
+        .uploadWithTransaction(
           Buffer.from('test'),
           {},
           {
@@ -321,12 +819,237 @@ describe('MediaUploader', () => {
             },
           }
         )
-      ).rejects.toThrow('commit fail');
+        .catch((e: unknown) => e)) as TransactionError;
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.message).toBe(
+        'Transaction failed during commit: commit fail (1 of 1 uploads could not be rolled back)'
+      );
+      expect(error.transactionContext.rollbackFailures).toEqual([
+        { result: mockResult, error: expect.objectContaining({ message: 'rollback fail' }) },
+      ]);
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should delete the stored file when an afterUpload hook fails', async () => {
+      const provider = new InMemoryProvider();
+      const onCommit = vi.fn();
+      const uploader = new MediaUploader(provider, [
+        {
+          name: 'failing-hook',
+          hooks: {
+            afterUpload: async () => {
+              throw new Error('hook fail');
+            },
+          },
+        },
+      ]);
+
+      await expect(
+        uploader.uploadWithTransaction(Buffer.from('test'), {}, { onCommit })
+      ).rejects.toMatchObject({
+        name: 'TransactionError',
+        transactionContext: { stage: 'upload', rollbackFailures: [] },
+      });
+      expect(onCommit).not.toHaveBeenCalled();
+      expect(provider.size).toBe(0);
+    });
+  });
 
-      expect(consoleSpy).toHaveBeenCalledWith('[FluxMedia] Rollback failed:', expect.any(Error));
+  describe('uploadBatchWithTransaction', () => {
+    const files = () => [Buffer.from('a'), Buffer.from('b'), Buffer.from('c')];
 
+    it('should commit with every upload result in input order', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider);
+
+      const { uploadResults, commitResult } = await uploader.uploadBatchWithTransaction(
+        files(),
+        { folder: 'listing' },
+        { onCommit: async (results) => results.length }
+      );
+
+      expect(commitResult).toBe(3);
+      expect(uploadResults.map((r) => r.size)).toEqual([1, 1, 1]);
+      expect(provider.size).toBe(3);
+    });
+
+    it('should delete every upload when the commit fails', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider);
+
+      const error = await uploader
+        .uploadBatchWithTransaction(files(), undefined, {
+          onCommit: async () => {
+            throw new Error('DB insert failed');
+          },
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error).toMatchObject({
+        message: 'Transaction failed during commit: DB insert failed (rolled back 3 uploads)',
+        code: MediaErrorCode.UPLOAD_FAILED,
+        rollbackComplete: true,
+      });
+      expect((error as TransactionError).transactionContext.rolledBack).toHaveLength(3);
+      expect(provider.size).toBe(0);
+    });
+
+    it('should roll back the other uploads and skip the commit when an upload fails', async () => {
+      const provider = new InMemoryProvider();
+      provider.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+      const onCommit = vi.fn();
+      const uploader = new MediaUploader(provider);
+
+      await expect(
+        uploader.uploadBatchWithTransaction(files(), { concurrency: 1 }, { onCommit })
+      ).rejects.toMatchObject({
+        code: MediaErrorCode.NETWORK_ERROR,
+        transactionContext: { stage: 'upload', rollbackFailures: [] },
+      });
+      expect(onCommit).not.toHaveBeenCalled();
+      expect(provider.size).toBe(0);
+    });
+
+    it('should roll back a file stored before its afterUpload hook failed', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider, [
+        {
+          name: 'failing-hook',
+          hooks: {
+            afterUpload: async (result) => {
+              if (result.size === 2) throw new Error('hook fail');
+              return result;
+            },
+          },
+        },
+      ]);
+
+      const error = (await uploader
+        .uploadBatchWithTransaction(
+          [Buffer.from('a'), Buffer.from('bb'), Buffer.from('c')],
+          undefined,
+          { onCommit: vi.fn() }
+        )
+        .catch((e: unknown) => e)) as TransactionError;
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.transactionContext.stage).toBe('upload');
+      expect(error.transactionContext.rolledBack.map((r) => r.size).sort()).toEqual([1, 1, 2]);
+      expect(provider.size).toBe(0);
+    });
+
+    it('should report rollback failures and resume the rollback later', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider);
+      provider.injectFailure({ operation: 'delete', code: MediaErrorCode.NETWORK_ERROR, times: 2 });
+      const consoleSpy = vi.spyOn(console, 'error');
+
+      const error = (await uploader
+        .uploadBatchWithTransaction(files(), undefined, {
+          onCommit: async () => {
+            throw new Error('commit fail');
+          },
+        })
+        .catch((e: unknown) => e)) as TransactionError;
+
+      expect(error.code).toBe(MediaErrorCode.DELETE_FAILED);
+      expect(error.message).toBe(
+        'Transaction failed during commit: commit fail (2 of 3 uploads could not be rolled back)'
+      );
+      expect(error.transactionContext.rollbackFailures).toEqual([
+        { result: expect.objectContaining({ provider: 'memory' }), error: expect.any(MediaError) },
+        { result: expect.objectContaining({ provider: 'memory' }), error: expect.any(MediaError) },
+      ]);
+      expect(provider.size).toBe(2);
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      const resumed = await uploader.resumeRollback(error.transactionContext);
+
+      expect(resumed.rolledBack).toHaveLength(3);
+      expect(resumed.rollbackFailures).toEqual([]);
+      expect(provider.size).toBe(0);
       consoleSpy.mockRestore();
     });
+
+    it('should throw again from resumeRollback while uploads remain', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider);
+      const stored = await provider.upload(Buffer.from('x'));
+      provider.injectFailure({ operation: 'delete', code: MediaErrorCode.NETWORK_ERROR });
+
+      await expect(
+        uploader.resumeRollback({
+          stage: 'commit',
+          error: new Error('commit fail'),
+          rolledBack: [],
+          skipped: [],
+          rollbackFailures: [{ result: stored, error: new Error('earlier failure') }],
+        })
+      ).rejects.toMatchObject({
+        name: 'TransactionError',
+        transactionContext: { rollbackFailures: [{ result: stored }] },
+      });
+    });
+
+    it('should call onRollback per upload instead of deleting', async () => {
+      const provider = new InMemoryProvider();
+      const onRollback = vi.fn(async () => {});
+      const uploader = new MediaUploader(provider);
+
+      await expect(
+        uploader.uploadBatchWithTransaction(files(), undefined, {
+          onCommit: async () => {
+            throw new Error('commit fail');
+          },
+          onRollback,
+        })
+      ).rejects.toBeInstanceOf(TransactionError);
+
+      expect(onRollback).toHaveBeenCalledTimes(3);
+      expect(onRollback).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'memory' }),
+        expect.objectContaining({ message: 'commit fail' })
+      );
+      expect(provider.size).toBe(3);
+    });
+
+    it('should release deduplicated uploads through delete and leave them in place', async () => {
+      const provider = new InMemoryProvider();
+      const existing = await provider.upload(Buffer.from('shared'));
+      const beforeDelete = vi.fn(async (id: string) =>
+        id === existing.id ? { id, skip: true } : undefined
+      );
+      const uploader = new MediaUploader(provider, [
+        {
+          name: 'dedupe',
+          hooks: {
+            beforeUpload: async (file, options) =>
+              file.toString() === 'shared'
+                ? { file, options, result: { ...existing, metadata: { deduplicated: true } } }
+                : undefined,
+            beforeDelete,
+          },
+        },
+      ]);
+
+      const error = (await uploader
+        .uploadBatchWithTransaction([Buffer.from('shared'), Buffer.from('new')], undefined, {
+          onCommit: async () => {
+            throw new Error('commit fail');
+          },
+        })
+        .catch((e: unknown) => e)) as TransactionError;
+
+      expect(error.transactionContext.skipped.map((r) => r.id)).toEqual([existing.id]);
+      expect(error.transactionContext.rolledBack).toHaveLength(1);
+      expect(beforeDelete).toHaveBeenCalledWith(existing.id);
+      expect(provider.has(existing.id)).toBe(true);
+      expect(provider.size).toBe(1);
+    });
   });
 
   describe('fallback provider', () => {
@@ -417,12 +1140,14 @@ describe('MediaUploader', () => {
       await expect(uploader.upload(Buffer.from('test'), {})).rejects.toThrow('fallback also down');
     });
 
-    it('should failover on heuristic network errors (non-MediaError)', async () => {
+    it('should failover on transient system errors (non-MediaError)', async () => {
       const primaryProvider = new MockProvider();
       const fallbackProvider = new MockProvider();
       Object.defineProperty(fallbackProvider, 'name', { value: 'fallback' });
 
-      primaryProvider.upload.mockRejectedValue(new Error('ECONNREFUSED'));
+      primaryProvider.upload.mockRejectedValue(
+        Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), { code: 'ECONNREFUSED' })
+      );
       fallbackProvider.upload.mockResolvedValue({ ...mockResult, provider: 'fallback' });
 
       const uploader = new MediaUploader(primaryProvider, [], { fallbackProvider });
@@ -430,6 +1155,384 @@ describe('MediaUploader', () => {
       const result = await uploader.upload(Buffer.from('test'), {});
       expect(result.provider).toBe('fallback');
     });
+
+    it('should failover on errors flagged retryable by the provider', async () => {
+      const primaryProvider = new MockProvider();
+      const fallbackProvider = new MockProvider();
+      Object.defineProperty(fallbackProvider, 'name', { value: 'fallback' });
+
+      primaryProvider.upload.mockRejectedValue(
+        new MediaError(
+          'internal error',
+          MediaErrorCode.UPLOAD_FAILED,
+          'mock',
+          undefined,
+          undefined,
+          {
+            retryable: true,
+            httpStatus: 500,
+          }
+        )
+      );
+      fallbackProvider.upload.mockResolvedValue({ ...mockResult, provider: 'fallback' });
+
+      const uploader = new MediaUploader(primaryProvider, [], { fallbackProvider });
+
+      const result = await uploader.upload(Buffer.from('test'), {});
+      expect(result.provider).toBe('fallback');
+    });
+
+    it('should not failover on plain errors without a transient code', async () => {
+      const primaryProvider = new MockProvider();
+      const fallbackProvider = new MockProvider();
+
+      primaryProvider.upload.mockRejectedValue(new Error('network timeout'));
+
+      const uploader = new MediaUploader(primaryProvider, [], { fallbackProvider });
+
+      await expect(uploader.upload(Buffer.from('test'), {})).rejects.toThrow('network timeout');
+      expect(fallbackProvider.upload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fallback chain and circuit breaker', () => {
+    const named = (name: string): MockProvider => {
+      const provider = new MockProvider();
+      Object.defineProperty(provider, 'name', { value: name });
+      return provider;
+    };
+    const outage = (provider: string): MediaError =>
+      new MediaError('service down', MediaErrorCode.PROVIDER_ERROR, provider);
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should try fallback providers in order', async () => {
+      const primary = named('primary');
+      const second = named('second');
+      const third = named('third');
+      primary.upload.mockRejectedValue(outage('primary'));
+      second.upload.mockRejectedValue(outage('second'));
+      third.upload.mockResolvedValue({ ...mockResult, provider: 'third' });
+      const onFallback = vi.fn();
+
+      const uploader = new MediaUploader(primary, [], {
+        fallbackProvider: second,
+        fallbackProviders: [third],
+        onFallback,
+      });
+
+      const result = await uploader.upload(Buffer.from('test'));
+
+      expect(result.provider).toBe('third');
+      expect(onFallback.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+        ['primary', 'second'],
+        ['second', 'third'],
+      ]);
+    });
+
+    it('should report the last provider error when the whole chain fails', async () => {
+      const primary = named('primary');
+      const backup = named('backup');
+      primary.upload.mockRejectedValue(outage('primary'));
+      backup.upload.mockRejectedValue(
+        new MediaError('backup down', MediaErrorCode.NETWORK_ERROR, 'backup')
+      );
+
+      const uploader = new MediaUploader(primary, [], { fallbackProviders: [backup] });
+
+      await expect(uploader.upload(Buffer.from('test'))).rejects.toThrow('backup down');
+    });
+
+    it('should skip a provider with an open circuit without calling it', async () => {
+      const primary = named('primary');
+      const backup = named('backup');
+      primary.upload.mockRejectedValue(outage('primary'));
+      backup.upload.mockResolvedValue({ ...mockResult, provider: 'backup' });
+      const onCircuitStateChange = vi.fn();
+
+      const uploader = new MediaUploader(primary, [], {
+        fallbackProviders: [backup],
+        circuitBreaker: { failureThreshold: 2 },
+        onCircuitStateChange,
+      });
+
+      await uploader.upload(Buffer.from('a'));
+      await uploader.upload(Buffer.from('b'));
+      expect(uploader.getCircuitState(primary)).toBe('open');
+      expect(onCircuitStateChange).toHaveBeenCalledWith({
+        provider: 'primary',
+        from: 'closed',
+        to: 'open',
+      });
+
+      const result = await uploader.upload(Buffer.from('c'));
+
+      expect(result.provider).toBe('backup');
+      expect(primary.upload).toHaveBeenCalledTimes(2);
+      expect(uploader.getCircuitState('backup')).toBe('closed');
+    });
+
+    it('should probe the primary again once the open duration has passed', async () => {
+      vi.useFakeTimers();
+      const primary = named('primary');
+      const backup = named('backup');
+      primary.upload.mockRejectedValueOnce(outage('primary'));
+      primary.upload.mockResolvedValue(mockResult);
+      backup.upload.mockResolvedValue({ ...mockResult, provider: 'backup' });
+
+      const uploader = new MediaUploader(primary, [], {
+        fallbackProviders: [backup],
+        circuitBreaker: { failureThreshold: 1, openDurationMs: 5000 },
+      });
+
+      await uploader.upload(Buffer.from('a'));
+      expect(uploader.getCircuitState(primary)).toBe('open');
+
+      vi.advanceTimersByTime(5000);
+      const result = await uploader.upload(Buffer.from('b'));
+
+      expect(result.provider).toBe('mock');
+      expect(uploader.getCircuitState(primary)).toBe('closed');
+    });
+
+    it('should fail with PROVIDER_ERROR when every circuit is open', async () => {
+      const primary = named('primary');
+      primary.upload.mockRejectedValue(outage('primary'));
+
+      const uploader = new MediaUploader(primary, [], {
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await expect(uploader.upload(Buffer.from('a'))).rejects.toThrow('service down');
+      const error = await uploader.upload(Buffer.from('b')).catch((e: unknown) => e);
+
+      expect(error).toMatchObject({
+        code: MediaErrorCode.PROVIDER_ERROR,
+        message: 'Circuit open for primary',
+      });
+      expect(primary.upload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not count errors that do not qualify for fallback', async () => {
+      const primary = named('primary');
+      primary.upload.mockRejectedValue(
+        new MediaError('bad file', MediaErrorCode.INVALID_FILE_TYPE, 'primary')
+      );
+
+      const uploader = new MediaUploader(primary, [], {
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await expect(uploader.upload(Buffer.from('a'))).rejects.toThrow('bad file');
+      expect(uploader.getCircuitState(primary)).toBe('closed');
+    });
+
+    it('should not report a circuit state without a circuit breaker', () => {
+      const uploader = new MediaUploader(new MockProvider());
+
+      expect(uploader.getCircuitState('mock')).toBeUndefined();
+    });
+  });
+
+  describe('events', () => {
+    it('should emit start and complete with the same operation id', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+      const uploader = new MediaUploader(mockProvider);
+      const start = vi.fn();
+      const complete = vi.fn();
+      uploader.on('upload:start', start);
+      uploader.on('upload:complete', complete);
+
+      await uploader.upload(Buffer.from('test'), { filename: 'photo.jpg', folder: 'gallery' });
+
+      expect(start).toHaveBeenCalledWith(
+        expect.objectContaining({ fileName: 'photo.jpg', fileSize: 4, folder: 'gallery' })
+      );
+      const { operationId } = start.mock.calls[0]![0];
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationId,
+          fileId: 'test-id',
+          provider: 'mock',
+          totalUploads: 1,
+          totalSize: 1024,
+          result: mockResult,
+        })
+      );
+    });
+
+    it('should share the operation id with the plugin context', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+      let contextId: string | undefined;
+      const uploader = new MediaUploader(mockProvider, [
+        {
+          name: 'spy',
+          hooks: {
+            beforeUpload: async (_file, _options, context) => {
+              contextId = context.operationId;
+            },
+          },
+        },
+      ]);
+      const start = vi.fn();
+      uploader.on('upload:start', start);
+
+      await uploader.upload(Buffer.from('test'));
+
+      expect(start.mock.calls[0]![0].operationId).toBe(contextId);
+    });
+
+    it('should emit upload:error with the phase', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockRejectedValue(new Error('upload boom'));
+      const uploader = new MediaUploader(mockProvider);
+      const onError = vi.fn();
+      uploader.on('upload:error', onError);
+
+      await expect(uploader.upload(Buffer.from('test'))).rejects.toThrow('upload boom');
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'upload',
+          phase: 'upload',
+          error: { message: 'upload boom', name: 'Error' },
+          totalErrors: 1,
+        })
+      );
+    });
+
+    it('should emit progress only when someone listens', async () => {
+      const provider = new InMemoryProvider();
+      const uploader = new MediaUploader(provider);
+      const uploadSpy = vi.spyOn(provider, 'upload');
+      const onProgress = vi.fn();
+
+      await uploader.upload(Buffer.from('test'), { onProgress });
+      expect(uploadSpy.mock.calls[0]![1]!.onProgress).toBe(onProgress);
+
+      const progress = vi.fn();
+      uploader.on('upload:progress', progress);
+      await uploader.upload(Buffer.from('test'), { onProgress });
+
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({ percent: 100 }));
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({ loaded: 4, total: 4 }));
+      expect(onProgress).toHaveBeenCalledTimes(2);
+    });
+
+    it('should emit fallback and delete events', async () => {
+      const primaryProvider = new MockProvider();
+      const fallbackProvider = new MockProvider();
+      Object.defineProperty(fallbackProvider, 'name', { value: 'fallback' });
+      primaryProvider.upload.mockRejectedValue(
+        new MediaError('down', MediaErrorCode.NETWORK_ERROR, 'mock')
+      );
+      fallbackProvider.upload.mockResolvedValue({ ...mockResult, provider: 'fallback' });
+      primaryProvider.delete.mockResolvedValue();
+      const uploader = new MediaUploader(primaryProvider, [], { fallbackProvider });
+      const fallback = vi.fn();
+      const deleted = vi.fn();
+      uploader.on('fallback', fallback);
+      uploader.on('delete', deleted);
+
+      await uploader.upload(Buffer.from('test'));
+      await uploader.delete('test-id');
+
+      expect(fallback).toHaveBeenCalledWith(
+        expect.objectContaining({ fromProvider: 'mock', toProvider: 'fallback' })
+      );
+      expect(deleted).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fileId: 'test-id',
+          provider: 'mock',
+          operationId: expect.any(String),
+        })
+      );
+    });
+
+    it('should stop calling a listener after it is removed', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+      const uploader = new MediaUploader(mockProvider);
+      const listener = vi.fn();
+      const off = uploader.on('upload:start', listener);
+
+      off();
+      await uploader.upload(Buffer.from('test'));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject with ABORTED without calling the provider when already aborted', async () => {
+      const mockProvider = new MockProvider();
+      const uploader = new MediaUploader(mockProvider);
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await uploader
+        .upload(Buffer.from('test'), { signal: controller.signal })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MediaError);
+      expect((error as MediaError).code).toBe(MediaErrorCode.ABORTED);
+      expect(mockProvider.upload).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back when the upload was aborted', async () => {
+      const primaryProvider = new MockProvider();
+      const fallbackProvider = new MockProvider();
+      Object.defineProperty(fallbackProvider, 'name', { value: 'fallback' });
+      const controller = new AbortController();
+      primaryProvider.upload.mockImplementation(async () => {
+        controller.abort();
+        throw new MediaError('socket closed', MediaErrorCode.NETWORK_ERROR, 'mock');
+      });
+      const onError = vi.fn();
+
+      const uploader = new MediaUploader(
+        primaryProvider,
+        [{ name: 'errors', hooks: { onError } }],
+        { fallbackProvider }
+      );
+
+      const error = await uploader
+        .upload(Buffer.from('test'), { signal: controller.signal })
+        .catch((e: unknown) => e);
+
+      expect((error as MediaError).code).toBe(MediaErrorCode.ABORTED);
+      expect((error as MediaError).originalError).toBeInstanceOf(MediaError);
+      expect(fallbackProvider.upload).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ phase: 'upload' }),
+        expect.anything()
+      );
+    });
+
+    it('should delete a file that finished uploading after the abort and skip afterUpload', async () => {
+      const provider = new InMemoryProvider();
+      const controller = new AbortController();
+      const upload = provider.upload.bind(provider);
+      vi.spyOn(provider, 'upload').mockImplementation(async (file, options) => {
+        const result = await upload(file, { ...options, signal: undefined });
+        controller.abort();
+        return result;
+      });
+      const afterUpload = vi.fn();
+
+      const uploader = new MediaUploader(provider, [{ name: 'after', hooks: { afterUpload } }]);
+
+      await expect(
+        uploader.upload(Buffer.from('test'), { signal: controller.signal })
+      ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+      expect(afterUpload).not.toHaveBeenCalled();
+      expect(provider.size).toBe(0);
+    });
   });
 
   describe('onError phase context', () => {
@@ -449,7 +1552,8 @@ describe('MediaUploader', () => {
 
       expect(errorHandler).toHaveBeenCalledWith(
         expect.objectContaining({ message: 'upload boom' }),
-        expect.objectContaining({ phase: 'upload' })
+        expect.objectContaining({ phase: 'upload' }),
+        expect.anything()
       );
       // uploadResult should NOT be present for 'upload' phase
       expect(errorHandler.mock.calls[0][1].uploadResult).toBeUndefined();
@@ -485,11 +1589,117 @@ describe('MediaUploader', () => {
         expect.objectContaining({
           phase: 'afterUpload',
           uploadResult: mockResult,
-        })
+        }),
+        expect.anything()
       );
     });
   });
 
+  describe('plugin context', () => {
+    it('should share state between hooks without passing it to the provider', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+
+      const seen: unknown[] = [];
+      const plugin: FluxMediaPlugin = {
+        name: 'stateful',
+        hooks: {
+          beforeUpload: async (file, options, context) => {
+            context.state.token = 'private';
+            return { file, options: { ...options, metadata: { owner: 'alice' } } };
+          },
+          afterUpload: async (result, context) => {
+            seen.push(context.state.token, context.operationId);
+            return result;
+          },
+        },
+      };
+
+      const uploader = new MediaUploader(mockProvider, [plugin]);
+      await uploader.upload(Buffer.from('test'));
+
+      expect(seen).toEqual(['private', expect.any(String)]);
+      expect(mockProvider.upload).toHaveBeenCalledWith(expect.anything(), {
+        metadata: { owner: 'alice' },
+      });
+      expect(mockProvider.upload.mock.calls[0]).toHaveLength(2);
+    });
+
+    it('should skip the provider when a beforeUpload hook returns a result', async () => {
+      const mockProvider = new MockProvider();
+      const afterUpload = vi.fn(async (result: UploadResult) => result);
+      const onComplete = vi.fn();
+      const uploader = new MediaUploader(mockProvider, [
+        {
+          name: 'cache',
+          hooks: {
+            beforeUpload: async (file, options) => ({ file, options, result: mockResult }),
+            afterUpload,
+          },
+        },
+      ]);
+      uploader.on('upload:complete', onComplete);
+
+      const result = await uploader.upload(Buffer.from('test'));
+
+      expect(result).toBe(mockResult);
+      expect(mockProvider.upload).not.toHaveBeenCalled();
+      expect(afterUpload).not.toHaveBeenCalled();
+      expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ fileId: mockResult.id }));
+    });
+
+    it('should pass the same context to onError', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockRejectedValue(new Error('upload boom'));
+
+      let stored: unknown;
+      const plugin: FluxMediaPlugin = {
+        name: 'stateful',
+        hooks: {
+          beforeUpload: async (_file, _options, context) => {
+            context.state.attempt = 1;
+          },
+          onError: async (_error, _info, context) => {
+            stored = context.state.attempt;
+          },
+        },
+      };
+
+      const uploader = new MediaUploader(mockProvider, [plugin]);
+
+      await expect(uploader.upload(Buffer.from('test'))).rejects.toThrow('upload boom');
+      expect(stored).toBe(1);
+    });
+
+    it('should give each upload a fresh context', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+
+      const ids: string[] = [];
+      const plugin: FluxMediaPlugin = {
+        name: 'counter',
+        hooks: {
+          beforeUpload: async (_file, _options, context) => {
+            context.state.count = ((context.state.count as number | undefined) ?? 0) + 1;
+            ids.push(context.operationId);
+          },
+          afterUpload: async (result, context) => ({
+            ...result,
+            metadata: { count: context.state.count },
+          }),
+        },
+      };
+
+      const uploader = new MediaUploader(mockProvider, [plugin]);
+      const first = await uploader.upload(Buffer.from('a'));
+      const second = await uploader.upload(Buffer.from('b'));
+
+      expect(first.metadata.count).toBe(1);
+      expect(second.metadata.count).toBe(1);
+      expect(ids[0]).not.toBe(ids[1]);
+    });
+  });
+
   describe('plugins in constructor', () => {
     it('should register plugins passed to constructor', async () => {
       const mockProvider = new MockProvider();
@@ -508,5 +1718,32 @@ describe('MediaUploader', () => {
 
       expect(hook).toHaveBeenCalled();
     });
+
+    it('should accept plugins in any order and run them by their constraints', async () => {
+      const mockProvider = new MockProvider();
+      mockProvider.upload.mockResolvedValue(mockResult);
+      const order: string[] = [];
+      const track = (name: string): FluxMediaPlugin['hooks'] => ({
+        beforeUpload: async (file, options) => {
+          order.push(name);
+          return { file, options };
+        },
+      });
+
+      const uploader = new MediaUploader(mockProvider, [
+        { name: 'dedupe', hooks: track('dedupe'), requires: ['hash'] },
+        { name: 'hash', hooks: track('hash') },
+      ]);
+      await uploader.upload(Buffer.from('test'), {});
+
+      expect(order).toEqual(['hash', 'dedupe']);
+    });
+
+    it('should throw from the constructor when a required plugin is missing', () => {
+      expect(
+        () =>
+          new MediaUploader(new MockProvider(), [{ name: 'dedupe', hooks: {}, requires: ['hash'] }])
+      ).toThrow("Plugin 'dedupe' requires 'hash', which is not registered");
+    });
   });
 });
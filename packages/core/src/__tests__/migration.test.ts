@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryProvider, createMockProvider } from '../testing';
+import { migrateMedia, type MigrationManifest, type MigrationProgress } from '../migration';
+import { MediaErrorCode } from '../errors';
+
+describe('migrateMedia', () => {
+  let source: InMemoryProvider;
+  let target: InMemoryProvider;
+
+  beforeEach(async () => {
+    source = new InMemoryProvider({ name: 'source' });
+    target = new InMemoryProvider({ name: 'target' });
+
+    await source.upload(Buffer.from('one'), {
+      folder: 'docs',
+      filename: 'one',
+      uniqueFilename: false,
+      metadata: { owner: 'alice' },
+    });
+    await source.upload(Buffer.from('two'), {
+      folder: 'docs/2024',
+      filename: 'two',
+      uniqueFilename: false,
+    });
+    await source.upload(Buffer.from('three'), { filename: 'three', uniqueFilename: false });
+  });
+
+  it('should copy every asset with its folder, filename and metadata', async () => {
+    const report = await migrateMedia({ source, target });
+
+    expect(report).toMatchObject({ migrated: 3, skipped: 0, failed: [], bytesMigrated: 11 });
+    expect(target.getData('docs/one')?.toString()).toBe('one');
+    expect(target.getData('docs/2024/two')?.toString()).toBe('two');
+    expect(target.getData('three')?.toString()).toBe('three');
+    expect((await target.get('docs/one')).metadata).toMatchObject({ owner: 'alice' });
+    expect(report.manifest.entries['docs/one']).toMatchObject({
+      status: 'migrated',
+      targetId: 'docs/one',
+      size: 3,
+    });
+  });
+
+  it('should only migrate ids under the prefix', async () => {
+    const report = await migrateMedia({ source, target, prefix: 'docs/' });
+
+    expect(report.migrated).toBe(2);
+    expect(target.has('three')).toBe(false);
+  });
+
+  it('should not upload anything in dry-run mode', async () => {
+    const onProgress = vi.fn();
+    const report = await migrateMedia({ source, target, dryRun: true, onProgress });
+
+    expect(report.planned).toHaveLength(3);
+    expect(report.migrated).toBe(0);
+    expect(target.size).toBe(0);
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'planned', processed: 3 })
+    );
+  });
+
+  it('should record failures and retry them on the next run', async () => {
+    target.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+    let saved: MigrationManifest | undefined;
+    const store = {
+      load: async () => saved && (JSON.parse(JSON.stringify(saved)) as MigrationManifest),
+      save: async (manifest: MigrationManifest) => {
+        saved = JSON.parse(JSON.stringify(manifest)) as MigrationManifest;
+      },
+    };
+
+    const first = await migrateMedia({ source, target, manifest: store, concurrency: 1 });
+    expect(first.migrated).toBe(2);
+    expect(first.failed).toEqual([{ id: 'docs/2024/two', error: 'Injected upload failure' }]);
+    expect(saved?.entries['docs/2024/two']?.status).toBe('failed');
+
+    const uploadSpy = vi.spyOn(target, 'upload');
+    const second = await migrateMedia({ source, target, manifest: store });
+
+    expect(second).toMatchObject({ migrated: 1, skipped: 2, failed: [] });
+    expect(uploadSpy).toHaveBeenCalledTimes(1);
+    expect(target.getData('docs/2024/two')?.toString()).toBe('two');
+  });
+
+  it('should report a failed download without stopping', async () => {
+    source.injectFailure({ operation: 'download', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+
+    const report = await migrateMedia({ source, target, concurrency: 1 });
+
+    expect(report.failed).toEqual([{ id: 'docs/2024/two', error: 'Injected download failure' }]);
+    expect(report.migrated).toBe(2);
+  });
+
+  it('should fetch the file URL when the source cannot download', async () => {
+    Object.defineProperty(source, 'download', { value: undefined });
+    const fetchMock = vi.fn(async (url: string) => {
+      const data = source.getData(url.replace('https://memory.fluxmedia.test/', ''));
+      return data
+        ? new Response(new Uint8Array(data), { headers: { 'content-type': 'text/plain' } })
+        : new Response(null, { status: 404 });
+    });
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const report = await migrateMedia({ source, target, concurrency: 1 });
+
+      expect(fetchMock).toHaveBeenCalledWith(source.getUrl('three'));
+      expect(report.failed).toHaveLength(1);
+      expect(report.failed[0]!.error).toMatch(/HTTP 404/);
+      expect(target.getData('three')?.toString()).toBe('three');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should limit the number of assets copied at the same time', async () => {
+    let active = 0;
+    let peak = 0;
+    const upload = target.upload.bind(target);
+    vi.spyOn(target, 'upload').mockImplementation(async (file, options) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return upload(file, options);
+    });
+
+    await migrateMedia({ source, target, concurrency: 2 });
+
+    expect(peak).toBe(2);
+  });
+
+  it('should report progress after each asset', async () => {
+    const progress: MigrationProgress[] = [];
+    await migrateMedia({ source, target, onProgress: (p) => progress.push(p) });
+
+    expect(progress.map((p) => p.processed)).toEqual([1, 2, 3]);
+    expect(progress[2]).toMatchObject({ migrated: 3, failed: 0, bytesMigrated: 11 });
+  });
+
+  it('should let mapOptions rewrite the destination', async () => {
+    await migrateMedia({
+      source,
+      target,
+      prefix: 'three',
+      mapOptions: (_asset, options) => ({ ...options, folder: 'imported' }),
+    });
+
+    expect(target.has('imported/three')).toBe(true);
+  });
+
+  it('should persist the manifest to a JSON file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fluxmedia-migration-'));
+    const path = join(dir, 'manifest.json');
+
+    try {
+      await migrateMedia({ source, target, manifest: path });
+      const manifest = JSON.parse(await readFile(path, 'utf8')) as MigrationManifest;
+      expect(manifest).toMatchObject({ version: 1, source: 'source', target: 'target' });
+      expect(Object.keys(manifest.entries)).toHaveLength(3);
+
+      const resumed = await migrateMedia({ source, target, manifest: path });
+      expect(resumed.skipped).toBe(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject a manifest written for different providers', async () => {
+    const store = {
+      load: async (): Promise<MigrationManifest> => ({
+        version: 1,
+        source: 'source',
+        target: 'other-target',
+        entries: { 'docs/one': { status: 'migrated', updatedAt: new Date().toISOString() } },
+      }),
+      save: vi.fn(),
+    };
+
+    await expect(migrateMedia({ source, target, manifest: store })).rejects.toMatchObject({
+      code: MediaErrorCode.INVALID_CONFIG,
+    });
+    expect(target.size).toBe(0);
+    expect(store.save).not.toHaveBeenCalled();
+  });
+
+  it('should keep writing the manifest after a failed write', async () => {
+    const save = vi
+      .fn<(manifest: MigrationManifest) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockResolvedValue(undefined);
+
+    await expect(
+      migrateMedia({ source, target, manifest: { load: async () => undefined, save } })
+    ).rejects.toThrow('disk full');
+
+    // Assets still in flight chain their writes after the failed one
+    await vi.waitFor(() => expect(save).toHaveBeenCalledTimes(3));
+    expect(await save.mock.results[2]!.value).toBeUndefined();
+  });
+
+  it('should require a source that supports listing', async () => {
+    await expect(migrateMedia({ source: createMockProvider(), target })).rejects.toThrow(
+      'List is not supported by mock provider'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Readable } from 'node:stream';
+import { InMemoryProvider, createProviderContractTests } from '../testing';
+import { MirroredProvider, type MirrorReplicaResult } from '../mirrored-provider';
+import { MediaErrorCode, PartialMirrorError } from '../errors';
+
+createProviderContractTests(
+  'MirroredProvider',
+  () =>
+    new MirroredProvider({
+      primary: new InMemoryProvider({ name: 'primary' }),
+      replicas: [new InMemoryProvider({ name: 'replica' })],
+    })
+);
+
+describe('MirroredProvider', () => {
+  let primary: InMemoryProvider;
+  let replica: InMemoryProvider;
+  let mirror: MirroredProvider;
+
+  beforeEach(() => {
+    primary = new InMemoryProvider({ name: 'primary' });
+    replica = new InMemoryProvider({ name: 'replica' });
+    mirror = new MirroredProvider({ primary, replicas: [replica] });
+  });
+
+  it('should write every upload to all providers under the same id', async () => {
+    const result = await mirror.upload(Buffer.from('data'), { folder: 'docs', filename: 'a' });
+
+    expect(result.id).toMatch(/^docs\/a-/);
+    expect(result.provider).toBe('primary');
+    expect(primary.getData(result.id)?.toString()).toBe('data');
+    expect(replica.getData(result.id)?.toString()).toBe('data');
+    expect(result.metadata.replicas).toEqual([
+      { provider: 'primary', success: true, id: result.id, url: primary.getUrl(result.id) },
+      { provider: 'replica', success: true, id: result.id, url: replica.getUrl(result.id) },
+    ]);
+  });
+
+  it('should buffer streams so every provider gets the full content', async () => {
+    const result = await mirror.upload(Readable.from([Buffer.from('str'), Buffer.from('eam')]));
+
+    expect(primary.getData(result.id)?.toString()).toBe('stream');
+    expect(replica.getData(result.id)?.toString()).toBe('stream');
+  });
+
+  it('should only report progress from the primary', async () => {
+    const onProgress = vi.fn();
+    const replicaUpload = vi.spyOn(replica, 'upload');
+
+    await mirror.upload(Buffer.from('data'), { onProgress });
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(replicaUpload.mock.calls[0]![1]).not.toHaveProperty('onProgress');
+  });
+
+  it('should report replica failures without failing under the primary policy', async () => {
+    replica.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR });
+
+    const result = await mirror.upload(Buffer.from('data'));
+
+    const replicas = result.metadata.replicas as MirrorReplicaResult[];
+    expect(replicas[1]).toEqual({
+      provider: 'replica',
+      success: false,
+      error: 'Injected upload failure',
+    });
+    expect(primary.has(result.id)).toBe(true);
+  });
+
+  it('should fail and clean up when the primary fails', async () => {
+    primary.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR });
+
+    const error = await mirror.upload(Buffer.from('data')).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PartialMirrorError);
+    expect((error as PartialMirrorError).code).toBe(MediaErrorCode.UPLOAD_FAILED);
+    expect((error as PartialMirrorError).mirrorContext).toMatchObject({
+      operation: 'upload',
+      succeeded: ['replica'],
+      failed: [{ provider: 'primary' }],
+    });
+    expect(replica.size).toBe(0);
+  });
+
+  it('should reject with ABORTED and clean up when the upload is aborted', async () => {
+    const controller = new AbortController();
+    const upload = replica.upload.bind(replica);
+    vi.spyOn(replica, 'upload').mockImplementation(async (file, options) => {
+      controller.abort();
+      return upload(file, { ...options, signal: undefined });
+    });
+
+    await expect(
+      mirror.upload(Buffer.from('data'), { signal: controller.signal })
+    ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+    expect(primary.size).toBe(0);
+    expect(replica.size).toBe(0);
+  });
+
+  it('should accept a primary failure when the quorum is met', async () => {
+    const third = new InMemoryProvider({ name: 'third' });
+    const quorumMirror = new MirroredProvider({
+      primary,
+      replicas: [replica, third],
+      policy: 'quorum',
+    });
+    primary.injectFailure({ operation: 'upload', code: MediaErrorCode.PROVIDER_ERROR });
+
+    const result = await quorumMirror.upload(Buffer.from('data'));
+
+    expect(result.provider).toBe('replica');
+    expect(third.has(result.id)).toBe(true);
+  });
+
+  it('should serve URLs from the replica when the primary missed a quorum upload', async () => {
+    const backup = new InMemoryProvider({ name: 'backup', baseUrl: 'https://backup.test' });
+    const third = new InMemoryProvider({ name: 'third' });
+    const quorumMirror = new MirroredProvider({
+      primary,
+      replicas: [backup, third],
+      policy: 'quorum',
+    });
+    primary.injectFailure({ operation: 'upload', code: MediaErrorCode.PROVIDER_ERROR, times: 1 });
+
+    const missed = await quorumMirror.upload(Buffer.from('data'));
+    const stored = await quorumMirror.upload(Buffer.from('data'));
+
+    expect(quorumMirror.getUrl(missed.id)).toBe(backup.getUrl(missed.id));
+    expect(quorumMirror.getUrl(missed.id)).toBe(missed.url);
+    expect(quorumMirror.getUrl(stored.id)).toBe(primary.getUrl(stored.id));
+
+    await quorumMirror.delete(missed.id).catch(() => undefined);
+    expect(quorumMirror.getUrl(missed.id)).toBe(primary.getUrl(missed.id));
+  });
+
+  it('should fail when the quorum is not met', async () => {
+    const quorumMirror = new MirroredProvider({
+      primary,
+      replicas: [replica],
+      policy: 'quorum',
+      quorum: 2,
+    });
+    replica.injectFailure({ operation: 'upload', code: MediaErrorCode.PROVIDER_ERROR });
+
+    await expect(quorumMirror.upload(Buffer.from('data'))).rejects.toThrow(
+      'Mirrored upload succeeded on 1 of 2 providers; 2 required'
+    );
+    expect(primary.size).toBe(0);
+  });
+
+  it('should fan out deletes and report partial failures', async () => {
+    const result = await mirror.upload(Buffer.from('data'));
+    replica.injectFailure({ operation: 'delete', code: MediaErrorCode.NETWORK_ERROR });
+
+    const error = await mirror.delete(result.id).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PartialMirrorError);
+    expect((error as PartialMirrorError).code).toBe(MediaErrorCode.DELETE_FAILED);
+    expect((error as PartialMirrorError).mirrorContext).toMatchObject({
+      operation: 'delete',
+      ids: [result.id],
+      succeeded: ['primary'],
+      failed: [{ provider: 'replica' }],
+    });
+    expect(primary.has(result.id)).toBe(false);
+  });
+
+  it('should read from a replica when the primary is unavailable', async () => {
+    const result = await mirror.upload(Buffer.from('data'));
+    primary.injectFailure({ operation: 'get', code: MediaErrorCode.NETWORK_ERROR });
+
+    expect((await mirror.get(result.id)).provider).toBe('replica');
+  });
+
+  it('should use the smallest maxFileSize of all providers', () => {
+    const small = new InMemoryProvider({
+      name: 'small',
+      features: { storage: { maxFileSize: 100, supportedFormats: ['*'] } },
+    });
+
+    expect(
+      new MirroredProvider({ primary, replicas: [small] }).features.storage.maxFileSize
+    ).toBe(100);
+  });
+});
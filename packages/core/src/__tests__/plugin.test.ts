@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { PluginManager, createPlugin, type FluxMediaPlugin } from '../plugin';
+import { PluginManager, OperationContext, createPlugin, type FluxMediaPlugin } from '../plugin';
 
 describe('PluginManager', () => {
   let manager: PluginManager;
@@ -147,6 +147,32 @@ describe('PluginManager', () => {
       expect(result.options.tags).toEqual(['second']);
     });
 
+    it('should stop at the first beforeUpload hook that returns a result', async () => {
+      const later = vi.fn();
+      const existing = {
+        id: 'stored',
+        url: 'https://example.com/stored',
+        publicUrl: 'https://example.com/stored',
+        size: 4,
+        format: 'txt',
+        provider: 'mock',
+        metadata: {},
+        createdAt: new Date(),
+      };
+
+      await manager.register(
+        createPlugin('cache', {
+          beforeUpload: async (file, options) => ({ file, options, result: existing }),
+        })
+      );
+      await manager.register(createPlugin('later', { beforeUpload: later }));
+
+      const result = await manager.runBeforeUpload(Buffer.from('test'), {});
+
+      expect(result.result).toBe(existing);
+      expect(later).not.toHaveBeenCalled();
+    });
+
     it('should run afterUpload hooks and modify result', async () => {
       await manager.register(
         createPlugin('enricher', {
@@ -187,7 +213,11 @@ describe('PluginManager', () => {
 
       await manager.runOnError(error, context);
 
-      expect(errorHandler).toHaveBeenCalledWith(error, context);
+      expect(errorHandler).toHaveBeenCalledWith(
+        error,
+        context,
+        expect.objectContaining({ operationId: expect.any(String) })
+      );
     });
 
     it('should run beforeDelete and afterDelete hooks', async () => {
@@ -205,11 +235,177 @@ describe('PluginManager', () => {
         })
       );
 
-      const id = await manager.runBeforeDelete('file-123');
+      const { id } = await manager.runBeforeDelete('file-123');
       await manager.runAfterDelete(id);
 
       expect(hookCalls).toEqual(['before:file-123', 'after:file-123']);
     });
+
+    it('should stop at a beforeDelete hook that skips the delete', async () => {
+      const later = vi.fn();
+      await manager.register(
+        createPlugin('keeper', {
+          beforeDelete: async (id) => ({ id, skip: true }),
+        })
+      );
+      await manager.register({ name: 'later', after: ['keeper'], hooks: { beforeDelete: later } });
+
+      expect(await manager.runBeforeDelete('file-123')).toEqual({ id: 'file-123', skip: true });
+      expect(later).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('operation context', () => {
+    it("should keep each plugin's state across the hooks of one operation", async () => {
+      const seen: unknown[] = [];
+
+      await manager.register(
+        createPlugin('timer', {
+          beforeUpload: async (_file, _options, context) => {
+            context.state.startedAt = 42;
+          },
+          afterUpload: async (result, context) => {
+            seen.push(context.state.startedAt);
+            return result;
+          },
+        })
+      );
+
+      const context = new OperationContext('op-1');
+      await manager.runBeforeUpload(Buffer.from('test'), {}, context);
+      await manager.runAfterUpload(
+        {
+          id: 'test',
+          url: 'https://example.com/test.jpg',
+          publicUrl: 'https://example.com/test.jpg',
+          size: 4,
+          format: 'jpg',
+          provider: 'test',
+          metadata: {},
+          createdAt: new Date(),
+        },
+        context
+      );
+
+      expect(seen).toEqual([42]);
+      expect(context.forPlugin('timer').operationId).toBe('op-1');
+    });
+
+    it('should give every plugin its own namespace', async () => {
+      let otherState: Record<string, unknown> | undefined;
+      let peeked: Readonly<Record<string, unknown>> | undefined;
+
+      await manager.register(
+        createPlugin('writer', {
+          beforeUpload: async (_file, _options, context) => {
+            context.state.value = 'secret';
+          },
+        })
+      );
+      await manager.register(
+        createPlugin('reader', {
+          beforeUpload: async (_file, _options, context) => {
+            otherState = { ...context.state };
+            peeked = context.stateOf('writer');
+          },
+        })
+      );
+
+      const result = await manager.runBeforeUpload(Buffer.from('test'), {});
+
+      expect(otherState).toEqual({});
+      expect(peeked).toEqual({ value: 'secret' });
+      expect(result.options).toEqual({});
+    });
+
+    it('should start every operation with empty state', () => {
+      const first = new OperationContext();
+      first.forPlugin('a').state.value = 1;
+      const second = new OperationContext();
+
+      expect(second.forPlugin('a').state).toEqual({});
+      expect(second.forPlugin('b').stateOf('a')).toBeUndefined();
+      expect(second.operationId).not.toBe(first.operationId);
+    });
+  });
+
+  describe('ordering', () => {
+    const names = () => manager.getAll().map((plugin) => plugin.name);
+
+    it('should run higher priorities first, then registration order', async () => {
+      await manager.registerAll([
+        createPlugin('a', {}),
+        createPlugin('b', {}, { priority: 10 }),
+        createPlugin('c', {}),
+        createPlugin('d', {}, { priority: -5 }),
+      ]);
+
+      expect(names()).toEqual(['b', 'a', 'c', 'd']);
+    });
+
+    it('should honour before and after over priority', async () => {
+      await manager.registerAll([
+        createPlugin('metadata', {}, { after: ['optimization'], priority: 100 }),
+        createPlugin('optimization', {}),
+        createPlugin('validation', {}, { before: ['optimization', 'metadata'] }),
+      ]);
+
+      expect(names()).toEqual(['validation', 'optimization', 'metadata']);
+    });
+
+    it('should ignore before and after for plugins that are not registered', async () => {
+      await manager.register(createPlugin('a', {}, { after: ['missing'], before: ['other'] }));
+
+      expect(names()).toEqual(['a']);
+    });
+
+    it('should run a plugin after the plugins it requires', async () => {
+      await manager.registerAll([
+        createPlugin('dedupe', {}, { requires: ['hash'], priority: 10 }),
+        createPlugin('hash', {}),
+      ]);
+
+      expect(names()).toEqual(['hash', 'dedupe']);
+    });
+
+    it('should throw when a required plugin is missing', async () => {
+      await expect(
+        manager.register(createPlugin('dedupe', {}, { requires: ['hash'] }))
+      ).rejects.toThrow("Plugin 'dedupe' requires 'hash', which is not registered");
+      expect(manager.has('dedupe')).toBe(false);
+    });
+
+    it('should throw on cycles without changing the registered plugins', async () => {
+      await manager.register(createPlugin('a', {}, { before: ['b'] }));
+      const destroy = vi.fn();
+      await manager.register({ name: 'b', hooks: {}, destroy });
+
+      await expect(manager.register(createPlugin('b', {}, { before: ['a'] }))).rejects.toThrow(
+        'Plugin ordering cycle: a -> b -> a'
+      );
+      await expect(
+        manager.registerAll([
+          createPlugin('c', {}, { before: ['a'] }),
+          createPlugin('b', {}, { before: ['c'] }),
+        ])
+      ).rejects.toThrow(
+        /^Plugin ordering cycle: (a -> b -> c -> a|b -> c -> a -> b|c -> a -> b -> c)$/
+      );
+
+      expect(names()).toEqual(['a', 'b']);
+      expect(destroy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to unregister a plugin another plugin requires', async () => {
+      await manager.registerAll([
+        createPlugin('hash', {}),
+        createPlugin('dedupe', {}, { requires: ['hash'] }),
+      ]);
+
+      await expect(manager.unregister('hash')).rejects.toThrow(
+        "Cannot unregister plugin 'hash': required by 'dedupe'"
+      );
+    });
   });
 });
 
@@ -359,7 +555,7 @@ describe('optional plugin behavior', () => {
     });
 
     const result = await manager.runBeforeDelete('file-123');
-    expect(result).toBe('file-123');
+    expect(result).toEqual({ id: 'file-123' });
     expect(warnSpy).toHaveBeenCalled();
 
     warnSpy.mockRestore();
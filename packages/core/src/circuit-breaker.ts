@@ -0,0 +1,149 @@
+/**
+ * State of a circuit breaker.
+ *
+ * - 'closed': requests flow normally and failures are counted.
+ * - 'open': the provider is skipped until the open duration has passed.
+ * - 'half-open': a single probe request decides whether to close or reopen.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit (default: 5).
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the circuit stays open before a probe is allowed, in milliseconds
+   * (default: 30000).
+   */
+  openDurationMs?: number;
+}
+
+/**
+ * Emitted when a provider's circuit changes state.
+ */
+export interface CircuitStateChange {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * Circuit breaker for one provider.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and callers
+ * should route around the provider. Once `openDurationMs` has passed, one
+ * caller gets through as a half-open probe: success closes the circuit,
+ * failure opens it again for another full duration.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker('s3', { failureThreshold: 3 });
+ *
+ * if (breaker.tryAcquire()) {
+ *   try {
+ *     await provider.upload(file);
+ *     breaker.recordSuccess();
+ *   } catch (error) {
+ *     breaker.recordFailure();
+ *   }
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  /**
+   * Name of the provider this breaker guards, used in state-change events.
+   */
+  readonly provider: string;
+
+  private readonly failureThreshold: number;
+  private readonly openDurationMs: number;
+  private readonly onStateChange: ((change: CircuitStateChange) => void) | undefined;
+
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    provider: string,
+    options: CircuitBreakerOptions = {},
+    onStateChange?: (change: CircuitStateChange) => void
+  ) {
+    this.provider = provider;
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.openDurationMs = options.openDurationMs ?? 30_000;
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Current state. An open circuit only turns half-open when the next
+   * request is let through as a probe.
+   */
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Ask to send a request through the circuit.
+   * Returns false while the circuit is open, or while a half-open probe is
+   * already in flight. Every true must be followed by `recordSuccess()`,
+   * `recordFailure()` or `release()`.
+   */
+  tryAcquire(): boolean {
+    if (this.currentState === 'open') {
+      if (Date.now() - this.openedAt < this.openDurationMs) return false;
+      this.transition('half-open');
+    }
+
+    if (this.currentState === 'half-open') {
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Record that the provider handled a request. Closes a half-open circuit.
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probeInFlight = false;
+    if (this.currentState !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Record a provider failure. Opens the circuit at the threshold, or
+   * straight away when the half-open probe failed.
+   */
+  recordFailure(): void {
+    this.probeInFlight = false;
+    if (this.currentState === 'open') return;
+
+    this.failures++;
+    if (this.currentState === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Give up an acquired request without a verdict, e.g. when it was aborted.
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    this.currentState = to;
+    this.onStateChange?.({ provider: this.provider, from, to });
+  }
+}
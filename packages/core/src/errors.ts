@@ -1,3 +1,5 @@
+import type { UploadResult } from './types';
+
 /**
  * Enum defining standardized error codes for media operations.
  * Used across all providers to ensure consistent error handling.
@@ -8,6 +10,8 @@ export enum MediaErrorCode {
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   INVALID_FILE_TYPE = 'INVALID_FILE_TYPE',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH',
 
   // Authentication errors
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
@@ -25,6 +29,50 @@ export enum MediaErrorCode {
   // File errors
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
   DELETE_FAILED = 'DELETE_FAILED',
+
+  // Conditional request errors
+  CONFLICT = 'CONFLICT',
+  PRECONDITION_FAILED = 'PRECONDITION_FAILED',
+
+  // Cancellation
+  ABORTED = 'ABORTED',
+}
+
+/**
+ * Codes that are retryable unless the provider says otherwise.
+ */
+const RETRYABLE_CODES: ReadonlySet<MediaErrorCode> = new Set([
+  MediaErrorCode.NETWORK_ERROR,
+  MediaErrorCode.TIMEOUT,
+  MediaErrorCode.RATE_LIMITED,
+  MediaErrorCode.PROVIDER_ERROR,
+]);
+
+/**
+ * Node.js system error codes of transient network failures.
+ */
+const TRANSIENT_SYSTEM_CODES: ReadonlySet<string> = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Retry hints and response details attached to a MediaError by provider
+ * error mappers.
+ */
+export interface MediaErrorHints {
+  /** Whether trying the same request again may succeed (default: derived from the code) */
+  retryable?: boolean | undefined;
+  /** How long the provider asked callers to wait, from its Retry-After header */
+  retryAfterMs?: number | undefined;
+  /** HTTP status of the failed response */
+  httpStatus?: number | undefined;
+  /** Provider request id, useful in support tickets */
+  requestId?: string | undefined;
 }
 
 /**
@@ -63,12 +111,33 @@ export class MediaError extends Error {
    */
   public readonly details?: Record<string, unknown>;
 
+  /**
+   * Whether trying the same request again may succeed
+   */
+  public readonly retryable: boolean;
+
+  /**
+   * How long to wait before retrying, when the provider said so
+   */
+  public readonly retryAfterMs?: number | undefined;
+
+  /**
+   * HTTP status of the failed provider response
+   */
+  public readonly httpStatus?: number | undefined;
+
+  /**
+   * Provider request id
+   */
+  public readonly requestId?: string | undefined;
+
   constructor(
     message: string,
     code: MediaErrorCode,
     provider: string,
     originalError?: unknown,
-    details?: Record<string, unknown>
+    details?: Record<string, unknown>,
+    hints: MediaErrorHints = {}
   ) {
     super(message);
     this.name = 'MediaError';
@@ -76,6 +145,10 @@ export class MediaError extends Error {
     this.provider = provider;
     this.originalError = originalError;
     this.details = details as Record<string, unknown>;
+    this.retryable = hints.retryable ?? RETRYABLE_CODES.has(code);
+    this.retryAfterMs = hints.retryAfterMs;
+    this.httpStatus = hints.httpStatus;
+    this.requestId = hints.requestId;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
@@ -92,6 +165,7 @@ export class MediaError extends Error {
  * @param provider - Name of the provider
  * @param error - The original error
  * @param additionalDetails - Optional additional context
+ * @param hints - Optional retry hints and response details
  * @returns A new MediaError instance
  *
  * @example
@@ -111,11 +185,51 @@ export function createMediaError(
   code: MediaErrorCode,
   provider: string,
   error: unknown,
-  additionalDetails?: Record<string, unknown>
+  additionalDetails?: Record<string, unknown>,
+  hints?: MediaErrorHints
 ): MediaError {
   const message = error instanceof Error ? error.message : 'An unknown error occurred';
 
-  return new MediaError(message, code, provider, error, additionalDetails);
+  return new MediaError(message, code, provider, error, additionalDetails, hints);
+}
+
+/**
+ * Whether an error is worth retrying or failing over: a MediaError's
+ * `retryable` flag, or a transient Node.js network error for other errors.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof MediaError) {
+    return error.retryable;
+  }
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return (
+      error.name === 'TimeoutError' ||
+      (typeof code === 'string' && TRANSIENT_SYSTEM_CODES.has(code))
+    );
+  }
+  return false;
+}
+
+/**
+ * Parse a Retry-After header value (seconds or an HTTP date) into milliseconds.
+ * Returns undefined when the value is missing or malformed.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
@@ -146,12 +260,192 @@ export class PartialUploadError extends MediaError {
     uploadContext: PartialUploadContext,
     originalError?: unknown
   ) {
-    super(message, MediaErrorCode.UPLOAD_FAILED, provider, originalError, {
-      uploadId: uploadContext.uploadId,
-      key: uploadContext.key,
-      completedParts: uploadContext.completedParts.length,
-    });
+    super(
+      message,
+      MediaErrorCode.UPLOAD_FAILED,
+      provider,
+      originalError,
+      {
+        uploadId: uploadContext.uploadId,
+        key: uploadContext.key,
+        completedParts: uploadContext.completedParts.length,
+      },
+      // Retrying resumes from the completed parts
+      { retryable: true }
+    );
     this.name = 'PartialUploadError';
     this.uploadContext = uploadContext;
   }
 }
+
+/**
+ * Outcome of one provider in a mirrored write or delete.
+ */
+export interface MirrorReplicaFailure {
+  /** Provider name */
+  provider: string;
+  /** Error the provider failed with */
+  error: unknown;
+}
+
+/**
+ * Context captured when a mirrored operation fails on some providers.
+ */
+export interface MirrorFailureContext {
+  /** Operation that partially failed */
+  operation: 'upload' | 'delete';
+  /** File ids involved */
+  ids: string[];
+  /** Providers where the operation succeeded */
+  succeeded: string[];
+  /** Providers where the operation failed, with their errors */
+  failed: MirrorReplicaFailure[];
+}
+
+/**
+ * Thrown by MirroredProvider when an upload misses its write policy or a
+ * delete fails on any provider. Lists which providers succeeded and failed so
+ * the caller can repair the replicas.
+ */
+export class PartialMirrorError extends MediaError {
+  public readonly mirrorContext: MirrorFailureContext;
+
+  constructor(message: string, provider: string, mirrorContext: MirrorFailureContext) {
+    super(
+      message,
+      mirrorContext.operation === 'upload'
+        ? MediaErrorCode.UPLOAD_FAILED
+        : MediaErrorCode.DELETE_FAILED,
+      provider,
+      mirrorContext.failed[0]?.error,
+      {
+        ids: mirrorContext.ids,
+        succeeded: mirrorContext.succeeded,
+        failed: mirrorContext.failed.map((failure) => failure.provider),
+      }
+    );
+    this.name = 'PartialMirrorError';
+    this.mirrorContext = mirrorContext;
+  }
+}
+
+/**
+ * An upload that could not be rolled back.
+ */
+export interface RollbackFailure {
+  /** Upload that is still stored */
+  result: UploadResult;
+  /** Error the rollback failed with */
+  error: unknown;
+}
+
+/**
+ * Context captured when a transaction fails. Pass it to
+ * `MediaUploader.resumeRollback()` to retry the uploads still left behind.
+ */
+export interface TransactionFailureContext {
+  /** Whether an upload or the commit failed */
+  stage: 'upload' | 'commit';
+  /** Error that aborted the transaction */
+  error: unknown;
+  /** Uploads that were rolled back */
+  rolledBack: UploadResult[];
+  /**
+   * Deduplicated uploads whose reference was released; the file stays in
+   * place because an earlier upload owns it
+   */
+  skipped: UploadResult[];
+  /** Uploads that could not be rolled back, with their errors */
+  rollbackFailures: RollbackFailure[];
+}
+
+/**
+ * Thrown by `uploadWithTransaction()` and `uploadBatchWithTransaction()`
+ * after they have rolled back. Lists which uploads were removed and which are
+ * still stored, so a half-done rollback can be resumed.
+ */
+export class TransactionError extends MediaError {
+  public readonly transactionContext: TransactionFailureContext;
+
+  constructor(message: string, provider: string, transactionContext: TransactionFailureContext) {
+    const { error, rollbackFailures } = transactionContext;
+    super(
+      message,
+      rollbackFailures.length > 0
+        ? MediaErrorCode.DELETE_FAILED
+        : error instanceof MediaError
+          ? error.code
+          : MediaErrorCode.UPLOAD_FAILED,
+      provider,
+      error,
+      {
+        stage: transactionContext.stage,
+        rolledBack: transactionContext.rolledBack.map((result) => result.id),
+        pending: rollbackFailures.map((failure) => failure.result.id),
+      }
+    );
+    this.name = 'TransactionError';
+    this.transactionContext = transactionContext;
+  }
+
+  /**
+   * Whether every upload was rolled back
+   */
+  get rollbackComplete(): boolean {
+    return this.transactionContext.rollbackFailures.length === 0;
+  }
+}
+
+/**
+ * A file that could not be deleted in a batch delete.
+ */
+export interface BatchDeleteFailure {
+  /** File identifier */
+  id: string;
+  /** Error the delete failed with */
+  error: MediaError;
+}
+
+/**
+ * Context captured when a batch delete fails for some files.
+ */
+export interface BatchDeleteContext {
+  /** Files that were deleted */
+  deleted: string[];
+  /** Files that are still stored, with their errors */
+  failed: BatchDeleteFailure[];
+}
+
+/**
+ * Thrown by `deleteMultiple()` when some files could not be deleted. Every
+ * batch is still attempted, so passing `failedIds` to `deleteMultiple()`
+ * again retries only what is left.
+ */
+export class BatchDeleteError extends MediaError {
+  public readonly batchContext: BatchDeleteContext;
+
+  constructor(message: string, provider: string, batchContext: BatchDeleteContext) {
+    const { deleted, failed } = batchContext;
+    super(
+      message,
+      MediaErrorCode.DELETE_FAILED,
+      provider,
+      failed[0]?.error,
+      {
+        deleted: deleted.length,
+        failed: failed.map((failure) => failure.id),
+      },
+      // Deletes are idempotent, so a retry helps only if every failure was transient
+      { retryable: failed.length > 0 && failed.every((failure) => failure.error.retryable) }
+    );
+    this.name = 'BatchDeleteError';
+    this.batchContext = batchContext;
+  }
+
+  /**
+   * Ids of the files that could not be deleted
+   */
+  get failedIds(): string[] {
+    return this.batchContext.failed.map((failure) => failure.id);
+  }
+}
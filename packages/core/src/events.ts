@@ -0,0 +1,169 @@
+import type { UploadResult } from './types';
+import type { UploadPhase } from './plugin';
+
+/**
+ * Data payload for an upload that started.
+ * Shared by `MediaUploader` events and the analytics plugin.
+ */
+export interface UploadStartedEventData {
+  fileName: string;
+  /** Size in bytes; undefined for streams */
+  fileSize?: number | undefined;
+  folder?: string | undefined;
+  /** Id of the upload operation */
+  uploadId: string;
+}
+
+/**
+ * Data payload for a completed upload.
+ */
+export interface UploadCompletedEventData {
+  fileId: string;
+  fileName: string;
+  fileSize: number;
+  format: string;
+  provider: string;
+  duration: number;
+  totalUploads: number;
+  totalSize: number;
+}
+
+/**
+ * Data payload for a completed delete.
+ */
+export interface DeleteCompletedEventData {
+  fileId: string;
+}
+
+/**
+ * Data payload for a failed operation.
+ */
+export interface ErrorEventData {
+  operation: 'upload' | 'delete' | 'get';
+  error: {
+    message: string;
+    name: string;
+  };
+  totalErrors: number;
+}
+
+/**
+ * Fields present on every `MediaUploader` event.
+ */
+export interface OperationEventData {
+  /** Id shared by all events of one operation; equals the plugin context's `operationId` */
+  operationId: string;
+}
+
+/**
+ * Events emitted by `MediaUploader`, keyed by name.
+ */
+export interface MediaUploaderEventMap {
+  'upload:start': UploadStartedEventData & OperationEventData;
+  'upload:progress': OperationEventData & {
+    /** Percentage (0-100), when the provider reports one */
+    percent?: number | undefined;
+    /** Bytes sent so far, when the provider reports bytes */
+    loaded?: number | undefined;
+    total?: number | undefined;
+  };
+  'upload:complete': UploadCompletedEventData & OperationEventData & { result: UploadResult };
+  'upload:error': ErrorEventData &
+    OperationEventData & {
+      operation: 'upload';
+      phase: UploadPhase;
+      cause: Error;
+    };
+  fallback: OperationEventData & {
+    fromProvider: string;
+    toProvider: string;
+    error: Error;
+  };
+  delete: DeleteCompletedEventData & OperationEventData & { provider: string };
+}
+
+/**
+ * Name of a `MediaUploader` event.
+ */
+export type MediaUploaderEvent = keyof MediaUploaderEventMap;
+
+/**
+ * Listener for a `MediaUploader` event.
+ */
+export type MediaUploaderListener<E extends MediaUploaderEvent> = (
+  data: MediaUploaderEventMap[E]
+) => void;
+
+/**
+ * Minimal typed event emitter.
+ * Listeners run synchronously in subscription order; a listener that throws
+ * is logged and never interrupts the operation that emitted the event.
+ */
+export class TypedEventEmitter<TMap extends object> {
+  private readonly listeners = new Map<keyof TMap, Set<(data: never) => void>>();
+
+  /**
+   * Subscribe to an event.
+   *
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof TMap>(event: E, listener: (data: TMap[E]) => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only.
+   *
+   * @returns Function that removes the listener
+   */
+  once<E extends keyof TMap>(event: E, listener: (data: TMap[E]) => void): () => void {
+    const off = this.on(event, (data) => {
+      off();
+      listener(data);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener added with `on()`.
+   */
+  off<E extends keyof TMap>(event: E, listener: (data: TMap[E]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Number of listeners for an event.
+   */
+  listenerCount(event: keyof TMap): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Call every listener of an event with `data`.
+   */
+  emit<E extends keyof TMap>(event: E, data: TMap[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    for (const listener of [...set] as Array<(data: TMap[E]) => void>) {
+      try {
+        listener(data);
+      } catch (err) {
+        console.warn(`[FluxMedia] Listener for '${String(event)}' failed:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Generate a unique id for an operation.
+ */
+export function createOperationId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+}
@@ -0,0 +1,505 @@
+import { createHash } from 'node:crypto';
+import type {
+  MediaProvider,
+  DownloadOptions,
+  DownloadResult,
+  ListOptions,
+  ListResult,
+  ProviderFeatures,
+  SearchOptions,
+  TransformationOptions,
+  UploadInput,
+  UploadOptions,
+  UploadResult,
+} from './types';
+import { MediaError, MediaErrorCode, createMediaError } from './errors';
+import { getFileType } from './file-type';
+
+/**
+ * Operations that can be made to fail on an InMemoryProvider.
+ */
+export type InMemoryOperation =
+  'upload' | 'get' | 'delete' | 'search' | 'list' | 'copy' | 'move' | 'download';
+
+/**
+ * A failure to inject into an InMemoryProvider.
+ */
+export interface InMemoryFailure {
+  /** Operation that should fail */
+  operation: InMemoryOperation;
+  /** Error code of the thrown MediaError */
+  code: MediaErrorCode;
+  /** Error message (defaults to a generic message naming the operation) */
+  message?: string;
+  /**
+   * Number of calls that should fail before the operation succeeds again.
+   * Omit to fail every call until `clearFailures()` is called.
+   */
+  times?: number;
+}
+
+/**
+ * Options for creating an InMemoryProvider.
+ */
+export interface InMemoryProviderOptions {
+  /** Provider name reported in results and errors (default: 'memory') */
+  name?: string;
+  /** Base URL used to build file URLs (default: 'https://memory.fluxmedia.test') */
+  baseUrl?: string;
+  /** Feature matrix overrides; `storage.maxFileSize` is enforced on upload */
+  features?: Partial<ProviderFeatures>;
+  /** Failures to inject from the start */
+  failures?: InMemoryFailure[];
+}
+
+/**
+ * A file held by an InMemoryProvider.
+ */
+export interface InMemoryFile {
+  data: Buffer;
+  contentType: string;
+  result: UploadResult;
+  folder?: string | undefined;
+  tags: string[];
+}
+
+const DEFAULT_FEATURES: ProviderFeatures = {
+  transformations: {
+    resize: false,
+    crop: false,
+    format: false,
+    quality: false,
+    blur: false,
+    rotate: false,
+    effects: false,
+  },
+  capabilities: {
+    signedUploads: false,
+    directUpload: true,
+    multipartUpload: false,
+    videoProcessing: false,
+    aiTagging: false,
+    facialDetection: false,
+  },
+  storage: {
+    maxFileSize: 10 * 1024 * 1024,
+    supportedFormats: ['*'],
+  },
+};
+
+/**
+ * Stateful in-memory MediaProvider for tests.
+ * Keeps uploaded bytes, metadata, tags and folders so tests can upload a file
+ * and then get, search or delete it, and can inject failures by error code.
+ *
+ * @example
+ * ```ts
+ * import { InMemoryProvider } from '@fluxmedia/core/testing';
+ *
+ * const provider = new InMemoryProvider();
+ * const uploader = new MediaUploader(provider);
+ *
+ * const result = await uploader.upload(Buffer.from('hello'), { folder: 'docs' });
+ * expect(await provider.search({ folder: 'docs' })).toHaveLength(1);
+ *
+ * provider.injectFailure({ operation: 'upload', code: MediaErrorCode.NETWORK_ERROR, times: 1 });
+ * ```
+ */
+export class InMemoryProvider implements MediaProvider {
+  readonly name: string;
+  readonly features: ProviderFeatures;
+
+  private readonly baseUrl: string;
+  private readonly files = new Map<string, InMemoryFile>();
+  private failures: InMemoryFailure[];
+  private idCounter = 0;
+
+  constructor(options: InMemoryProviderOptions = {}) {
+    this.name = options.name ?? 'memory';
+    this.baseUrl = (options.baseUrl ?? 'https://memory.fluxmedia.test').replace(/\/+$/, '');
+    this.features = {
+      ...DEFAULT_FEATURES,
+      ...options.features,
+    };
+    this.failures = [...(options.failures ?? [])];
+  }
+
+  async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    this.throwIfFailing('upload');
+
+    const data = await this.readInput(file);
+    const maxFileSize = this.features.storage.maxFileSize;
+    if (data.byteLength > maxFileSize) {
+      throw createMediaError(
+        MediaErrorCode.FILE_TOO_LARGE,
+        this.name,
+        new Error(`File exceeds maximum allowed size of ${maxFileSize} bytes`),
+        { size: data.byteLength, maxFileSize }
+      );
+    }
+
+    const { contentType, extension } = await this.getContentType(file, data, options);
+    const key = this.generateKey(options);
+
+    if (options?.signal?.aborted) {
+      throw createMediaError(MediaErrorCode.ABORTED, this.name, new Error('Upload aborted'));
+    }
+
+    this.checkWriteConditions(key, options);
+
+    options?.onByteProgress?.(data.byteLength, data.byteLength);
+    options?.onProgress?.(100);
+
+    const result: UploadResult = {
+      id: key,
+      storageKey: key,
+      url: this.getUrl(key),
+      publicUrl: this.getUrl(key),
+      size: data.byteLength,
+      format: extension,
+      provider: this.name,
+      metadata: { ...(options?.metadata ?? {}), contentType },
+      createdAt: new Date(),
+    };
+
+    this.files.set(key, {
+      data,
+      contentType,
+      result,
+      folder: options?.folder,
+      tags: options?.tags ?? [],
+    });
+
+    return { ...result, metadata: { ...result.metadata } };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.throwIfFailing('delete');
+    // Deleting a missing file succeeds, matching the cloud providers
+    this.files.delete(id);
+  }
+
+  async get(id: string): Promise<UploadResult> {
+    this.throwIfFailing('get');
+
+    const stored = this.files.get(id);
+    if (!stored) {
+      throw createMediaError(
+        MediaErrorCode.FILE_NOT_FOUND,
+        this.name,
+        new Error(`File not found: ${id}`)
+      );
+    }
+    return { ...stored.result, metadata: { ...stored.result.metadata } };
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    return `${this.baseUrl}/${id}`;
+  }
+
+  /**
+   * Stream stored bytes. The ETag is the quoted MD5 of the whole file, like S3.
+   */
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    this.throwIfFailing('download');
+    options?.signal?.throwIfAborted();
+
+    const stored = this.files.get(id);
+    if (!stored) {
+      throw createMediaError(
+        MediaErrorCode.FILE_NOT_FOUND,
+        this.name,
+        new Error(`File not found: ${id}`)
+      );
+    }
+
+    const total = stored.data.byteLength;
+    const etag = this.etagOf(stored.data);
+    let data = stored.data;
+    let contentRange: string | undefined;
+
+    if (options?.range) {
+      const { start } = options.range;
+      const end = Math.min(options.range.end ?? total - 1, total - 1);
+      if (start < 0 || start >= total || end < start) {
+        throw createMediaError(
+          MediaErrorCode.PROVIDER_ERROR,
+          this.name,
+          new Error(`Range ${start}-${options.range.end ?? ''} is not satisfiable for ${id}`)
+        );
+      }
+      data = stored.data.subarray(start, end + 1);
+      contentRange = `bytes ${start}-${end}/${total}`;
+    }
+
+    const bytes = new Uint8Array(data);
+    return {
+      stream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        },
+      }),
+      contentType: stored.contentType,
+      contentLength: bytes.byteLength,
+      etag,
+      ...(contentRange && { contentRange }),
+    };
+  }
+
+  async uploadMultiple(files: File[] | Buffer[], options?: UploadOptions): Promise<UploadResult[]> {
+    const results: UploadResult[] = [];
+    for (const file of files) {
+      results.push(await this.upload(file, options));
+    }
+    return results;
+  }
+
+  async deleteMultiple(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.delete(id);
+    }
+  }
+
+  /**
+   * Search stored files. `tags` requires every tag to be present and `query`
+   * is a case-insensitive substring match on the id.
+   */
+  async search(query: SearchOptions): Promise<UploadResult[]> {
+    this.throwIfFailing('search');
+
+    const needle = query.query?.toLowerCase();
+    const matches = Array.from(this.files.values()).filter((stored) => {
+      if (query.folder !== undefined && stored.folder !== query.folder) return false;
+      if (query.tags?.length && !query.tags.every((tag) => stored.tags.includes(tag))) {
+        return false;
+      }
+      if (needle && !stored.result.id.toLowerCase().includes(needle)) return false;
+      return true;
+    });
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? matches.length;
+    return matches.slice(offset, offset + limit).map((stored) => ({ ...stored.result }));
+  }
+
+  /**
+   * List stored files in key order. The cursor is the last id of the previous page.
+   */
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    this.throwIfFailing('list');
+
+    const keys = Array.from(this.files.keys())
+      .filter((key) => !options.prefix || key.startsWith(options.prefix))
+      .filter((key) => !options.cursor || key > options.cursor)
+      .sort();
+
+    const limit = options.limit ?? 1000;
+    const page = keys.slice(0, limit);
+    return {
+      items: page.map((key) => ({ ...this.files.get(key)!.result })),
+      nextCursor: keys.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+
+  /**
+   * Copy a stored file to `destKey`, overwriting any file already stored there.
+   */
+  async copy(id: string, destKey: string): Promise<UploadResult> {
+    this.throwIfFailing('copy');
+    return this.transfer(id, destKey);
+  }
+
+  /**
+   * Move a stored file to `destKey`.
+   */
+  async move(id: string, destKey: string): Promise<UploadResult> {
+    this.throwIfFailing('move');
+    const result = this.transfer(id, destKey);
+    if (destKey !== id) {
+      this.files.delete(id);
+    }
+    return result;
+  }
+
+  /**
+   * The underlying file map, keyed by id.
+   */
+  get native(): ReadonlyMap<string, InMemoryFile> {
+    return this.files;
+  }
+
+  /**
+   * Number of stored files.
+   */
+  get size(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Check whether a file with the given id is stored.
+   */
+  has(id: string): boolean {
+    return this.files.has(id);
+  }
+
+  /**
+   * Get the raw bytes of a stored file.
+   */
+  getData(id: string): Buffer | undefined {
+    return this.files.get(id)?.data;
+  }
+
+  /**
+   * Make an operation fail with the given error code.
+   */
+  injectFailure(failure: InMemoryFailure): this {
+    this.failures.push({ ...failure });
+    return this;
+  }
+
+  /**
+   * Remove all injected failures.
+   */
+  clearFailures(): this {
+    this.failures = [];
+    return this;
+  }
+
+  /**
+   * Remove all stored files and injected failures.
+   */
+  reset(): void {
+    this.files.clear();
+    this.failures = [];
+  }
+
+  /**
+   * Enforce `ifNotExists` / `ifMatch` against the file currently at `key`.
+   */
+  private checkWriteConditions(key: string, options: UploadOptions | undefined): void {
+    const existing = this.files.get(key);
+
+    if (options?.ifNotExists && existing) {
+      throw new MediaError(`File '${key}' already exists`, MediaErrorCode.CONFLICT, this.name);
+    }
+    if (
+      options?.ifMatch !== undefined &&
+      (!existing || this.etagOf(existing.data) !== options.ifMatch)
+    ) {
+      throw new MediaError(
+        `File '${key}' no longer matches ETag ${options.ifMatch}`,
+        MediaErrorCode.CONFLICT,
+        this.name
+      );
+    }
+  }
+
+  private etagOf(data: Buffer): string {
+    return `"${createHash('md5').update(data).digest('hex')}"`;
+  }
+
+  private transfer(id: string, destKey: string): UploadResult {
+    const stored = this.files.get(id);
+    if (!stored) {
+      throw createMediaError(
+        MediaErrorCode.FILE_NOT_FOUND,
+        this.name,
+        new Error(`File not found: ${id}`)
+      );
+    }
+
+    const separator = destKey.lastIndexOf('/');
+    const result: UploadResult = {
+      ...stored.result,
+      id: destKey,
+      storageKey: destKey,
+      url: this.getUrl(destKey),
+      publicUrl: this.getUrl(destKey),
+      metadata: { ...stored.result.metadata },
+      createdAt: new Date(),
+    };
+
+    this.files.set(destKey, {
+      ...stored,
+      result,
+      folder: separator === -1 ? undefined : destKey.slice(0, separator),
+      tags: [...stored.tags],
+    });
+
+    return { ...result, metadata: { ...result.metadata } };
+  }
+
+  private throwIfFailing(operation: InMemoryOperation): void {
+    const index = this.failures.findIndex((failure) => failure.operation === operation);
+    if (index === -1) return;
+
+    const failure = this.failures[index]!;
+    if (failure.times !== undefined) {
+      failure.times--;
+      if (failure.times <= 0) {
+        this.failures.splice(index, 1);
+      }
+    }
+
+    throw createMediaError(
+      failure.code,
+      this.name,
+      new Error(failure.message ?? `Injected ${operation} failure`)
+    );
+  }
+
+  private async readInput(file: UploadInput): Promise<Buffer> {
+    if (file instanceof Buffer) return file;
+    if (typeof File !== 'undefined' && file instanceof File) {
+      return Buffer.from(await file.arrayBuffer());
+    }
+
+    const chunks: Buffer[] = [];
+    if (typeof (file as ReadableStream<Uint8Array>).getReader === 'function') {
+      const reader = (file as ReadableStream<Uint8Array>).getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(Buffer.from(value));
+      }
+    } else {
+      for await (const chunk of file as AsyncIterable<Buffer | string>) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+      }
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async getContentType(
+    file: UploadInput,
+    data: Buffer,
+    options?: UploadOptions
+  ): Promise<{ contentType: string; extension: string }> {
+    if (options?.contentType) {
+      return {
+        contentType: options.contentType,
+        extension: options.contentType.split('/').pop() ?? '',
+      };
+    }
+    if (typeof File !== 'undefined' && file instanceof File && file.type) {
+      return { contentType: file.type, extension: file.name.split('.').pop() ?? '' };
+    }
+    const detected = await getFileType(data);
+    return {
+      contentType: detected?.mime ?? 'application/octet-stream',
+      extension: detected?.ext ?? '',
+    };
+  }
+
+  private generateKey(options?: UploadOptions): string {
+    this.idCounter++;
+    const baseFilename = options?.filename ?? `file-${this.idCounter}`;
+    // When uniqueFilename is true (default) or not specified, append a counter suffix
+    const shouldMakeUnique = options?.uniqueFilename !== false;
+    const filename =
+      shouldMakeUnique && options?.filename ? `${baseFilename}-${this.idCounter}` : baseFilename;
+    const folder = options?.folder ? `${options.folder}/` : '';
+    return `${folder}${filename}`;
+  }
+}
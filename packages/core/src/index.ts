@@ -5,6 +5,17 @@ export type {
   UploadInput,
   TransformationOptions,
   SearchOptions,
+  ListOptions,
+  ListResult,
+  SignedUploadOptions,
+  SignedUpload,
+  SignedUrlOptions,
+  DownloadOptions,
+  DownloadResult,
+  RestoreOptions,
+  RestoreStatus,
+  ServerSideEncryption,
+  AppliedEncryption,
   MediaProvider,
   ProviderFeatures,
 } from './types';
@@ -14,16 +25,32 @@ export {
   MediaError,
   MediaErrorCode,
   createMediaError,
+  isRetryableError,
+  parseRetryAfter,
+  type MediaErrorHints,
   PartialUploadError,
   type PartialUploadContext,
+  PartialMirrorError,
+  type MirrorFailureContext,
+  type MirrorReplicaFailure,
+  TransactionError,
+  type TransactionFailureContext,
+  type RollbackFailure,
+  BatchDeleteError,
+  type BatchDeleteContext,
+  type BatchDeleteFailure,
 } from './errors';
 
 // Export plugins
 export {
   PluginManager,
+  OperationContext,
   createPlugin,
   type FluxMediaPlugin,
   type PluginHooks,
+  type BeforeUploadResult,
+  type BeforeDeleteResult,
+  type PluginContext,
   type UploadPhase,
 } from './plugin';
 
@@ -32,8 +59,61 @@ export {
   MediaUploader,
   type MediaUploaderConfig,
   type TransactionCallbacks,
+  type BatchTransactionCallbacks,
+  type BatchOptions,
+  type BatchUploadOptions,
+  type BatchResult,
 } from './media-uploader';
 
+// Export uploader events
+export {
+  TypedEventEmitter,
+  type MediaUploaderEvent,
+  type MediaUploaderEventMap,
+  type MediaUploaderListener,
+  type OperationEventData,
+  type UploadStartedEventData,
+  type UploadCompletedEventData,
+  type DeleteCompletedEventData,
+  type ErrorEventData,
+} from './events';
+
+// Export circuit breaker
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChange,
+} from './circuit-breaker';
+
+// Export router
+export {
+  MediaRouter,
+  type MediaRouterConfig,
+  type RouteRule,
+  type RouteContext,
+} from './media-router';
+
+// Export mirrored provider
+export {
+  MirroredProvider,
+  type MirroredProviderConfig,
+  type MirrorWritePolicy,
+  type MirrorReplicaResult,
+} from './mirrored-provider';
+
+// Export migration
+export {
+  migrateMedia,
+  createFileManifestStore,
+  type MigrationOptions,
+  type MigrationReport,
+  type MigrationProgress,
+  type MigrationManifest,
+  type MigrationManifestEntry,
+  type MigrationManifestStore,
+} from './migration';
+
 // Export file type utilities
 export {
   getFileType,
@@ -0,0 +1,343 @@
+import type {
+  DownloadOptions,
+  DownloadResult,
+  MediaProvider,
+  ProviderFeatures,
+  SearchOptions,
+  SignedUrlOptions,
+  TransformationOptions,
+  UploadInput,
+  UploadOptions,
+  UploadResult,
+} from './types';
+import { MediaErrorCode, createMediaError } from './errors';
+import { getFileType } from './file-type';
+
+/**
+ * A routing rule. Every condition that is set must match; rules are checked
+ * in order and the first match wins.
+ */
+export interface RouteRule {
+  /**
+   * Provider that receives uploads matching this rule
+   */
+  provider: MediaProvider;
+
+  /**
+   * MIME types to match, e.g. ['image/*', 'application/pdf']
+   */
+  mimeTypes?: string[];
+
+  /**
+   * Minimum file size in bytes (inclusive). Never matches when the size is unknown (streams).
+   */
+  minSize?: number;
+
+  /**
+   * Maximum file size in bytes (inclusive). Never matches when the size is unknown (streams).
+   */
+  maxSize?: number;
+
+  /**
+   * Folders to match. A folder also matches its subfolders ('videos' matches 'videos/2024').
+   */
+  folders?: string[];
+
+  /**
+   * Tags that must all be present on the upload
+   */
+  tags?: string[];
+}
+
+/**
+ * What the router knows about an upload when evaluating rules.
+ */
+export interface RouteContext {
+  /** Detected MIME type, or `options.contentType` for streams */
+  mimeType?: string | undefined;
+  /** File size in bytes, undefined for streams */
+  size?: number | undefined;
+  folder?: string | undefined;
+  tags: string[];
+}
+
+/**
+ * Configuration for MediaRouter.
+ */
+export interface MediaRouterConfig {
+  /**
+   * Rules checked in order for each upload
+   */
+  rules: RouteRule[];
+
+  /**
+   * Provider used when no rule matches, and for ids with no recorded owner
+   */
+  defaultProvider: MediaProvider;
+
+  /**
+   * Provider name reported by the router (default: 'router')
+   */
+  name?: string;
+
+  /**
+   * Map of file id to owning provider name. Pass a pre-filled map to restore
+   * ownership recorded by a previous process; the router updates it in place.
+   */
+  ownership?: Map<string, string>;
+}
+
+/**
+ * A MediaProvider that routes each upload to one of several providers based on
+ * MIME type, size, folder and tags, and remembers which provider owns each id
+ * so that `get`, `delete` and `getUrl` reach the right backend.
+ *
+ * Provider names must be unique because ownership is recorded by name, and
+ * file ids must be unique across providers.
+ *
+ * @example
+ * ```typescript
+ * const router = new MediaRouter({
+ *   rules: [
+ *     { mimeTypes: ['image/*'], provider: cloudinary },
+ *     { mimeTypes: ['video/*', 'application/zip'], provider: r2 },
+ *     { minSize: 100 * 1024 * 1024, provider: r2 },
+ *   ],
+ *   defaultProvider: s3,
+ * });
+ *
+ * const uploader = new MediaUploader(router);
+ * const result = await uploader.upload(file); // images go to Cloudinary
+ * uploader.getUrl(result.id); // resolved by the owning provider
+ * ```
+ */
+export class MediaRouter implements MediaProvider {
+  readonly name: string;
+  readonly features: ProviderFeatures;
+
+  private readonly rules: RouteRule[];
+  private readonly defaultProvider: MediaProvider;
+  private readonly providers = new Map<string, MediaProvider>();
+  private readonly ownership: Map<string, string>;
+
+  constructor(config: MediaRouterConfig) {
+    this.name = config.name ?? 'router';
+    this.rules = config.rules;
+    this.defaultProvider = config.defaultProvider;
+    this.ownership = config.ownership ?? new Map();
+
+    for (const provider of [config.defaultProvider, ...config.rules.map((rule) => rule.provider)]) {
+      const existing = this.providers.get(provider.name);
+      if (existing && existing !== provider) {
+        throw createMediaError(
+          MediaErrorCode.INVALID_CONFIG,
+          this.name,
+          new Error(
+            `Two different providers are named '${provider.name}'; provider names must be unique`
+          )
+        );
+      }
+      this.providers.set(provider.name, provider);
+    }
+
+    this.features = this.mergeFeatures(Array.from(this.providers.values()));
+  }
+
+  async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    const provider = await this.route(file, options);
+    const result = await provider.upload(file, options);
+    this.ownership.set(result.id, provider.name);
+    return result;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ownerOf(id).delete(id);
+    this.ownership.delete(id);
+  }
+
+  async get(id: string): Promise<UploadResult> {
+    return this.ownerOf(id).get(id);
+  }
+
+  getUrl(id: string, transform?: TransformationOptions): string {
+    return this.ownerOf(id).getUrl(id, transform);
+  }
+
+  async uploadMultiple(files: File[] | Buffer[], options?: UploadOptions): Promise<UploadResult[]> {
+    // Files may route to different providers, so upload one at a time
+    const results: UploadResult[] = [];
+    for (const file of files) {
+      results.push(await this.upload(file, options));
+    }
+    return results;
+  }
+
+  async deleteMultiple(ids: string[]): Promise<void> {
+    const byOwner = new Map<MediaProvider, string[]>();
+    for (const id of ids) {
+      const owner = this.ownerOf(id);
+      byOwner.set(owner, [...(byOwner.get(owner) ?? []), id]);
+    }
+
+    for (const [provider, ownedIds] of byOwner) {
+      await provider.deleteMultiple(ownedIds);
+      for (const id of ownedIds) {
+        this.ownership.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Search every provider that supports search and combine the results.
+   * Offset and limit are applied per provider.
+   */
+  async search(query: SearchOptions): Promise<UploadResult[]> {
+    const results: UploadResult[] = [];
+    for (const provider of this.providers.values()) {
+      if (!provider.search) continue;
+      for (const result of await provider.search(query)) {
+        this.ownership.set(result.id, provider.name);
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  async getSignedUrl(id: string, options?: SignedUrlOptions): Promise<string> {
+    const owner = this.ownerOf(id);
+    if (!owner.getSignedUrl) {
+      throw new Error(`Signed URLs are not supported by ${owner.name} provider`);
+    }
+    return owner.getSignedUrl(id, options);
+  }
+
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    const owner = this.ownerOf(id);
+    if (!owner.download) {
+      throw new Error(`Downloads are not supported by ${owner.name} provider`);
+    }
+    return owner.download(id, options);
+  }
+
+  /**
+   * Name of the provider that owns an id, or undefined if it has not been recorded.
+   */
+  getOwner(id: string): string | undefined {
+    return this.ownership.get(id);
+  }
+
+  /**
+   * Routed providers by name.
+   */
+  get native(): ReadonlyMap<string, MediaProvider> {
+    return this.providers;
+  }
+
+  /**
+   * Pick the provider for an upload: the first matching rule, else the default provider.
+   */
+  async route(file: UploadInput, options?: UploadOptions): Promise<MediaProvider> {
+    const context = await this.describe(file, options);
+    const rule = this.rules.find((candidate) => this.matches(candidate, context));
+    return rule?.provider ?? this.defaultProvider;
+  }
+
+  private ownerOf(id: string): MediaProvider {
+    const owner = this.ownership.get(id);
+    if (owner === undefined) return this.defaultProvider;
+
+    const provider = this.providers.get(owner);
+    if (!provider) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(`File '${id}' is owned by unknown provider '${owner}'`)
+      );
+    }
+    return provider;
+  }
+
+  private matches(rule: RouteRule, context: RouteContext): boolean {
+    if (rule.mimeTypes) {
+      const mimeType = context.mimeType;
+      if (!mimeType || !rule.mimeTypes.some((pattern) => this.mimeMatches(pattern, mimeType))) {
+        return false;
+      }
+    }
+    if (rule.minSize !== undefined && (context.size === undefined || context.size < rule.minSize)) {
+      return false;
+    }
+    if (rule.maxSize !== undefined && (context.size === undefined || context.size > rule.maxSize)) {
+      return false;
+    }
+    if (rule.folders) {
+      const folder = context.folder;
+      if (
+        !folder ||
+        !rule.folders.some(
+          (candidate) => folder === candidate || folder.startsWith(`${candidate}/`)
+        )
+      ) {
+        return false;
+      }
+    }
+    if (rule.tags && !rule.tags.every((tag) => context.tags.includes(tag))) {
+      return false;
+    }
+    return true;
+  }
+
+  private mimeMatches(pattern: string, mimeType: string): boolean {
+    if (pattern === '*' || pattern === '*/*') return true;
+    if (pattern.endsWith('/*')) return mimeType.startsWith(pattern.slice(0, -1));
+    return pattern === mimeType;
+  }
+
+  private async describe(file: UploadInput, options?: UploadOptions): Promise<RouteContext> {
+    const context: RouteContext = {
+      mimeType: options?.contentType,
+      folder: options?.folder,
+      tags: options?.tags ?? [],
+    };
+
+    if (file instanceof Buffer) {
+      context.size = file.byteLength;
+      context.mimeType ??= (await getFileType(file))?.mime;
+    } else if (typeof File !== 'undefined' && file instanceof File) {
+      context.size = file.size;
+      // Prefer magic bytes over the browser-reported type, which comes from the extension
+      const head = new Uint8Array(await file.slice(0, 4100).arrayBuffer());
+      context.mimeType ??= (await getFileType(head))?.mime ?? (file.type || undefined);
+    }
+    // Streams can't be inspected without consuming them; rely on options.contentType
+
+    return context;
+  }
+
+  /**
+   * Combine provider features: a capability is available if any routed provider has it.
+   */
+  private mergeFeatures(providers: MediaProvider[]): ProviderFeatures {
+    const anyProvider = <K extends 'transformations' | 'capabilities'>(
+      group: K
+    ): ProviderFeatures[K] => {
+      const merged: Record<string, boolean> = {};
+      for (const provider of providers) {
+        for (const [key, value] of Object.entries(provider.features[group])) {
+          merged[key] = merged[key] === true || value;
+        }
+      }
+      return merged as ProviderFeatures[K];
+    };
+
+    const formats = new Set(providers.flatMap((p) => p.features.storage.supportedFormats));
+    return {
+      transformations: anyProvider('transformations'),
+      capabilities: anyProvider('capabilities'),
+      storage: {
+        maxFileSize: Math.max(...providers.map((p) => p.features.storage.maxFileSize)),
+        supportedFormats: formats.has('*') ? ['*'] : Array.from(formats),
+      },
+    };
+  }
+}
@@ -5,12 +5,43 @@ import type {
   UploadInput,
   TransformationOptions,
   SearchOptions,
+  ListOptions,
+  ListResult,
+  SignedUploadOptions,
+  SignedUpload,
+  SignedUrlOptions,
+  DownloadOptions,
+  DownloadResult,
+  RestoreOptions,
+  RestoreStatus,
 } from './types';
-import { MediaErrorCode, MediaError } from './errors';
-import { PluginManager, type FluxMediaPlugin } from './plugin';
+import {
+  MediaErrorCode,
+  MediaError,
+  TransactionError,
+  isRetryableError,
+  type RollbackFailure,
+  type TransactionFailureContext,
+} from './errors';
+import { PluginManager, OperationContext, type FluxMediaPlugin, type UploadPhase } from './plugin';
+import { runWithConcurrency } from './concurrency';
+import { openAsset, transferUploadOptions } from './migration';
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChange,
+} from './circuit-breaker';
+import {
+  TypedEventEmitter,
+  createOperationId,
+  type MediaUploaderEvent,
+  type MediaUploaderEventMap,
+  type MediaUploaderListener,
+} from './events';
 
 /**
- * Configuration for MediaUploader with optional fallback provider.
+ * Configuration for MediaUploader with optional fallback providers.
  */
 export interface MediaUploaderConfig {
   /**
@@ -18,9 +49,14 @@ export interface MediaUploaderConfig {
    */
   fallbackProvider?: MediaProvider;
 
+  /**
+   * Further providers to try in order, after the primary and `fallbackProvider`.
+   */
+  fallbackProviders?: MediaProvider[];
+
   /**
    * Error codes that trigger failover to the fallback provider.
-   * Defaults to NETWORK_ERROR and PROVIDER_ERROR.
+   * By default every retryable error fails over (see `MediaError.retryable`).
    */
   fallbackOnErrors?: MediaErrorCode[];
 
@@ -28,6 +64,18 @@ export interface MediaUploaderConfig {
    * Called when failover occurs. Useful for alerting / observability.
    */
   onFallback?: (error: Error, fromProvider: string, toProvider: string) => void;
+
+  /**
+   * Give every provider in the chain a circuit breaker. While a provider's
+   * circuit is open, uploads go straight to the next provider. Only errors
+   * that qualify for fallback count as failures.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Called when a provider's circuit changes state.
+   */
+  onCircuitStateChange?: (change: CircuitStateChange) => void;
 }
 
 /**
@@ -81,12 +129,24 @@ export class MediaUploader {
   private readonly config: MediaUploaderConfig;
 
   /**
-   * Default error codes that trigger fallback.
+   * Providers tried in order for uploads: the primary, then the fallbacks.
    */
-  private static readonly DEFAULT_FALLBACK_ERRORS: MediaErrorCode[] = [
-    MediaErrorCode.NETWORK_ERROR,
-    MediaErrorCode.PROVIDER_ERROR,
-  ];
+  private readonly chain: MediaProvider[];
+
+  /**
+   * Circuit breaker per provider in the chain, when configured.
+   */
+  private readonly breakers = new Map<MediaProvider, CircuitBreaker>();
+
+  /**
+   * Listeners registered with `on()`.
+   */
+  private readonly events = new TypedEventEmitter<MediaUploaderEventMap>();
+
+  /**
+   * Running totals reported in upload events.
+   */
+  private readonly totals = { uploads: 0, size: 0, errors: 0 };
 
   /**
    * Create a new MediaUploader instance.
@@ -99,16 +159,77 @@ export class MediaUploader {
     this.provider = provider;
     this.plugins = new PluginManager();
     this.config = config ?? {};
+    this.chain = [
+      provider,
+      ...(this.config.fallbackProvider ? [this.config.fallbackProvider] : []),
+      ...(this.config.fallbackProviders ?? []),
+    ];
+
+    if (this.config.circuitBreaker) {
+      for (const member of this.chain) {
+        this.breakers.set(
+          member,
+          new CircuitBreaker(member.name, this.config.circuitBreaker, (change) =>
+            this.config.onCircuitStateChange?.(change)
+          )
+        );
+      }
+    }
 
     // Register initial plugins if provided
     if (plugins?.length) {
-      // Use sync registration for constructor (plugins can use async init)
-      for (const plugin of plugins) {
-        this.plugins.register(plugin);
-      }
+      // Check ordering here so a missing dependency or cycle throws from the
+      // constructor; registration itself is async (plugins can use async init)
+      this.plugins.checkOrder(plugins);
+      this.plugins.registerAll(plugins);
     }
   }
 
+  /**
+   * Subscribe to an uploader event.
+   *
+   * @param event - Event name
+   * @param listener - Called synchronously with the event data
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const off = uploader.on('upload:complete', ({ operationId, fileId, duration }) => {
+   *   socket.emit('uploaded', { operationId, fileId, duration });
+   * });
+   * ```
+   */
+  on<E extends MediaUploaderEvent>(event: E, listener: MediaUploaderListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an uploader event.
+   *
+   * @returns Function that removes the listener
+   */
+  once<E extends MediaUploaderEvent>(event: E, listener: MediaUploaderListener<E>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Remove a listener added with `on()`.
+   */
+  off<E extends MediaUploaderEvent>(event: E, listener: MediaUploaderListener<E>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Get the circuit state of a provider in the upload chain, by instance or name.
+   * Returns undefined when circuit breaking is not configured or the provider
+   * is not in the chain.
+   */
+  getCircuitState(provider: MediaProvider | string): CircuitState | undefined {
+    const member =
+      typeof provider === 'string' ? this.chain.find((p) => p.name === provider) : provider;
+    return member ? this.breakers.get(member)?.state : undefined;
+  }
+
   /**
    * Register a plugin.
    * If a plugin with the same name exists, it will be overridden (last takes precedence).
@@ -131,7 +252,8 @@ export class MediaUploader {
 
   /**
    * Upload a file to the configured provider.
-   * Runs beforeUpload and afterUpload plugin hooks.
+   * Runs beforeUpload and afterUpload plugin hooks. When a beforeUpload hook
+   * returns a result, the provider is skipped and that result is returned.
    *
    * @param file - File to upload (browser File, Node.js Buffer, or readable stream)
    * @param options - Upload options
@@ -139,63 +261,111 @@ export class MediaUploader {
    * @throws {MediaError} If upload fails
    */
   async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    return this.uploadFile(file, options);
+  }
+
+  /**
+   * Upload implementation. `onStored` is called once the provider has stored
+   * the file and before afterUpload hooks run, so callers that must clean up
+   * still learn about a file whose hooks later failed.
+   */
+  private async uploadFile(
+    file: UploadInput,
+    options: UploadOptions | undefined,
+    onStored?: (result: UploadResult) => void
+  ): Promise<UploadResult> {
+    // Hook state lives here for the whole upload; providers only get the options
+    const context = new OperationContext();
+    const startedAt = Date.now();
+    const fileName = this.fileName(file, options);
+
+    this.events.emit('upload:start', {
+      operationId: context.operationId,
+      uploadId: context.operationId,
+      fileName,
+      fileSize: this.inputSize(file),
+      folder: options?.folder,
+    });
+
     // Run beforeUpload hooks
-    const { file: processedFile, options: processedOptions } = await this.plugins.runBeforeUpload(
-      file,
-      options ?? {}
-    );
+    let processedFile: UploadInput;
+    let processedOptions: UploadOptions;
+    let shortCircuit: UploadResult | undefined;
+    try {
+      ({
+        file: processedFile,
+        options: processedOptions,
+        result: shortCircuit,
+      } = await this.plugins.runBeforeUpload(file, options ?? {}, context));
+    } catch (error) {
+      this.emitUploadError(error, 'beforeUpload', context);
+      throw error;
+    }
+
+    if (shortCircuit) {
+      // A plugin supplied the result; nothing was uploaded
+      return this.completeUpload(shortCircuit, fileName, startedAt, context);
+    }
 
+    const signal = processedOptions.signal;
+    let uploadedBy: MediaProvider;
     let result: UploadResult;
     try {
-      // Perform the actual upload
-      result = await this.provider.upload(processedFile, processedOptions);
-    } catch (primaryError) {
-      // Check if we should failover to the fallback provider
-      if (this.config.fallbackProvider && this.shouldFallback(primaryError)) {
-        this.config.onFallback?.(
-          primaryError instanceof Error ? primaryError : new Error(String(primaryError)),
-          this.provider.name,
-          this.config.fallbackProvider.name
-        );
-        try {
-          result = await this.config.fallbackProvider.upload(processedFile, processedOptions);
-        } catch (fallbackError) {
-          // Fallback also failed — report the fallback error
-          await this.plugins.runOnError(
-            fallbackError instanceof Error ? fallbackError : new Error(String(fallbackError)),
-            { file: processedFile, options: processedOptions, phase: 'upload' }
-          );
-          throw fallbackError;
-        }
-      } else {
-        // No fallback — report the primary error
-        await this.plugins.runOnError(
-          primaryError instanceof Error ? primaryError : new Error(String(primaryError)),
-          { file: processedFile, options: processedOptions, phase: 'upload' }
-        );
-        throw primaryError;
-      }
+      ({ result, provider: uploadedBy } = await this.uploadWithFallback(
+        processedFile,
+        this.withProgressEvents(processedOptions, context.operationId),
+        context.operationId
+      ));
+    } catch (error) {
+      await this.reportUploadError(
+        error,
+        { file: processedFile, options: processedOptions, phase: 'upload' },
+        context
+      );
+      throw error;
+    }
+
+    if (signal?.aborted) {
+      // The provider finished before it noticed the abort; don't keep a file
+      // the caller gave up on, and don't run afterUpload hooks for it
+      await uploadedBy.delete(result.id).catch(() => undefined);
+      const error = this.abortError(uploadedBy.name);
+      await this.reportUploadError(
+        error,
+        { file: processedFile, options: processedOptions, phase: 'upload' },
+        context
+      );
+      throw error;
     }
 
+    onStored?.(result);
+
     try {
       // Run afterUpload hooks
-      result = await this.plugins.runAfterUpload(result);
-      return result;
+      result = await this.plugins.runAfterUpload(result, context);
     } catch (error) {
       // A post-upload hook failed — the uploaded object exists and may need cleanup
-      await this.plugins.runOnError(error instanceof Error ? error : new Error(String(error)), {
-        file: processedFile,
-        options: processedOptions,
-        phase: 'afterUpload',
-        uploadResult: result,
-      });
+      await this.reportUploadError(
+        error,
+        {
+          file: processedFile,
+          options: processedOptions,
+          phase: 'afterUpload',
+          uploadResult: result,
+        },
+        context
+      );
       throw error;
     }
+
+    return this.completeUpload(result, fileName, startedAt, context);
   }
 
   /**
    * Delete a file by its ID.
-   * Runs beforeDelete and afterDelete plugin hooks.
+   * Runs beforeDelete and afterDelete plugin hooks. When a beforeDelete hook
+   * returns `skip`, the file is kept in the provider and no 'delete' event is
+   * emitted.
    *
    * @param id - File identifier from upload result
    * @returns Promise that resolves when deletion is complete
@@ -203,12 +373,22 @@ export class MediaUploader {
    */
   async delete(id: string): Promise<void> {
     // Run beforeDelete hooks
-    const processedId = await this.plugins.runBeforeDelete(id);
+    const { id: processedId, skip } = await this.plugins.runBeforeDelete(id);
+
+    if (skip) {
+      return;
+    }
 
     await this.provider.delete(processedId);
 
     // Run afterDelete hooks
     await this.plugins.runAfterDelete(processedId);
+
+    this.events.emit('delete', {
+      operationId: createOperationId(),
+      fileId: processedId,
+      provider: this.provider.name,
+    });
   }
 
   /**
@@ -222,6 +402,78 @@ export class MediaUploader {
     return this.provider.get(id);
   }
 
+  /**
+   * Copy a file to a new key.
+   * Runs beforeCopy and afterCopy plugin hooks.
+   *
+   * Uses the provider's native copy (e.g. S3 CopyObject) when copying within
+   * the same provider. When `destination` is a different provider, or the
+   * provider has no native copy, the file is downloaded from its URL and
+   * re-uploaded with its tags and metadata.
+   *
+   * @param id - Source file identifier
+   * @param destKey - Destination key (e.g. 'archive/photo')
+   * @param options - Optional destination provider for cross-provider copies
+   * @returns Promise resolving to the copied file
+   * @throws {MediaError} If the copy fails
+   */
+  async copy(
+    id: string,
+    destKey: string,
+    options?: { destination?: MediaProvider }
+  ): Promise<UploadResult> {
+    const processed = await this.plugins.runBeforeTransfer('beforeCopy', id, destKey);
+    const destination = options?.destination ?? this.provider;
+
+    const result =
+      destination === this.provider && this.provider.copy
+        ? await this.provider.copy(processed.id, processed.destKey)
+        : await this.transfer(processed.id, destination, processed.destKey);
+
+    await this.plugins.runAfterTransfer('afterCopy', result, processed.id);
+    return result;
+  }
+
+  /**
+   * Move (rename) a file to a new key.
+   * Runs beforeMove and afterMove plugin hooks.
+   *
+   * Uses the provider's native move (S3 CopyObject + DeleteObject, Cloudinary
+   * rename) within the same provider. Cross-provider moves download the file,
+   * re-upload it to `destination` with its tags and metadata and then delete
+   * the source through `delete()`, so its delete hooks run. Moving a file to its own key on the same provider leaves it
+   * untouched.
+   *
+   * @param id - Source file identifier
+   * @param destKey - Destination key
+   * @param options - Optional destination provider for cross-provider moves
+   * @returns Promise resolving to the moved file
+   * @throws {MediaError} If the move fails
+   */
+  async move(
+    id: string,
+    destKey: string,
+    options?: { destination?: MediaProvider }
+  ): Promise<UploadResult> {
+    const processed = await this.plugins.runBeforeTransfer('beforeMove', id, destKey);
+    const destination = options?.destination ?? this.provider;
+
+    let result: UploadResult;
+    if (destination === this.provider && this.provider.move) {
+      result = await this.provider.move(processed.id, processed.destKey);
+    } else if (destination === this.provider && processed.id === processed.destKey) {
+      // Moving a file onto itself: deleting the "source" would delete the file
+      result = await this.provider.get(processed.id);
+    } else {
+      result = await this.transfer(processed.id, destination, processed.destKey);
+      // Only remove the source once the new copy exists
+      await this.delete(processed.id);
+    }
+
+    await this.plugins.runAfterTransfer('afterMove', result, processed.id);
+    return result;
+  }
+
   /**
    * Generate a URL for accessing a file, optionally with transformations.
    * Runs beforeGetUrl plugin hooks.
@@ -252,6 +504,68 @@ export class MediaUploader {
     return this.provider.getUrl(processedId, processedTransform);
   }
 
+  /**
+   * Generate an expiring signed URL for a private file.
+   * Runs beforeGetUrl plugin hooks, which may rewrite the id and transform.
+   *
+   * @param id - File identifier
+   * @param options - Expiry, transformations and content disposition
+   * @returns Promise resolving to the signed URL
+   * @throws {MediaError} If the URL cannot be signed or signing is not supported
+   *
+   * @example
+   * ```typescript
+   * const url = await uploader.getSignedUrl(result.id, {
+   *   expiresIn: 300,
+   *   disposition: 'attachment',
+   *   filename: 'invoice.pdf',
+   * });
+   * ```
+   */
+  async getSignedUrl(id: string, options?: SignedUrlOptions): Promise<string> {
+    if (!this.provider.getSignedUrl) {
+      throw new Error(`Signed URLs are not supported by ${this.provider.name} provider`);
+    }
+
+    const { id: processedId, transform } = await this.plugins.runBeforeGetUrl(
+      id,
+      options?.transform
+    );
+
+    const { transform: _, ...rest } = options ?? {};
+    return this.provider.getSignedUrl(processedId, { ...rest, ...(transform && { transform }) });
+  }
+
+  /**
+   * Stream a file's bytes from the provider (if provider supports downloads).
+   * Runs `beforeDownload` and `afterDownload` plugin hooks.
+   *
+   * @param id - File identifier
+   * @param options - Byte range and abort signal
+   * @returns Promise resolving to the byte stream with its content type, length and ETag
+   * @throws {MediaError} If the file is missing or the download fails
+   *
+   * @example
+   * ```typescript
+   * const { stream, contentType } = await uploader.download(result.id, {
+   *   range: { start: 0, end: 1023 },
+   * });
+   * ```
+   */
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    if (!this.provider.download) {
+      throw new Error(`Downloads are not supported by ${this.provider.name} provider`);
+    }
+
+    const { id: processedId, options: processedOptions } = await this.plugins.runBeforeDownload(
+      id,
+      options ?? {}
+    );
+
+    const result = await this.provider.download(processedId, processedOptions);
+    return this.plugins.runAfterDownload(result, processedId);
+  }
+
   /**
    * Upload multiple files in batch.
    *
@@ -283,6 +597,120 @@ export class MediaUploader {
     }
   }
 
+  /**
+   * Upload several files at once without stopping at the first failure.
+   * Each file goes through `upload()`, so plugin hooks and fallback run per file.
+   *
+   * @param files - Files to upload
+   * @param options - Upload options applied to every file, plus batch options
+   * @returns The uploaded files and the inputs that failed, both in input order
+   *
+   * @example
+   * ```typescript
+   * const { succeeded, failed } = await uploader.uploadBatch(files, {
+   *   folder: 'gallery',
+   *   concurrency: 4,
+   *   onBatchByteProgress: (loaded, total) => console.log(loaded, total),
+   * });
+   *
+   * for (const { input, error } of failed) console.error(input, error.message);
+   * ```
+   */
+  async uploadBatch(
+    files: UploadInput[],
+    options?: BatchUploadOptions
+  ): Promise<BatchResult<UploadInput, UploadResult>> {
+    const {
+      concurrency: _concurrency,
+      onBatchProgress: _onBatchProgress,
+      onBatchByteProgress,
+      ...uploadOptions
+    } = options ?? {};
+
+    // Aggregate byte progress; the total is only known when no input is a stream
+    const loaded = files.map(() => 0);
+    const sizes = files.map((file) => this.inputSize(file));
+    const totalBytes = sizes.every((size) => size !== undefined)
+      ? sizes.reduce<number>((sum, size) => sum + size!, 0)
+      : undefined;
+    const reportBytes = (index: number, bytes: number): void => {
+      loaded[index] = bytes;
+      onBatchByteProgress?.(
+        loaded.reduce((sum, value) => sum + value, 0),
+        totalBytes
+      );
+    };
+
+    // Files the provider stored, so a failure in afterUpload can report them
+    const stored: Array<UploadResult | undefined> = [];
+
+    const task = async (file: UploadInput, index: number): Promise<UploadResult> => {
+      const result = await this.uploadFile(
+        file,
+        onBatchByteProgress
+          ? {
+              ...uploadOptions,
+              onByteProgress: (bytes, total) => {
+                uploadOptions.onByteProgress?.(bytes, total);
+                reportBytes(index, bytes);
+              },
+            }
+          : uploadOptions,
+        (result) => {
+          stored[index] = result;
+        }
+      );
+      // Not every provider reports bytes, so count the file as complete
+      if (onBatchByteProgress) reportBytes(index, result.size);
+      return result;
+    };
+
+    return this.runBatch(files, options ?? {}, task, (index) => stored[index]);
+  }
+
+  /**
+   * Delete several files at once without stopping at the first failure.
+   * Each id goes through `delete()`, so plugin hooks run per file.
+   *
+   * @param ids - File identifiers
+   * @param options - Concurrency and progress options
+   * @returns The deleted ids and the ids that failed, both in input order
+   */
+  async deleteBatch(ids: string[], options?: BatchOptions): Promise<BatchResult<string, string>> {
+    return this.runBatch(ids, options ?? {}, async (id) => {
+      await this.delete(id);
+      return id;
+    });
+  }
+
+  /**
+   * Create credentials for a client to upload directly to the provider.
+   * Call this from a server route and return the result to the browser, where
+   * `uploadSigned` in `@fluxmedia/react` consumes it.
+   *
+   * @param options - File name, content type and limits for the upload
+   * @returns Promise resolving to the upload URL, method, fields and headers
+   * @throws {Error} If the provider does not support signed uploads
+   * @throws {MediaError} If the credentials cannot be created
+   *
+   * @example
+   * ```typescript
+   * const signed = await uploader.createSignedUpload({
+   *   filename: 'avatar.png',
+   *   contentType: 'image/png',
+   *   folder: 'avatars',
+   *   maxSize: 5 * 1024 * 1024,
+   * });
+   * return Response.json(signed);
+   * ```
+   */
+  async createSignedUpload(options: SignedUploadOptions): Promise<SignedUpload> {
+    if (!this.provider.features.capabilities.signedUploads || !this.provider.createSignedUpload) {
+      throw new Error(`Signed uploads are not supported by ${this.provider.name} provider`);
+    }
+    return this.provider.createSignedUpload(options);
+  }
+
   /**
    * Search for files (if provider supports search).
    *
@@ -297,6 +725,76 @@ export class MediaUploader {
     return this.provider.search(query);
   }
 
+  /**
+   * List one page of files (if provider supports listing).
+   *
+   * @param options - Prefix, cursor and page size
+   * @returns Promise resolving to a page of files and the cursor for the next page
+   * @throws {MediaError} If listing fails or not supported
+   */
+  async list(options?: ListOptions): Promise<ListResult> {
+    if (!this.provider.list) {
+      throw new Error(`List is not supported by ${this.provider.name} provider`);
+    }
+    return this.provider.list(options);
+  }
+
+  /**
+   * Iterate over every file matching a prefix, following cursors page by page.
+   *
+   * @param options - Prefix and page size
+   * @returns Async iterator of files
+   * @throws {MediaError} If listing fails or not supported
+   *
+   * @example
+   * ```typescript
+   * for await (const file of uploader.listAll({ prefix: 'avatars/' })) {
+   *   console.log(file.id, file.size);
+   * }
+   * ```
+   */
+  async *listAll(options?: Omit<ListOptions, 'cursor'>): AsyncGenerator<UploadResult, void> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.list({ ...options, ...(cursor && { cursor }) });
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * Move a file to another storage class (if provider supports it).
+   *
+   * @param id - File identifier
+   * @param storageClass - Target storage class, e.g. 'GLACIER' or 'STANDARD_IA'
+   * @returns Promise resolving to the file in its new storage class
+   * @throws {MediaError} If the transition fails or not supported
+   */
+  async transition(id: string, storageClass: string): Promise<UploadResult> {
+    if (!this.provider.transition) {
+      throw new Error(
+        `Storage class transitions are not supported by ${this.provider.name} provider`
+      );
+    }
+    return this.provider.transition(id, storageClass);
+  }
+
+  /**
+   * Request a temporary readable copy of an archived file (if provider supports it).
+   * Poll `get()` and check `metadata.restore` to see when it is ready.
+   *
+   * @param id - File identifier
+   * @param options - Days to keep the copy and retrieval tier
+   * @returns Promise resolving to the restore status
+   * @throws {MediaError} If the restore fails or not supported
+   */
+  async restore(id: string, options: RestoreOptions): Promise<RestoreStatus> {
+    if (!this.provider.restore) {
+      throw new Error(`Restore is not supported by ${this.provider.name} provider`);
+    }
+    return this.provider.restore(id, options);
+  }
+
   /**
    * Check if the provider supports a specific feature.
    *
@@ -322,17 +820,22 @@ export class MediaUploader {
    * Upload a file with transactional semantics.
    *
    * Performs the upload, then calls `onCommit`. If `onCommit` throws
-   * (e.g. a database insert fails), the uploaded file is automatically
-   * rolled back by calling `onRollback` or, if no custom rollback is
-   * provided, by deleting the uploaded file via `this.delete()`.
+   * (e.g. a database insert fails), or an afterUpload hook throws after the
+   * file was stored, the uploaded file is automatically rolled back by calling
+   * `onRollback` or, if no custom rollback is provided, by deleting the
+   * uploaded file via `this.delete()`.
    *
    * Requires the upload result to include `storageKey` for the default
-   * rollback to function correctly.
+   * rollback to function correctly. Deduplicated results are released through
+   * `this.delete()` like other uploads; the dedupe plugin's beforeDelete hook
+   * then keeps the file the earlier upload still uses.
    *
    * @param file - File to upload
    * @param options - Upload options
    * @param callbacks - Transaction callbacks
    * @returns The upload result and the commit result
+   * @throws {TransactionError} After rolling back, with the upload if it could
+   *   not be removed. Pass its `transactionContext` to `resumeRollback()`.
    *
    * @example
    * ```typescript
@@ -352,56 +855,427 @@ export class MediaUploader {
     options: UploadOptions,
     { onCommit, onRollback }: TransactionCallbacks<T>
   ): Promise<{ uploadResult: UploadResult; commitResult: T }> {
-    const uploadResult = await this.upload(file, options);
+    let stored: UploadResult | undefined;
+    let uploadResult: UploadResult;
+    try {
+      uploadResult = await this.uploadFile(file, options, (result) => {
+        stored = result;
+      });
+    } catch (uploadError) {
+      // Nothing to roll back unless the file was stored before a hook failed
+      if (!stored) throw uploadError;
+      const transactionContext = await this.rollbackUploads(
+        { stage: 'upload', error: uploadError, rolledBack: [], skipped: [], rollbackFailures: [] },
+        [stored],
+        onRollback
+      );
+      throw this.transactionError(transactionContext);
+    }
 
+    let error: Error;
     try {
       const commitResult = await onCommit(uploadResult);
       return { uploadResult, commitResult };
     } catch (commitError) {
-      const err = commitError instanceof Error ? commitError : new Error(String(commitError));
+      error = commitError instanceof Error ? commitError : new Error(String(commitError));
+    }
 
-      if (onRollback) {
-        try {
-          await onRollback(uploadResult, err);
-        } catch (rollbackError) {
-          console.error('[FluxMedia] Rollback failed:', rollbackError);
-        }
-      } else if (uploadResult.storageKey) {
-        // Default rollback: delete the uploaded file
-        try {
-          await this.delete(uploadResult.storageKey);
-        } catch (deleteError) {
-          console.error('[FluxMedia] Default rollback (delete) failed:', deleteError);
+    const transactionContext = await this.rollbackUploads(
+      { stage: 'commit', error, rolledBack: [], skipped: [], rollbackFailures: [] },
+      [uploadResult],
+      onRollback
+    );
+    throw this.transactionError(transactionContext);
+  }
+
+  /**
+   * Upload several files with all-or-nothing semantics.
+   *
+   * Uploads every file with `uploadBatch()`, then calls `onCommit` with all
+   * results. If any upload or the commit fails, every stored file (including
+   * one whose afterUpload hook failed) is rolled back by calling `onRollback`
+   * or, if no custom rollback is provided, by deleting it via `this.delete()`.
+   * Deduplicated results (`metadata.deduplicated`) belong to an earlier upload:
+   * they also go through `this.delete()`, so the plugin that supplied them can
+   * release its reference, and are reported as skipped.
+   *
+   * @param files - Files to upload
+   * @param options - Upload options applied to every file, plus batch options
+   * @param callbacks - Transaction callbacks
+   * @returns The upload results in input order and the commit result
+   * @throws {TransactionError} After rolling back, with the uploads that could
+   *   not be removed. Pass its `transactionContext` to `resumeRollback()`.
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await uploader.uploadBatchWithTransaction(photos, { folder: 'listings' }, {
+   *     onCommit: (results) => db.listings.create({ photos: results.map((r) => r.url) }),
+   *   });
+   * } catch (error) {
+   *   if (error instanceof TransactionError && !error.rollbackComplete) {
+   *     await queue.push('rollback', error.transactionContext);
+   *   }
+   *   throw error;
+   * }
+   * ```
+   */
+  async uploadBatchWithTransaction<T = void>(
+    files: UploadInput[],
+    options: BatchUploadOptions | undefined,
+    { onCommit, onRollback }: BatchTransactionCallbacks<T>
+  ): Promise<{ uploadResults: UploadResult[]; commitResult: T }> {
+    const { succeeded, failed } = await this.uploadBatch(files, options);
+
+    let stage: TransactionFailureContext['stage'] = 'upload';
+    let error: Error | undefined = failed[0]?.error;
+    if (!error) {
+      stage = 'commit';
+      try {
+        const commitResult = await onCommit(succeeded);
+        return { uploadResults: succeeded, commitResult };
+      } catch (commitError) {
+        error = commitError instanceof Error ? commitError : new Error(String(commitError));
+      }
+    }
+
+    // Failed items may still have stored the file before a hook threw
+    const stored = failed.flatMap((item) => (item.result ? [item.result] : []));
+    const transactionContext = await this.rollbackUploads(
+      { stage, error, rolledBack: [], skipped: [], rollbackFailures: [] },
+      [...succeeded, ...stored],
+      onRollback
+    );
+    throw this.transactionError(transactionContext);
+  }
+
+  /**
+   * Retry the rollback of uploads that a failed transaction left behind.
+   * The context can come from a `TransactionError` or from storage, so a
+   * rollback interrupted by a crash can be finished later.
+   *
+   * @param transactionContext - Context from a `TransactionError`
+   * @param onRollback - Custom rollback, as passed to the transaction
+   * @returns The updated context once every upload is rolled back
+   * @throws {TransactionError} If some uploads still could not be rolled back
+   */
+  async resumeRollback(
+    transactionContext: TransactionFailureContext,
+    onRollback?: BatchTransactionCallbacks<unknown>['onRollback']
+  ): Promise<TransactionFailureContext> {
+    const resumed = await this.rollbackUploads(
+      { ...transactionContext, rollbackFailures: [] },
+      transactionContext.rollbackFailures.map((failure) => failure.result),
+      onRollback
+    );
+    if (resumed.rollbackFailures.length > 0) {
+      throw this.transactionError(resumed);
+    }
+    return resumed;
+  }
+
+  /**
+   * Copy a file by downloading it from the source provider (with `download()`
+   * when supported, else from its signed or public URL) and uploading it to
+   * the destination under `destKey`.
+   * Tags and scalar metadata are carried over, as in `migrateMedia()`.
+   */
+  private async transfer(
+    id: string,
+    destination: MediaProvider,
+    destKey: string
+  ): Promise<UploadResult> {
+    const asset = await this.provider.get(id);
+    const { stream, contentType } = await openAsset(this.provider, id);
+
+    return destination.upload(stream, transferUploadOptions(destKey, asset.metadata, contentType));
+  }
+
+  /**
+   * Roll back each upload, adding it to the context's rolled back, skipped or
+   * failed list. Never throws.
+   */
+  private async rollbackUploads(
+    transactionContext: TransactionFailureContext,
+    results: UploadResult[],
+    onRollback: BatchTransactionCallbacks<unknown>['onRollback']
+  ): Promise<TransactionFailureContext> {
+    const error =
+      transactionContext.error instanceof Error
+        ? transactionContext.error
+        : new Error(String(transactionContext.error));
+    const rolledBack = [...transactionContext.rolledBack];
+    const skipped = [...transactionContext.skipped];
+    const rollbackFailures: RollbackFailure[] = [...transactionContext.rollbackFailures];
+
+    for (const result of results) {
+      try {
+        if (onRollback) {
+          await onRollback(result, error);
+        } else if (result.metadata.deduplicated === true) {
+          // Drop this upload's reference; plugin hooks keep the shared file
+          await this.delete(result.id);
+          skipped.push(result);
+          continue;
+        } else if (result.storageKey) {
+          await this.delete(result.storageKey);
+        } else {
+          throw new MediaError(
+            `Cannot roll back '${result.id}' without a storageKey`,
+            MediaErrorCode.DELETE_FAILED,
+            this.provider.name,
+            undefined,
+            { id: result.id }
+          );
         }
+        rolledBack.push(result);
+      } catch (rollbackError) {
+        rollbackFailures.push({ result, error: rollbackError });
       }
+    }
+
+    return { ...transactionContext, rolledBack, skipped, rollbackFailures };
+  }
 
-      throw err;
+  private transactionError(transactionContext: TransactionFailureContext): TransactionError {
+    const { stage, error, rolledBack, rollbackFailures } = transactionContext;
+    const reason = error instanceof Error ? error.message : String(error);
+    const attempted = rolledBack.length + rollbackFailures.length;
+    const rollback =
+      rollbackFailures.length > 0
+        ? `${rollbackFailures.length} of ${attempted} uploads could not be rolled back`
+        : `rolled back ${rolledBack.length} uploads`;
+    return new TransactionError(
+      `Transaction failed during ${stage}: ${reason} (${rollback})`,
+      this.provider.name,
+      transactionContext
+    );
+  }
+
+  /**
+   * Run `task` over every input with limited concurrency, collecting
+   * successes and failures in input order instead of throwing. `storedResult`
+   * supplies the result a failed task left behind, if any.
+   */
+  private async runBatch<TInput, TResult>(
+    inputs: TInput[],
+    options: BatchOptions,
+    task: (input: TInput, index: number) => Promise<TResult>,
+    storedResult?: (index: number) => TResult | undefined
+  ): Promise<BatchResult<TInput, TResult>> {
+    const outcomes: Array<{ result: TResult } | { error: Error }> = [];
+    let completed = 0;
+
+    await runWithConcurrency(inputs, options.concurrency ?? 5, async (input, index) => {
+      try {
+        outcomes[index] = { result: await task(input, index) };
+      } catch (error) {
+        outcomes[index] = { error: error instanceof Error ? error : new Error(String(error)) };
+      }
+      completed++;
+      options.onBatchProgress?.(completed, inputs.length);
+    });
+
+    const batch: BatchResult<TInput, TResult> = { succeeded: [], failed: [] };
+    outcomes.forEach((outcome, index) => {
+      if ('result' in outcome) {
+        batch.succeeded.push(outcome.result);
+      } else {
+        const result = storedResult?.(index);
+        batch.failed.push({
+          input: inputs[index]!,
+          error: outcome.error,
+          ...(result !== undefined && { result }),
+        });
+      }
+    });
+    return batch;
+  }
+
+  /**
+   * Report a failed upload to event listeners and plugin onError hooks.
+   */
+  private async reportUploadError(
+    error: unknown,
+    info: {
+      file: UploadInput;
+      options: UploadOptions;
+      phase: UploadPhase;
+      uploadResult?: UploadResult;
+    },
+    context: OperationContext
+  ): Promise<void> {
+    const err = this.emitUploadError(error, info.phase, context);
+    await this.plugins.runOnError(err, info, context);
+  }
+
+  /**
+   * Count a finished upload and emit 'upload:complete'.
+   */
+  private completeUpload(
+    result: UploadResult,
+    fileName: string,
+    startedAt: number,
+    context: OperationContext
+  ): UploadResult {
+    this.totals.uploads++;
+    this.totals.size += result.size;
+    this.events.emit('upload:complete', {
+      operationId: context.operationId,
+      fileId: result.id,
+      fileName,
+      fileSize: result.size,
+      format: result.format,
+      provider: result.provider,
+      duration: Date.now() - startedAt,
+      totalUploads: this.totals.uploads,
+      totalSize: this.totals.size,
+      result,
+    });
+    return result;
+  }
+
+  /**
+   * Emit `upload:error` and return the error as an Error instance.
+   */
+  private emitUploadError(error: unknown, phase: UploadPhase, context: OperationContext): Error {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.totals.errors++;
+    this.events.emit('upload:error', {
+      operationId: context.operationId,
+      operation: 'upload',
+      phase,
+      error: { message: err.message, name: err.name },
+      totalErrors: this.totals.errors,
+      cause: err,
+    });
+    return err;
+  }
+
+  /**
+   * Wrap the progress callbacks so they also emit `upload:progress`.
+   * Options are passed through untouched when nobody listens.
+   */
+  private withProgressEvents(options: UploadOptions, operationId: string): UploadOptions {
+    if (this.events.listenerCount('upload:progress') === 0) return options;
+
+    const { onProgress, onByteProgress } = options;
+    return {
+      ...options,
+      onProgress: (percent) => {
+        onProgress?.(percent);
+        this.events.emit('upload:progress', { operationId, percent });
+      },
+      onByteProgress: (loaded, total) => {
+        onByteProgress?.(loaded, total);
+        this.events.emit('upload:progress', { operationId, loaded, total });
+      },
+    };
+  }
+
+  /**
+   * File name reported in events: the File's own name, else `options.filename`.
+   */
+  private fileName(file: UploadInput, options?: UploadOptions): string {
+    if (typeof File !== 'undefined' && file instanceof File) return file.name;
+    return options?.filename ?? 'unknown';
+  }
+
+  /**
+   * Size of an upload input in bytes, or undefined for streams.
+   */
+  private inputSize(file: UploadInput): number | undefined {
+    if (file instanceof Buffer) return file.byteLength;
+    if (typeof File !== 'undefined' && file instanceof File) return file.size;
+    return undefined;
+  }
+
+  /**
+   * Upload to the first provider in the chain that accepts the file.
+   * Providers with an open circuit are skipped; a provider that fails with an
+   * error that qualifies for fallback hands over to the next one.
+   *
+   * @throws The last provider error, or a PROVIDER_ERROR when every circuit is open
+   */
+  private async uploadWithFallback(
+    file: UploadInput,
+    options: UploadOptions,
+    operationId: string
+  ): Promise<{ result: UploadResult; provider: MediaProvider }> {
+    const signal = options.signal;
+    if (signal?.aborted) throw this.abortError(this.provider.name);
+
+    let previous: { provider: MediaProvider; error: unknown } | undefined;
+    let lastError: unknown;
+
+    for (const provider of this.chain) {
+      const breaker = this.breakers.get(provider);
+      if (breaker && !breaker.tryAcquire()) {
+        // Route around the outage without waiting for the provider to fail
+        const error = new MediaError(
+          `Circuit open for ${provider.name}`,
+          MediaErrorCode.PROVIDER_ERROR,
+          provider.name
+        );
+        previous = { provider, error };
+        lastError ??= error;
+        continue;
+      }
+
+      if (previous) {
+        const error =
+          previous.error instanceof Error ? previous.error : new Error(String(previous.error));
+        this.config.onFallback?.(error, previous.provider.name, provider.name);
+        this.events.emit('fallback', {
+          operationId,
+          fromProvider: previous.provider.name,
+          toProvider: provider.name,
+          error,
+        });
+      }
+
+      try {
+        const result = await provider.upload(file, options);
+        breaker?.recordSuccess();
+        return { result, provider };
+      } catch (error) {
+        // Never fail over after an abort, and leave the circuit as it was
+        if (signal?.aborted) {
+          breaker?.release();
+          throw this.abortError(provider.name, error);
+        }
+        if (!this.shouldFallback(error)) {
+          breaker?.release();
+          throw error;
+        }
+        breaker?.recordFailure();
+        previous = { provider, error };
+        lastError = error;
+      }
     }
+
+    throw lastError;
   }
 
   /**
    * Determine whether a failed upload should fall back to the fallback provider.
    */
   private shouldFallback(error: unknown): boolean {
-    const fallbackCodes = this.config.fallbackOnErrors ?? MediaUploader.DEFAULT_FALLBACK_ERRORS;
-
-    if (error instanceof MediaError) {
-      return fallbackCodes.includes(error.code);
+    if (this.config.fallbackOnErrors && error instanceof MediaError) {
+      return this.config.fallbackOnErrors.includes(error.code);
     }
 
-    // Heuristic: common network-level error messages
-    if (error instanceof Error) {
-      const msg = error.message.toLowerCase();
-      return (
-        msg.includes('network') ||
-        msg.includes('timeout') ||
-        msg.includes('econnrefused') ||
-        msg.includes('econnreset') ||
-        msg.includes('socket hang up')
-      );
-    }
+    return isRetryableError(error);
+  }
 
-    return false;
+  /**
+   * Normalize a failure caused by the caller's AbortSignal to an ABORTED MediaError.
+   */
+  private abortError(provider: string, cause?: unknown): MediaError {
+    if (cause instanceof MediaError && cause.code === MediaErrorCode.ABORTED) {
+      return cause;
+    }
+    return new MediaError('Upload aborted', MediaErrorCode.ABORTED, provider, cause);
   }
 }
 
@@ -414,3 +1288,50 @@ export interface TransactionCallbacks<T> {
   /** Called if onCommit throws. Receives the upload result for cleanup. */
   onRollback?: (result: UploadResult, error: Error) => Promise<void>;
 }
+
+/**
+ * Callbacks for `uploadBatchWithTransaction()`.
+ */
+export interface BatchTransactionCallbacks<T> {
+  /** Called after every upload succeeds. Throw to trigger rollback. */
+  onCommit: (results: UploadResult[]) => Promise<T>;
+  /**
+   * Called once per uploaded file if an upload or onCommit fails. Replaces the
+   * default rollback, which deletes the file. Throw to report the file as not
+   * rolled back.
+   */
+  onRollback?: (result: UploadResult, error: Error) => Promise<void>;
+}
+
+/**
+ * Options for `uploadBatch()` and `deleteBatch()`.
+ */
+export interface BatchOptions {
+  /** Number of files processed at the same time (default: 5) */
+  concurrency?: number;
+  /** Called each time a file finishes, whether it succeeded or failed */
+  onBatchProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Options for `uploadBatch()`: upload options applied to every file, plus batch options.
+ */
+export interface BatchUploadOptions extends UploadOptions, BatchOptions {
+  /**
+   * Called with the bytes uploaded across the whole batch. Total is undefined
+   * when any input is a stream.
+   */
+  onBatchByteProgress?: (loaded: number, total: number | undefined) => void;
+}
+
+/**
+ * Outcome of a batch operation. Failed inputs are reported instead of thrown.
+ */
+export interface BatchResult<TInput, TResult> {
+  succeeded: TResult[];
+  /**
+   * Failed inputs. `result` is set when the file was stored before the failure
+   * (e.g. an afterUpload hook threw) and is still in the provider.
+   */
+  failed: Array<{ input: TInput; error: Error; result?: TResult }>;
+}
@@ -0,0 +1,379 @@
+import type { DownloadResult, MediaProvider, UploadOptions, UploadResult } from './types';
+import { MediaError, MediaErrorCode } from './errors';
+import { runWithConcurrency } from './concurrency';
+
+/**
+ * Outcome of one asset in a migration manifest.
+ */
+export interface MigrationManifestEntry {
+  status: 'migrated' | 'failed';
+  /** Id of the copy in the target provider */
+  targetId?: string;
+  /** Size in bytes of the source asset */
+  size?: number;
+  /** Error message of the last failed attempt */
+  error?: string;
+  /** ISO timestamp of the last attempt */
+  updatedAt: string;
+}
+
+/**
+ * JSON-serializable record of a migration, keyed by source id.
+ * Entries with status 'migrated' are skipped when the migration is resumed.
+ */
+export interface MigrationManifest {
+  version: 1;
+  source: string;
+  target: string;
+  entries: Record<string, MigrationManifestEntry>;
+}
+
+/**
+ * Where a migration keeps its manifest between runs.
+ */
+export interface MigrationManifestStore {
+  load(): Promise<MigrationManifest | undefined>;
+  save(manifest: MigrationManifest): Promise<void>;
+}
+
+/**
+ * Progress reported after each asset.
+ */
+export interface MigrationProgress {
+  /** Source id of the asset that was just processed */
+  id: string;
+  /** What happened to it. 'planned' is only reported in dry-run mode. */
+  status: 'migrated' | 'skipped' | 'failed' | 'planned';
+  /** Error message when status is 'failed' */
+  error?: string;
+  /** Assets processed so far */
+  processed: number;
+  migrated: number;
+  skipped: number;
+  failed: number;
+  /** Bytes of source assets migrated so far */
+  bytesMigrated: number;
+}
+
+/**
+ * Options for `migrateMedia()`.
+ */
+export interface MigrationOptions {
+  /**
+   * Provider to copy from. Must support `list()`.
+   */
+  source: MediaProvider;
+
+  /**
+   * Provider to copy to
+   */
+  target: MediaProvider;
+
+  /**
+   * Only migrate source ids starting with this prefix
+   */
+  prefix?: string;
+
+  /**
+   * Number of assets copied at the same time (default: 4)
+   */
+  concurrency?: number;
+
+  /**
+   * Page size used when listing the source (default: 100)
+   */
+  pageSize?: number;
+
+  /**
+   * Enumerate the source and report what would be migrated without uploading
+   * or writing the manifest.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Manifest used to resume a previous run: a JSON file path (Node.js) or a custom store.
+   * Without it the migration keeps its manifest in memory only.
+   */
+  manifest?: string | MigrationManifestStore;
+
+  /**
+   * Override the upload options for an asset. Receives the options derived
+   * from the source (folder, filename, tags, metadata, contentType).
+   */
+  mapOptions?: (asset: UploadResult, options: UploadOptions) => UploadOptions;
+
+  /**
+   * Called after each asset is processed
+   */
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+/**
+ * Summary returned by `migrateMedia()`.
+ */
+export interface MigrationReport {
+  dryRun: boolean;
+  migrated: number;
+  skipped: number;
+  failed: Array<{ id: string; error: string }>;
+  /** Source ids that would be migrated (dry run only) */
+  planned: string[];
+  bytesMigrated: number;
+  manifest: MigrationManifest;
+}
+
+/**
+ * Copy every asset from one provider to another.
+ *
+ * Assets are enumerated page by page with `source.list()`, read with
+ * `source.download()` (or fetched from `getSignedUrl()`/`getUrl()` when the
+ * source has no download support) and streamed into `target.upload()` under
+ * the same folder and filename. Tags (from `metadata.tags`) and the other
+ * scalar metadata values are carried over.
+ *
+ * A failed asset does not stop the migration; it is recorded in the manifest
+ * and retried on the next run. Assets already marked as migrated are skipped.
+ * A manifest written for a different source or target is rejected with
+ * INVALID_CONFIG.
+ *
+ * @example
+ * ```typescript
+ * const report = await migrateMedia({
+ *   source: new CloudinaryProvider({ ... }),
+ *   target: new R2Provider({ ... }),
+ *   manifest: './migration.json',
+ *   concurrency: 8,
+ *   onProgress: (p) => console.log(`${p.processed} done, ${p.failed} failed`),
+ * });
+ *
+ * report.manifest.entries['avatars/user-1']?.targetId;
+ * ```
+ */
+export async function migrateMedia(options: MigrationOptions): Promise<MigrationReport> {
+  const { source, target } = options;
+  if (!source.list) {
+    throw new Error(`List is not supported by ${source.name} provider`);
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const store =
+    typeof options.manifest === 'string'
+      ? createFileManifestStore(options.manifest)
+      : options.manifest;
+
+  const manifest: MigrationManifest = (await store?.load()) ?? {
+    version: 1,
+    source: source.name,
+    target: target.name,
+    entries: {},
+  };
+  if (manifest.source !== source.name || manifest.target !== target.name) {
+    // Resuming would skip assets that were only migrated to the other target
+    throw new MediaError(
+      `Manifest is for a migration from '${manifest.source}' to '${manifest.target}', not from '${source.name}' to '${target.name}'`,
+      MediaErrorCode.INVALID_CONFIG,
+      target.name,
+      undefined,
+      { manifestSource: manifest.source, manifestTarget: manifest.target }
+    );
+  }
+
+  const report: MigrationReport = {
+    dryRun,
+    migrated: 0,
+    skipped: 0,
+    failed: [],
+    planned: [],
+    bytesMigrated: 0,
+    manifest,
+  };
+  let processed = 0;
+
+  // Writes are chained so concurrent assets never interleave file writes
+  let saving = Promise.resolve();
+  const save = (): Promise<void> => {
+    if (!store || dryRun) return saving;
+    const write = saving.then(() => store.save(manifest));
+    // Keep the chain alive even if this write fails
+    saving = write.catch(() => undefined);
+    return write;
+  };
+
+  const processAsset = async (asset: UploadResult): Promise<void> => {
+    let status: MigrationProgress['status'];
+    let error: string | undefined;
+
+    if (manifest.entries[asset.id]?.status === 'migrated') {
+      status = 'skipped';
+      report.skipped++;
+    } else if (dryRun) {
+      status = 'planned';
+      report.planned.push(asset.id);
+    } else {
+      try {
+        const result = await copyAsset(source, target, asset, options.mapOptions);
+        manifest.entries[asset.id] = {
+          status: 'migrated',
+          targetId: result.id,
+          size: asset.size,
+          updatedAt: new Date().toISOString(),
+        };
+        status = 'migrated';
+        report.migrated++;
+        report.bytesMigrated += asset.size;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        manifest.entries[asset.id] = {
+          status: 'failed',
+          size: asset.size,
+          error,
+          updatedAt: new Date().toISOString(),
+        };
+        status = 'failed';
+        report.failed.push({ id: asset.id, error });
+      }
+      await save();
+    }
+
+    processed++;
+    options.onProgress?.({
+      id: asset.id,
+      status,
+      ...(error !== undefined && { error }),
+      processed,
+      migrated: report.migrated,
+      skipped: report.skipped,
+      failed: report.failed.length,
+      bytesMigrated: report.bytesMigrated,
+    });
+  };
+
+  let cursor: string | undefined;
+  do {
+    const page = await source.list({
+      ...(options.prefix && { prefix: options.prefix }),
+      ...(cursor && { cursor }),
+      limit: options.pageSize ?? 100,
+    });
+    await runWithConcurrency(page.items, concurrency, processAsset);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  await saving;
+  return report;
+}
+
+/**
+ * Manifest store that keeps the manifest in a JSON file. Node.js only.
+ */
+export function createFileManifestStore(path: string): MigrationManifestStore {
+  return {
+    async load() {
+      const { readFile } = await import('node:fs/promises');
+      try {
+        return JSON.parse(await readFile(path, 'utf8')) as MigrationManifest;
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    async save(manifest) {
+      const { writeFile, rename } = await import('node:fs/promises');
+      // Write then rename so an interrupted run never leaves a truncated manifest
+      const temp = `${path}.tmp`;
+      await writeFile(temp, JSON.stringify(manifest, null, 2));
+      await rename(temp, path);
+    },
+  };
+}
+
+async function copyAsset(
+  source: MediaProvider,
+  target: MediaProvider,
+  asset: UploadResult,
+  mapOptions: MigrationOptions['mapOptions']
+): Promise<UploadResult> {
+  const { stream, contentType } = await openAsset(source, asset.id);
+  const uploadOptions = transferUploadOptions(asset.id, asset.metadata, contentType);
+
+  return target.upload(stream, mapOptions ? mapOptions(asset, uploadOptions) : uploadOptions);
+}
+
+/**
+ * Open an asset for copying: `download()` when the provider supports it,
+ * else a fetch of its signed URL (which also works for private buckets) or
+ * its public URL. Shared with `MediaUploader` for cross-provider copies.
+ */
+export async function openAsset(source: MediaProvider, id: string): Promise<DownloadResult> {
+  if (source.download) {
+    return source.download(id);
+  }
+
+  const url = source.getSignedUrl ? await source.getSignedUrl(id) : source.getUrl(id);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new MediaError(
+      `Failed to download '${id}' (HTTP ${response.status})`,
+      response.status === 404 ? MediaErrorCode.FILE_NOT_FOUND : MediaErrorCode.NETWORK_ERROR,
+      source.name,
+      undefined,
+      { id, status: response.status }
+    );
+  }
+
+  return {
+    stream: response.body as ReadableStream<Uint8Array>,
+    contentType: response.headers.get('content-type') ?? undefined,
+  };
+}
+
+/**
+ * Upload options that store a copy of an asset under `key`: the folder and
+ * filename come from the key, tags and scalar metadata from the source.
+ * Shared with `MediaUploader` for cross-provider copies.
+ */
+export function transferUploadOptions(
+  key: string,
+  sourceMetadata: Record<string, unknown>,
+  contentType?: string
+): UploadOptions {
+  const separator = key.lastIndexOf('/');
+  const folder = separator === -1 ? undefined : key.slice(0, separator);
+  const { tags, metadata } = splitMetadata(sourceMetadata);
+
+  return {
+    filename: key.slice(separator + 1),
+    uniqueFilename: false,
+    ...(folder && { folder }),
+    ...(contentType && { contentType }),
+    ...(tags && { tags }),
+    metadata,
+  };
+}
+
+/**
+ * Separate tags from the rest of the metadata, keeping only scalar values
+ * that every provider can store.
+ */
+function splitMetadata(source: Record<string, unknown>): {
+  tags: string[] | undefined;
+  metadata: Record<string, string>;
+} {
+  const metadata: Record<string, string> = {};
+  let tags: string[] | undefined;
+
+  for (const [key, value] of Object.entries(source)) {
+    if (key === 'tags') {
+      if (Array.isArray(value) && value.length > 0) tags = value.map(String);
+    } else if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      metadata[key] = String(value);
+    }
+  }
+
+  return { tags, metadata };
+}
@@ -0,0 +1,355 @@
+import type {
+  DownloadOptions,
+  DownloadResult,
+  MediaProvider,
+  ProviderFeatures,
+  TransformationOptions,
+  UploadInput,
+  UploadOptions,
+  UploadResult,
+} from './types';
+import {
+  MediaError,
+  MediaErrorCode,
+  PartialMirrorError,
+  type MirrorReplicaFailure,
+} from './errors';
+
+/**
+ * When a mirrored upload counts as successful.
+ * - `primary`: the primary must succeed; replica failures are only reported
+ * - `quorum`: at least `quorum` providers (primary included) must succeed
+ */
+export type MirrorWritePolicy = 'primary' | 'quorum';
+
+/**
+ * Configuration for MirroredProvider.
+ */
+export interface MirroredProviderConfig {
+  /**
+   * Provider that serves reads and URLs. Under the 'quorum' policy, URLs for
+   * files the primary failed to store are served by a replica that holds them.
+   */
+  primary: MediaProvider;
+
+  /**
+   * Providers that receive a copy of every upload
+   */
+  replicas: MediaProvider[];
+
+  /**
+   * Write policy (default: 'primary')
+   */
+  policy?: MirrorWritePolicy;
+
+  /**
+   * Number of providers that must succeed under the 'quorum' policy.
+   * Defaults to a majority of all providers.
+   */
+  quorum?: number;
+
+  /**
+   * Provider name reported by the mirror (default: 'mirror')
+   */
+  name?: string;
+}
+
+/**
+ * Per-provider outcome of a mirrored upload, stored in `UploadResult.metadata.replicas`.
+ */
+export interface MirrorReplicaResult {
+  provider: string;
+  success: boolean;
+  id?: string;
+  url?: string;
+  error?: string;
+}
+
+/**
+ * A MediaProvider that writes every upload to a primary provider and a set of
+ * replicas at once, under the same id, for disaster recovery.
+ *
+ * Reads go to the primary and fall back to the replicas in order. When a
+ * quorum upload succeeds without the primary, `getUrl()` serves that id from
+ * the first replica that stored it; this is only remembered by this instance,
+ * so persist `UploadResult.url` rather than rebuilding URLs later. Deletes fan
+ * out to every provider and throw a `PartialMirrorError` if any of them fail.
+ * Stream inputs are buffered in memory so each provider can read them.
+ *
+ * @example
+ * ```typescript
+ * const mirror = new MirroredProvider({
+ *   primary: new S3Provider({ ... }),
+ *   replicas: [new R2Provider({ ... })],
+ *   policy: 'primary',
+ * });
+ *
+ * const result = await new MediaUploader(mirror).upload(file);
+ * result.metadata.replicas; // [{ provider: 's3', success: true, ... }, { provider: 'r2', ... }]
+ * ```
+ */
+export class MirroredProvider implements MediaProvider {
+  readonly name: string;
+  readonly features: ProviderFeatures;
+
+  private readonly primary: MediaProvider;
+  private readonly providers: MediaProvider[];
+  private readonly policy: MirrorWritePolicy;
+  private readonly quorum: number;
+  /** Ids the primary failed to store, with the replica that serves them */
+  private readonly servedBy = new Map<string, MediaProvider>();
+
+  constructor(config: MirroredProviderConfig) {
+    this.name = config.name ?? 'mirror';
+    this.primary = config.primary;
+    this.providers = [config.primary, ...config.replicas];
+    this.policy = config.policy ?? 'primary';
+    this.quorum = Math.min(
+      config.quorum ?? Math.floor(this.providers.length / 2) + 1,
+      this.providers.length
+    );
+
+    // Every provider has to accept the file, so the smallest limit applies
+    this.features = {
+      ...config.primary.features,
+      storage: {
+        ...config.primary.features.storage,
+        maxFileSize: Math.min(...this.providers.map((p) => p.features.storage.maxFileSize)),
+      },
+    };
+  }
+
+  async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    const input = this.isStreamInput(file) ? await this.readStream(file) : file;
+
+    // Pick the filename once so every provider stores the file under the same id
+    const { onProgress, onByteProgress, ...rest } = options ?? {};
+    const filename = this.generateFilename(options);
+    const replicaOptions: UploadOptions = { ...rest, filename, uniqueFilename: false };
+    const primaryOptions: UploadOptions = {
+      ...replicaOptions,
+      ...(onProgress && { onProgress }),
+      ...(onByteProgress && { onByteProgress }),
+    };
+
+    const settled = await Promise.allSettled(
+      this.providers.map((provider) =>
+        provider.upload(input, provider === this.primary ? primaryOptions : replicaOptions)
+      )
+    );
+
+    const replicas: MirrorReplicaResult[] = settled.map((outcome, index) => {
+      const provider = this.providers[index]!.name;
+      return outcome.status === 'fulfilled'
+        ? { provider, success: true, id: outcome.value.id, url: outcome.value.url }
+        : { provider, success: false, error: this.describeError(outcome.reason) };
+    });
+
+    const successes = settled.flatMap((outcome) =>
+      outcome.status === 'fulfilled' ? [outcome.value] : []
+    );
+    const primaryResult = settled[0]!.status === 'fulfilled' ? settled[0]!.value : undefined;
+    const satisfied =
+      this.policy === 'primary' ? primaryResult !== undefined : successes.length >= this.quorum;
+
+    const aborted = options?.signal?.aborted ?? false;
+    if (aborted || !satisfied) {
+      // Don't leave orphaned copies behind for a write the caller sees as failed
+      await Promise.allSettled(
+        settled.flatMap((outcome, index) =>
+          outcome.status === 'fulfilled' ? [this.providers[index]!.delete(outcome.value.id)] : []
+        )
+      );
+
+      if (aborted) {
+        throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name);
+      }
+
+      throw new PartialMirrorError(
+        this.policy === 'primary'
+          ? `Mirrored upload failed on primary provider '${this.primary.name}'`
+          : `Mirrored upload succeeded on ${successes.length} of ${this.providers.length} providers; ${this.quorum} required`,
+        this.name,
+        {
+          operation: 'upload',
+          ids: [options?.folder ? `${options.folder}/${filename}` : filename],
+          succeeded: replicas.filter((r) => r.success).map((r) => r.provider),
+          failed: this.collectFailures(settled),
+        }
+      );
+    }
+
+    const result = primaryResult ?? successes[0]!;
+    if (primaryResult) {
+      this.servedBy.delete(result.id);
+    } else {
+      const index = settled.findIndex((outcome) => outcome.status === 'fulfilled');
+      this.servedBy.set(result.id, this.providers[index]!);
+    }
+    return { ...result, metadata: { ...result.metadata, replicas } };
+  }
+
+  async delete(id: string): Promise<void> {
+    const settled = await Promise.allSettled(this.providers.map((provider) => provider.delete(id)));
+    this.servedBy.delete(id);
+    this.throwIfAnyFailed(settled, [id]);
+  }
+
+  /**
+   * Read from the primary, falling back to each replica in order.
+   */
+  async get(id: string): Promise<UploadResult> {
+    let firstError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await provider.get(id);
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    throw firstError;
+  }
+
+  /**
+   * Download from the primary, falling back to each replica that supports downloads.
+   */
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    const providers = this.providers.filter((provider) => provider.download);
+    if (providers.length === 0) {
+      throw new Error(`Downloads are not supported by ${this.name} provider`);
+    }
+
+    let firstError: unknown;
+    for (const provider of providers) {
+      try {
+        return await provider.download!(id, options);
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    throw firstError;
+  }
+
+  /**
+   * URL from the primary, or from the replica that stored the file when the
+   * primary failed to (quorum policy).
+   */
+  getUrl(id: string, transform?: TransformationOptions): string {
+    return (this.servedBy.get(id) ?? this.primary).getUrl(id, transform);
+  }
+
+  async uploadMultiple(files: File[] | Buffer[], options?: UploadOptions): Promise<UploadResult[]> {
+    const results: UploadResult[] = [];
+    for (const file of files) {
+      results.push(await this.upload(file, options));
+    }
+    return results;
+  }
+
+  async deleteMultiple(ids: string[]): Promise<void> {
+    const settled = await Promise.allSettled(
+      this.providers.map((provider) => provider.deleteMultiple(ids))
+    );
+    for (const id of ids) this.servedBy.delete(id);
+    this.throwIfAnyFailed(settled, ids);
+  }
+
+  /**
+   * The mirrored providers, primary first.
+   */
+  get native(): readonly MediaProvider[] {
+    return this.providers;
+  }
+
+  private throwIfAnyFailed(settled: PromiseSettledResult<unknown>[], ids: string[]): void {
+    const failed = this.collectFailures(settled);
+    if (failed.length === 0) return;
+
+    throw new PartialMirrorError(
+      `Mirrored delete failed on ${failed.map((f) => f.provider).join(', ')}`,
+      this.name,
+      {
+        operation: 'delete',
+        ids,
+        succeeded: this.providers
+          .filter((_, index) => settled[index]!.status === 'fulfilled')
+          .map((provider) => provider.name),
+        failed,
+      }
+    );
+  }
+
+  private collectFailures(settled: PromiseSettledResult<unknown>[]): MirrorReplicaFailure[] {
+    return settled.flatMap((outcome, index) =>
+      outcome.status === 'rejected'
+        ? [{ provider: this.providers[index]!.name, error: outcome.reason }]
+        : []
+    );
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private generateFilename(options?: UploadOptions): string {
+    const baseFilename = options?.filename ?? this.generateRandomId();
+    // When uniqueFilename is true (default) or not specified, append a short ID
+    const shouldMakeUnique = options?.uniqueFilename !== false;
+    return shouldMakeUnique && options?.filename
+      ? `${baseFilename}-${this.generateShortId()}`
+      : baseFilename;
+  }
+
+  private generateRandomId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  }
+
+  private generateShortId(): string {
+    // Use Web Crypto API for better randomness when available
+    const cryptoObj = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+    if (cryptoObj?.getRandomValues) {
+      const buffer = new Uint8Array(6);
+      cryptoObj.getRandomValues(buffer);
+      return Array.from(buffer)
+        .map((b) => b.toString(36).padStart(2, '0'))
+        .join('')
+        .substring(0, 8);
+    }
+    // Fallback with timestamp for better uniqueness
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${timestamp}${random}`.substring(0, 12);
+  }
+
+  /**
+   * Check whether the given input is a stream (Node.js Readable or Web ReadableStream).
+   */
+  private isStreamInput(file: UploadInput): boolean {
+    if (file instanceof Buffer) return false;
+    if (typeof File !== 'undefined' && file instanceof File) return false;
+    return (
+      typeof (file as import('node:stream').Readable).pipe === 'function' ||
+      typeof (file as ReadableStream).getReader === 'function'
+    );
+  }
+
+  /**
+   * Buffer a stream so it can be uploaded to several providers.
+   */
+  private async readStream(file: UploadInput): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    if (typeof (file as ReadableStream<Uint8Array>).getReader === 'function') {
+      const reader = (file as ReadableStream<Uint8Array>).getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(Buffer.from(value));
+      }
+    } else {
+      for await (const chunk of file as AsyncIterable<Buffer | string>) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+      }
+    }
+    return Buffer.concat(chunks);
+  }
+}
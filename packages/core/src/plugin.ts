@@ -1,10 +1,94 @@
-import type { UploadOptions, UploadResult, UploadInput, TransformationOptions } from './types';
+import type {
+  UploadOptions,
+  UploadResult,
+  UploadInput,
+  TransformationOptions,
+  DownloadOptions,
+  DownloadResult,
+} from './types';
+import { createOperationId } from './events';
 
 /**
  * Discriminator for which phase of the upload lifecycle an error occurred in.
  */
 export type UploadPhase = 'beforeUpload' | 'upload' | 'afterUpload';
 
+/**
+ * Per-operation context as seen by one plugin.
+ * It travels next to the upload options, never inside them, so nothing
+ * stored here reaches the provider or the stored object's metadata.
+ */
+export interface PluginContext {
+  /** Id shared by every hook call of the same upload. */
+  readonly operationId: string;
+
+  /** State private to this plugin for the current operation. */
+  readonly state: Record<string, unknown>;
+
+  /**
+   * Read another plugin's state for the current operation.
+   * Returns undefined when that plugin has stored nothing.
+   */
+  stateOf(pluginName: string): Readonly<Record<string, unknown>> | undefined;
+}
+
+/**
+ * State for one operation, split into a namespace per plugin.
+ * Created by MediaUploader for each upload and discarded when it settles.
+ */
+export class OperationContext {
+  readonly operationId: string;
+
+  private readonly namespaces = new Map<string, Record<string, unknown>>();
+
+  constructor(operationId: string = createOperationId()) {
+    this.operationId = operationId;
+  }
+
+  /**
+   * Get the view of this context handed to a plugin's hooks.
+   */
+  forPlugin(name: string): PluginContext {
+    let state = this.namespaces.get(name);
+    if (!state) {
+      state = {};
+      this.namespaces.set(name, state);
+    }
+
+    return {
+      operationId: this.operationId,
+      state,
+      stateOf: (pluginName) => {
+        const other = this.namespaces.get(pluginName);
+        return other && Object.keys(other).length > 0 ? other : undefined;
+      },
+    };
+  }
+}
+
+/**
+ * What a beforeUpload hook may return.
+ * `result` skips the provider upload and resolves the upload with that
+ * result instead, e.g. when the same file is already stored. Later
+ * beforeUpload hooks and all afterUpload hooks are then skipped.
+ */
+export interface BeforeUploadResult {
+  file: UploadInput;
+  options: UploadOptions;
+  result?: UploadResult | undefined;
+}
+
+/**
+ * What a beforeDelete hook may return besides a new id.
+ * `skip` keeps the file in the provider but still resolves the delete, e.g.
+ * while other uploads share the file. Later beforeDelete hooks, all
+ * afterDelete hooks and the 'delete' event are then skipped.
+ */
+export interface BeforeDeleteResult {
+  id: string;
+  skip?: boolean | undefined;
+}
+
 /**
  * Plugin lifecycle hooks.
  * Plugins can hook into various stages of the upload lifecycle.
@@ -12,18 +96,20 @@ export type UploadPhase = 'beforeUpload' | 'upload' | 'afterUpload';
 export interface PluginHooks {
   /**
    * Called before upload starts.
-   * Can modify options or return early to cancel upload.
+   * Can modify the file and options, or return a `result` to skip the upload.
+   * State for later hooks belongs in `context.state`, not in `options.metadata`.
    */
   beforeUpload?: (
     file: UploadInput,
-    options: UploadOptions
-  ) => Promise<{ file: UploadInput; options: UploadOptions } | void>;
+    options: UploadOptions,
+    context: PluginContext
+  ) => Promise<BeforeUploadResult | void>;
 
   /**
    * Called after successful upload.
    * Can modify or enrich the result.
    */
-  afterUpload?: (result: UploadResult) => Promise<UploadResult>;
+  afterUpload?: (result: UploadResult, context: PluginContext) => Promise<UploadResult>;
 
   /**
    * Called when an error occurs during the upload lifecycle.
@@ -43,19 +129,43 @@ export interface PluginHooks {
       phase: UploadPhase;
       /** Present when phase === 'afterUpload' — the result from the successful upload. */
       uploadResult?: UploadResult;
-    }
+    },
+    pluginContext: PluginContext
   ) => Promise<void>;
 
   /**
    * Called before delete operation.
+   * Can return a new id, or `{ id, skip: true }` to keep the file stored.
    */
-  beforeDelete?: (id: string) => Promise<string | void>;
+  beforeDelete?: (id: string) => Promise<string | BeforeDeleteResult | void>;
 
   /**
    * Called after successful delete.
    */
   afterDelete?: (id: string) => Promise<void>;
 
+  /**
+   * Called before a copy operation.
+   * Can change the source id or destination key.
+   */
+  beforeCopy?: (id: string, destKey: string) => Promise<{ id: string; destKey: string } | void>;
+
+  /**
+   * Called after a successful copy with the new file and the source id.
+   */
+  afterCopy?: (result: UploadResult, sourceId: string) => Promise<void>;
+
+  /**
+   * Called before a move operation.
+   * Can change the source id or destination key.
+   */
+  beforeMove?: (id: string, destKey: string) => Promise<{ id: string; destKey: string } | void>;
+
+  /**
+   * Called after a successful move with the moved file and its previous id.
+   */
+  afterMove?: (result: UploadResult, sourceId: string) => Promise<void>;
+
   /**
    * Called before URL generation.
    * Can modify transformation options.
@@ -64,6 +174,21 @@ export interface PluginHooks {
     id: string,
     transform?: TransformationOptions
   ) => Promise<{ id: string; transform?: TransformationOptions } | void>;
+
+  /**
+   * Called before a download.
+   * Can change the id or download options.
+   */
+  beforeDownload?: (
+    id: string,
+    options: DownloadOptions
+  ) => Promise<{ id: string; options: DownloadOptions } | void>;
+
+  /**
+   * Called after the download response is available, before the stream is read.
+   * Can replace the result, e.g. to wrap the stream.
+   */
+  afterDownload?: (result: DownloadResult, id: string) => Promise<DownloadResult | void>;
 }
 
 /**
@@ -103,11 +228,36 @@ export interface FluxMediaPlugin {
    * Critical plugins (e.g. validation) should leave this false (the default).
    */
   optional?: boolean | undefined;
+
+  /**
+   * Execution priority. Plugins with a higher priority run first when no
+   * `before`/`after`/`requires` constraint decides (default: 0).
+   */
+  priority?: number | undefined;
+
+  /**
+   * Names of plugins this plugin must run before, when they are registered.
+   */
+  before?: string[] | undefined;
+
+  /**
+   * Names of plugins this plugin must run after, when they are registered.
+   */
+  after?: string[] | undefined;
+
+  /**
+   * Names of plugins that must be registered for this plugin to work.
+   * This plugin always runs after them.
+   */
+  requires?: string[] | undefined;
 }
 
 /**
  * Plugin manager with caching and duplicate override behavior.
  * Last registered plugin with the same name takes precedence.
+ *
+ * Hooks run in dependency order: `requires` and `after` constraints first,
+ * then `before`, then `priority`, then registration order.
  */
 export class PluginManager {
   /**
@@ -135,38 +285,68 @@ export class PluginManager {
    * @returns Reference to this manager for chaining
    */
   async register(plugin: FluxMediaPlugin): Promise<this> {
-    const existing = this.pluginCache.get(plugin.name);
-
-    // Clean up existing plugin if being overridden
-    if (existing?.destroy) {
-      await existing.destroy();
-    }
-
-    // Register new plugin
-    this.pluginCache.set(plugin.name, plugin);
-    this.cacheInvalid = true;
-
-    // Initialize the plugin
-    if (plugin.init) {
-      await plugin.init();
-    }
+    // Validate the resulting order before touching any registered plugin
+    this.checkOrder([plugin]);
 
+    const existing = this.swap(plugin);
+    await this.activate(plugin, existing);
     return this;
   }
 
   /**
    * Register multiple plugins at once.
-   * Later plugins override earlier ones with the same name.
+   * Later plugins override earlier ones with the same name. Dependencies are
+   * checked against the whole set, so the array order does not matter.
    *
    * @param plugins - Array of plugins to register
    */
   async registerAll(plugins: FluxMediaPlugin[]): Promise<this> {
-    for (const plugin of plugins) {
-      await this.register(plugin);
+    this.checkOrder(plugins);
+
+    // Every plugin is active right away; destroy and init then run in order
+    const replaced = plugins.map((plugin) => this.swap(plugin));
+    for (const [index, plugin] of plugins.entries()) {
+      await this.activate(plugin, replaced[index]);
     }
     return this;
   }
 
+  /**
+   * Check that registering `plugins` alongside the current ones gives a valid
+   * execution order, without registering anything.
+   *
+   * @throws {Error} If a required plugin is missing or the constraints form a cycle
+   */
+  checkOrder(plugins: FluxMediaPlugin[]): void {
+    const candidate = new Map(this.pluginCache);
+    for (const plugin of plugins) {
+      candidate.set(plugin.name, plugin);
+    }
+    sortPlugins([...candidate.values()]);
+  }
+
+  /**
+   * Put a plugin in the cache, returning the plugin it overrides.
+   */
+  private swap(plugin: FluxMediaPlugin): FluxMediaPlugin | undefined {
+    const existing = this.pluginCache.get(plugin.name);
+    this.pluginCache.set(plugin.name, plugin);
+    this.cacheInvalid = true;
+    return existing;
+  }
+
+  /**
+   * Clean up an overridden plugin, then initialize its replacement.
+   */
+  private async activate(plugin: FluxMediaPlugin, existing?: FluxMediaPlugin): Promise<void> {
+    if (existing?.destroy) {
+      await existing.destroy();
+    }
+    if (plugin.init) {
+      await plugin.init();
+    }
+  }
+
   /**
    * Unregister a plugin by name.
    *
@@ -176,6 +356,13 @@ export class PluginManager {
     const plugin = this.pluginCache.get(name);
     if (!plugin) return false;
 
+    const dependents = [...this.pluginCache.values()].filter((p) => p.requires?.includes(name));
+    if (dependents.length > 0) {
+      throw new Error(
+        `Cannot unregister plugin '${name}': required by ${dependents.map((p) => `'${p.name}'`).join(', ')}`
+      );
+    }
+
     if (plugin.destroy) {
       await plugin.destroy();
     }
@@ -230,11 +417,13 @@ export class PluginManager {
 
   /**
    * Run beforeUpload hooks for all plugins.
+   * Stops at the first hook that returns a `result`.
    */
   async runBeforeUpload(
     file: UploadInput,
-    options: UploadOptions
-  ): Promise<{ file: UploadInput; options: UploadOptions }> {
+    options: UploadOptions,
+    context: OperationContext = new OperationContext()
+  ): Promise<BeforeUploadResult> {
     this.rebuildCacheIfNeeded();
 
     let currentFile = file;
@@ -243,10 +432,17 @@ export class PluginManager {
     for (const plugin of this.orderedPlugins) {
       if (plugin.hooks.beforeUpload) {
         try {
-          const result = await plugin.hooks.beforeUpload(currentFile, currentOptions);
+          const result = await plugin.hooks.beforeUpload(
+            currentFile,
+            currentOptions,
+            context.forPlugin(plugin.name)
+          );
           if (result) {
             currentFile = result.file;
             currentOptions = result.options;
+            if (result.result) {
+              return { file: currentFile, options: currentOptions, result: result.result };
+            }
           }
         } catch (err) {
           if (plugin.optional) {
@@ -267,7 +463,10 @@ export class PluginManager {
   /**
    * Run afterUpload hooks for all plugins.
    */
-  async runAfterUpload(result: UploadResult): Promise<UploadResult> {
+  async runAfterUpload(
+    result: UploadResult,
+    context: OperationContext = new OperationContext()
+  ): Promise<UploadResult> {
     this.rebuildCacheIfNeeded();
 
     let currentResult = result;
@@ -275,7 +474,10 @@ export class PluginManager {
     for (const plugin of this.orderedPlugins) {
       if (plugin.hooks.afterUpload) {
         try {
-          currentResult = await plugin.hooks.afterUpload(currentResult);
+          currentResult = await plugin.hooks.afterUpload(
+            currentResult,
+            context.forPlugin(plugin.name)
+          );
         } catch (err) {
           if (plugin.optional) {
             console.warn(
@@ -302,14 +504,15 @@ export class PluginManager {
       options: UploadOptions;
       phase: UploadPhase;
       uploadResult?: UploadResult;
-    }
+    },
+    operationContext: OperationContext = new OperationContext()
   ): Promise<void> {
     this.rebuildCacheIfNeeded();
 
     for (const plugin of this.orderedPlugins) {
       if (plugin.hooks.onError) {
         try {
-          await plugin.hooks.onError(error, context);
+          await plugin.hooks.onError(error, context, operationContext.forPlugin(plugin.name));
         } catch (err) {
           if (plugin.optional) {
             console.warn(`[FluxMedia] Optional plugin '${plugin.name}' failed in onError:`, err);
@@ -324,7 +527,7 @@ export class PluginManager {
   /**
    * Run beforeDelete hooks for all plugins.
    */
-  async runBeforeDelete(id: string): Promise<string> {
+  async runBeforeDelete(id: string): Promise<BeforeDeleteResult> {
     this.rebuildCacheIfNeeded();
 
     let currentId = id;
@@ -333,8 +536,13 @@ export class PluginManager {
       if (plugin.hooks.beforeDelete) {
         try {
           const result = await plugin.hooks.beforeDelete(currentId);
-          if (result) {
+          if (typeof result === 'string') {
             currentId = result;
+          } else if (result) {
+            currentId = result.id;
+            if (result.skip) {
+              return { id: currentId, skip: true };
+            }
           }
         } catch (err) {
           if (plugin.optional) {
@@ -349,7 +557,7 @@ export class PluginManager {
       }
     }
 
-    return currentId;
+    return { id: currentId };
   }
 
   /**
@@ -376,6 +584,65 @@ export class PluginManager {
     }
   }
 
+  /**
+   * Run beforeCopy or beforeMove hooks for all plugins.
+   */
+  async runBeforeTransfer(
+    hook: 'beforeCopy' | 'beforeMove',
+    id: string,
+    destKey: string
+  ): Promise<{ id: string; destKey: string }> {
+    this.rebuildCacheIfNeeded();
+
+    let current = { id, destKey };
+
+    for (const plugin of this.orderedPlugins) {
+      const handler = plugin.hooks[hook];
+      if (handler) {
+        try {
+          const result = await handler(current.id, current.destKey);
+          if (result) {
+            current = result;
+          }
+        } catch (err) {
+          if (plugin.optional) {
+            console.warn(`[FluxMedia] Optional plugin '${plugin.name}' failed in ${hook}:`, err);
+          } else {
+            throw err;
+          }
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Run afterCopy or afterMove hooks for all plugins.
+   */
+  async runAfterTransfer(
+    hook: 'afterCopy' | 'afterMove',
+    result: UploadResult,
+    sourceId: string
+  ): Promise<void> {
+    this.rebuildCacheIfNeeded();
+
+    for (const plugin of this.orderedPlugins) {
+      const handler = plugin.hooks[hook];
+      if (handler) {
+        try {
+          await handler(result, sourceId);
+        } catch (err) {
+          if (plugin.optional) {
+            console.warn(`[FluxMedia] Optional plugin '${plugin.name}' failed in ${hook}:`, err);
+          } else {
+            throw err;
+          }
+        }
+      }
+    }
+  }
+
   /**
    * Run beforeGetUrl hooks for all plugins.
    */
@@ -412,17 +679,160 @@ export class PluginManager {
     return { id: currentId, transform: currentTransform };
   }
 
+  /**
+   * Run beforeDownload hooks for all plugins.
+   */
+  async runBeforeDownload(
+    id: string,
+    options: DownloadOptions
+  ): Promise<{ id: string; options: DownloadOptions }> {
+    this.rebuildCacheIfNeeded();
+
+    let current = { id, options };
+
+    for (const plugin of this.orderedPlugins) {
+      if (plugin.hooks.beforeDownload) {
+        try {
+          const result = await plugin.hooks.beforeDownload(current.id, current.options);
+          if (result) {
+            current = result;
+          }
+        } catch (err) {
+          if (plugin.optional) {
+            console.warn(
+              `[FluxMedia] Optional plugin '${plugin.name}' failed in beforeDownload:`,
+              err
+            );
+          } else {
+            throw err;
+          }
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Run afterDownload hooks for all plugins.
+   */
+  async runAfterDownload(result: DownloadResult, id: string): Promise<DownloadResult> {
+    this.rebuildCacheIfNeeded();
+
+    let currentResult = result;
+
+    for (const plugin of this.orderedPlugins) {
+      if (plugin.hooks.afterDownload) {
+        try {
+          currentResult = (await plugin.hooks.afterDownload(currentResult, id)) ?? currentResult;
+        } catch (err) {
+          if (plugin.optional) {
+            console.warn(
+              `[FluxMedia] Optional plugin '${plugin.name}' failed in afterDownload:`,
+              err
+            );
+          } else {
+            throw err;
+          }
+        }
+      }
+    }
+
+    return currentResult;
+  }
+
   /**
    * Rebuild ordered plugin list from cache if needed.
    */
   private rebuildCacheIfNeeded(): void {
     if (!this.cacheInvalid) return;
 
-    this.orderedPlugins = Array.from(this.pluginCache.values());
+    this.orderedPlugins = sortPlugins(Array.from(this.pluginCache.values()));
     this.cacheInvalid = false;
   }
 }
 
+/**
+ * Order plugins so every `requires`/`after`/`before` constraint holds.
+ * Among plugins that are free to run, the highest priority goes first, then
+ * the earliest registered.
+ *
+ * @throws {Error} If a required plugin is missing or the constraints form a cycle
+ */
+function sortPlugins(plugins: FluxMediaPlugin[]): FluxMediaPlugin[] {
+  const byName = new Map(plugins.map((plugin) => [plugin.name, plugin]));
+
+  // Edges point from a plugin to the plugins that must run after it
+  const successors = new Map<string, Set<string>>(plugins.map((p) => [p.name, new Set()]));
+  const addEdge = (from: string, to: string): void => {
+    if (byName.has(from) && byName.has(to)) successors.get(from)!.add(to);
+  };
+
+  for (const plugin of plugins) {
+    for (const dependency of plugin.requires ?? []) {
+      if (!byName.has(dependency)) {
+        throw new Error(
+          `Plugin '${plugin.name}' requires '${dependency}', which is not registered`
+        );
+      }
+      addEdge(dependency, plugin.name);
+    }
+    for (const name of plugin.after ?? []) addEdge(name, plugin.name);
+    for (const name of plugin.before ?? []) addEdge(plugin.name, name);
+  }
+
+  const inDegree = new Map(plugins.map((p) => [p.name, 0]));
+  for (const targets of successors.values()) {
+    for (const target of targets) inDegree.set(target, inDegree.get(target)! + 1);
+  }
+
+  const position = new Map(plugins.map((p, index) => [p.name, index]));
+  const compare = (a: FluxMediaPlugin, b: FluxMediaPlugin): number =>
+    (b.priority ?? 0) - (a.priority ?? 0) || position.get(a.name)! - position.get(b.name)!;
+
+  const ready = plugins.filter((p) => inDegree.get(p.name) === 0);
+  const sorted: FluxMediaPlugin[] = [];
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const plugin = ready.shift()!;
+    sorted.push(plugin);
+    for (const name of successors.get(plugin.name)!) {
+      inDegree.set(name, inDegree.get(name)! - 1);
+      if (inDegree.get(name) === 0) ready.push(byName.get(name)!);
+    }
+  }
+
+  if (sorted.length < plugins.length) {
+    const cycle = findCycle(
+      plugins.filter((p) => inDegree.get(p.name)! > 0).map((p) => p.name),
+      successors
+    );
+    throw new Error(`Plugin ordering cycle: ${cycle.join(' -> ')}`);
+  }
+
+  return sorted;
+}
+
+/**
+ * Walk the unsorted plugins until a name repeats and return that loop.
+ * Every unsorted plugin has an unsorted predecessor, so following
+ * predecessors from any of them must eventually revisit one.
+ */
+function findCycle(remaining: string[], successors: Map<string, Set<string>>): string[] {
+  const predecessor = (name: string): string =>
+    remaining.find((candidate) => successors.get(candidate)!.has(name))!;
+
+  const path: string[] = [];
+  let current = remaining[0]!;
+  while (!path.includes(current)) {
+    path.push(current);
+    current = predecessor(current);
+  }
+
+  // path runs against the edges; the loop starts where `current` first appeared
+  return [...path.slice(path.indexOf(current)), current].reverse();
+}
+
 /**
  * Create a simple plugin from hooks.
  * Utility function for quick plugin creation.
@@ -430,12 +840,14 @@ export class PluginManager {
 export function createPlugin(
   name: string,
   hooks: PluginHooks,
-  options?: { version?: string; optional?: boolean }
+  options?: Pick<
+    FluxMediaPlugin,
+    'version' | 'optional' | 'priority' | 'before' | 'after' | 'requires'
+  >
 ): FluxMediaPlugin {
   return {
     name,
-    version: options?.version,
     hooks,
-    optional: options?.optional,
+    ...options,
   };
 }
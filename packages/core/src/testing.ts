@@ -1,6 +1,14 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import type { MediaProvider, UploadResult } from './types';
 
+export {
+  InMemoryProvider,
+  type InMemoryProviderOptions,
+  type InMemoryFailure,
+  type InMemoryOperation,
+  type InMemoryFile,
+} from './in-memory-provider';
+
 /**
  * Mock result factory for testing
  */
@@ -1,3 +1,5 @@
+import type { PartialUploadContext } from './errors';
+
 /**
  * Result returned after a successful media upload.
  * Normalized across all providers to ensure consistent API.
@@ -98,6 +100,43 @@ export interface TransformationOptions {
   fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
 }
 
+/**
+ * Server-side encryption for stored files.
+ * - `sse-s3`: keys managed by the storage service
+ * - `sse-kms`: a KMS key, optionally with an encryption context and an S3 Bucket Key
+ * - `sse-c`: a 256-bit key sent with every request and never stored by the service
+ */
+export type ServerSideEncryption =
+  | { type: 'sse-s3' }
+  | {
+      type: 'sse-kms';
+      /** KMS key id or ARN (default: the AWS managed `aws/s3` key) */
+      keyId?: string | undefined;
+      /** Encryption context, required again by KMS key policies that check it */
+      context?: Record<string, string> | undefined;
+      /** Use an S3 Bucket Key to cut KMS request costs */
+      bucketKey?: boolean | undefined;
+    }
+  | {
+      type: 'sse-c';
+      /** 32-byte key, as bytes, a base64 string or a 32-character string */
+      customerKey: string | Uint8Array;
+    };
+
+/**
+ * Encryption a provider applied to a stored file, reported in
+ * `UploadResult.metadata.encryption`. Never includes the customer key itself.
+ */
+export interface AppliedEncryption {
+  type: ServerSideEncryption['type'];
+  /** KMS key that encrypted the file (`sse-kms`) */
+  keyId?: string | undefined;
+  /** Whether an S3 Bucket Key was used (`sse-kms`) */
+  bucketKey?: boolean | undefined;
+  /** Base64 MD5 of the customer key, to tell which key is needed (`sse-c`) */
+  customerKeyMd5?: string | undefined;
+}
+
 /**
  * Options for uploading a file.
  */
@@ -150,6 +189,47 @@ export interface UploadOptions {
    */
   uniqueFilename?: boolean;
 
+  /**
+   * Only write when nothing exists at the key yet; otherwise fail with a
+   * `CONFLICT` error instead of overwriting. Mostly useful together with
+   * `uniqueFilename: false`.
+   */
+  ifNotExists?: boolean;
+
+  /**
+   * Only overwrite the file at the key when its ETag (from `download()` or
+   * `list()`) still equals this value; otherwise fail with a `CONFLICT` error.
+   */
+  ifMatch?: string;
+
+  /**
+   * Keep the uploaded parts when a multipart upload fails, and throw a
+   * `PartialUploadError` whose context can be passed to `resumeFrom`.
+   * Supported by S3 and R2.
+   */
+  resumable?: boolean;
+
+  /**
+   * Continue the multipart upload described by a `PartialUploadError`'s
+   * context, uploading only the parts the provider does not have yet. Pass the
+   * same file as the failed attempt. Supported by S3 and R2 for Buffer and
+   * File inputs; streams start over under the same key.
+   */
+  resumeFrom?: PartialUploadContext | undefined;
+
+  /**
+   * Server-side encryption for this file, overriding the provider's configured
+   * default. Supported by S3 and the S3-compatible providers, for the modes the
+   * service offers.
+   */
+  encryption?: ServerSideEncryption | undefined;
+
+  /**
+   * Storage class to write the file to, e.g. 'STANDARD_IA' or 'GLACIER' on
+   * S3 and 'STANDARD_IA' on R2 (default: the provider's standard class)
+   */
+  storageClass?: string | undefined;
+
   /**
    * Explicit content type. Required when uploading streams
    * (where magic-byte detection is not possible without buffering).
@@ -193,6 +273,221 @@ export interface SearchOptions {
   offset?: number;
 }
 
+/**
+ * Options for listing files with cursor-based pagination.
+ */
+export interface ListOptions {
+  /**
+   * Only return files whose id starts with this prefix (e.g. 'avatars/')
+   */
+  prefix?: string;
+
+  /**
+   * Opaque cursor returned as `nextCursor` by a previous call
+   */
+  cursor?: string;
+
+  /**
+   * Maximum number of files per page. Providers may cap this
+   * (S3/R2: 1000, Cloudinary: 500).
+   */
+  limit?: number;
+}
+
+/**
+ * A page of files returned by `list()`.
+ */
+export interface ListResult {
+  /**
+   * Files in this page
+   */
+  items: UploadResult[];
+
+  /**
+   * Cursor for the next page, or undefined when there are no more files
+   */
+  nextCursor?: string | undefined;
+}
+
+/**
+ * Options for generating an expiring signed URL to a file.
+ */
+export interface SignedUrlOptions {
+  /**
+   * Seconds until the URL expires
+   * @default 3600
+   */
+  expiresIn?: number;
+
+  /**
+   * Transformations to apply (providers without transformation support ignore this)
+   */
+  transform?: TransformationOptions;
+
+  /**
+   * Whether browsers should display the file or download it
+   */
+  disposition?: 'inline' | 'attachment';
+
+  /**
+   * Filename to save as when `disposition` is 'attachment'
+   */
+  filename?: string;
+}
+
+/**
+ * Options for reading a file's bytes back from the provider.
+ */
+export interface DownloadOptions {
+  /**
+   * Byte range to read, inclusive on both ends like an HTTP Range header.
+   * Omit `end` to read to the end of the file.
+   */
+  range?: { start: number; end?: number };
+
+  /**
+   * SSE-C key the file was uploaded with, when it differs from the provider's
+   * configured key. Other encryption modes need nothing to read.
+   */
+  encryption?: ServerSideEncryption | undefined;
+
+  /**
+   * Abort signal for cancelling the download
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for restoring an archived file.
+ */
+export interface RestoreOptions {
+  /**
+   * Days the restored copy stays readable before it is archived again
+   */
+  days: number;
+
+  /**
+   * Retrieval speed; faster tiers cost more (default: 'standard')
+   */
+  tier?: 'expedited' | 'standard' | 'bulk';
+}
+
+/**
+ * Whether an archived file can be read, reported by `restore()` and in
+ * `UploadResult.metadata.restore` from `get()`.
+ */
+export interface RestoreStatus {
+  /**
+   * - archived: must be restored before it can be read
+   * - in-progress: a restore was requested and has not finished
+   * - restored: a temporary copy is readable until `expiresAt`
+   */
+  status: 'archived' | 'in-progress' | 'restored';
+
+  /**
+   * When the restored copy expires
+   */
+  expiresAt?: Date | undefined;
+}
+
+/**
+ * A file's bytes and the headers describing them.
+ */
+export interface DownloadResult {
+  /**
+   * File contents (only the requested range when `range` was set)
+   */
+  stream: ReadableStream<Uint8Array>;
+
+  /**
+   * MIME type of the file
+   */
+  contentType?: string | undefined;
+
+  /**
+   * Number of bytes in `stream`
+   */
+  contentLength?: number | undefined;
+
+  /**
+   * Entity tag identifying this version of the file
+   */
+  etag?: string | undefined;
+
+  /**
+   * Content-Range of a partial read, e.g. 'bytes 0-1023/4096'
+   */
+  contentRange?: string | undefined;
+}
+
+/**
+ * Options for creating signed upload credentials on the server.
+ */
+export interface SignedUploadOptions {
+  /**
+   * Name of the file being uploaded, including its extension
+   */
+  filename: string;
+
+  /**
+   * MIME type the client will upload with
+   */
+  contentType: string;
+
+  /**
+   * Folder/path where the file should be stored
+   */
+  folder?: string;
+
+  /**
+   * Maximum accepted file size in bytes.
+   * Enforced by the signature where the provider supports it.
+   */
+  maxSize?: number;
+
+  /**
+   * Seconds until the credentials expire
+   * @default 3600
+   */
+  expiresIn?: number;
+}
+
+/**
+ * Credentials a client can use to upload directly to the provider.
+ * This is the shape `uploadSigned` in `@fluxmedia/react` expects from a sign endpoint.
+ */
+export interface SignedUpload {
+  /**
+   * URL to send the upload request to
+   */
+  uploadUrl: string;
+
+  /**
+   * HTTP method: 'PUT' sends the raw file body, 'POST' sends multipart form data
+   */
+  method: 'PUT' | 'POST';
+
+  /**
+   * Form fields to send along with the file (POST uploads)
+   */
+  fields?: Record<string, string>;
+
+  /**
+   * Headers the client must send with the upload (PUT uploads)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Identifier the file will have once uploaded
+   */
+  publicId: string;
+
+  /**
+   * Public URL of the file once uploaded
+   */
+  publicUrl?: string;
+}
+
 /**
  * Feature matrix describing provider capabilities.
  * Use this to check what features are supported before using them.
@@ -303,7 +598,8 @@ export interface MediaProvider {
    *
    * @param ids - Array of file identifiers
    * @returns Promise that resolves when all deletions are complete
-   * @throws {MediaError} If any deletion fails
+   * @throws {MediaError} If any deletion fails; providers that delete in bulk
+   *   throw a BatchDeleteError listing which files failed
    */
   deleteMultiple(ids: string[]): Promise<void>;
 
@@ -316,6 +612,85 @@ export interface MediaProvider {
    */
   search?(query: SearchOptions): Promise<UploadResult[]>;
 
+  /**
+   * List files page by page (optional - not all providers support this).
+   *
+   * @param options - Prefix, cursor and page size
+   * @returns Promise resolving to a page of files and the cursor for the next page
+   * @throws {MediaError} If listing fails
+   */
+  list?(options?: ListOptions): Promise<ListResult>;
+
+  /**
+   * Copy a file to a new key within the same provider (optional).
+   *
+   * @param id - Source file identifier
+   * @param destKey - Destination key / public_id (e.g. 'archive/photo')
+   * @returns Promise resolving to the copied file
+   * @throws {MediaError} If the source is missing or the copy fails
+   */
+  copy?(id: string, destKey: string): Promise<UploadResult>;
+
+  /**
+   * Move (rename) a file to a new key within the same provider (optional).
+   *
+   * @param id - Source file identifier
+   * @param destKey - Destination key / public_id
+   * @returns Promise resolving to the moved file
+   * @throws {MediaError} If the source is missing or the move fails
+   */
+  move?(id: string, destKey: string): Promise<UploadResult>;
+
+  /**
+   * Create credentials for a client to upload directly to the provider (optional).
+   * Only available when `features.capabilities.signedUploads` is true.
+   *
+   * @param options - File name, content type and limits for the upload
+   * @returns Promise resolving to the upload URL, method, fields and headers
+   * @throws {MediaError} If the credentials cannot be created
+   */
+  createSignedUpload?(options: SignedUploadOptions): Promise<SignedUpload>;
+
+  /**
+   * Generate an expiring URL for a private file (optional).
+   *
+   * @param id - File identifier
+   * @param options - Expiry, transformations and content disposition
+   * @returns Promise resolving to the signed URL
+   * @throws {MediaError} If the URL cannot be signed
+   */
+  getSignedUrl?(id: string, options?: SignedUrlOptions): Promise<string>;
+
+  /**
+   * Stream a file's bytes from the provider (optional).
+   *
+   * @param id - File identifier
+   * @param options - Byte range and abort signal
+   * @returns Promise resolving to the byte stream with its content type, length and ETag
+   * @throws {MediaError} If the file is missing or the download fails
+   */
+  download?(id: string, options?: DownloadOptions): Promise<DownloadResult>;
+
+  /**
+   * Move a file to another storage class in place (optional).
+   *
+   * @param id - File identifier
+   * @param storageClass - Target storage class, e.g. 'GLACIER' or 'STANDARD_IA'
+   * @returns Promise resolving to the file in its new storage class
+   * @throws {MediaError} If the file is missing, archived or the class is invalid
+   */
+  transition?(id: string, storageClass: string): Promise<UploadResult>;
+
+  /**
+   * Request a temporary readable copy of an archived file (optional).
+   *
+   * @param id - File identifier
+   * @param options - How long to keep the copy and how fast to retrieve it
+   * @returns Promise resolving to the restore status
+   * @throws {MediaError} If the file is missing or not archived
+   */
+  restore?(id: string, options: RestoreOptions): Promise<RestoreStatus>;
+
   /**
    * Access to the native provider client for advanced usage.
    * Type is provider-specific (e.g., cloudinary.v2, S3Client).
@@ -0,0 +1,25 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { LocalProvider } from '../local-provider';
+import { createProviderContractTests } from '@fluxmedia/core/testing';
+
+describe('LocalProvider', () => {
+    let rootDir: string;
+
+    beforeAll(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluxmedia-local-contract-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    createProviderContractTests('Local', () => {
+        return new LocalProvider({
+            rootDir,
+            baseUrl: 'http://localhost:3000/uploads',
+        });
+    });
+});
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { MediaError, MediaErrorCode } from '@fluxmedia/core';
+import { LocalProvider } from '../local-provider';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+    'base64'
+);
+
+describe('LocalProvider', () => {
+    let rootDir: string;
+    let provider: LocalProvider;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluxmedia-local-'));
+        provider = new LocalProvider({ rootDir, baseUrl: 'http://localhost:3000/uploads/' });
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should require rootDir and baseUrl', () => {
+        expect(() => new LocalProvider({ rootDir: '', baseUrl: '' })).toThrow(
+            'Missing required local configuration: rootDir, baseUrl'
+        );
+    });
+
+    describe('upload', () => {
+        it('should write a buffer to disk and detect its type', async () => {
+            const result = await provider.upload(PNG, {
+                folder: 'avatars',
+                filename: 'me',
+                uniqueFilename: false,
+            });
+
+            expect(result.id).toBe('avatars/me');
+            expect(result.storageKey).toBe('avatars/me');
+            expect(result.format).toBe('png');
+            expect(result.size).toBe(PNG.byteLength);
+            expect(result.url).toBe('http://localhost:3000/uploads/avatars/me');
+            expect(result.metadata.contentType).toBe('image/png');
+            await expect(fs.readFile(path.join(rootDir, 'avatars/me'))).resolves.toEqual(PNG);
+        });
+
+        it('should write a Node.js stream and report byte progress', async () => {
+            const progress: number[] = [];
+            const result = await provider.upload(Readable.from([Buffer.from('ab'), Buffer.from('cd')]), {
+                filename: 'notes',
+                contentType: 'text/plain',
+                onByteProgress: (loaded) => progress.push(loaded),
+            });
+
+            expect(result.size).toBe(4);
+            expect(result.format).toBe('plain');
+            expect(progress).toEqual([2, 4]);
+            await expect(fs.readFile(path.join(rootDir, result.id), 'utf8')).resolves.toBe('abcd');
+        });
+
+        it('should write a web ReadableStream', async () => {
+            const stream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode('hello'));
+                    controller.close();
+                },
+            });
+
+            const result = await provider.upload(stream, { contentType: 'text/plain' });
+
+            expect(result.size).toBe(5);
+        });
+
+        it('should reject files over maxFileSize without leaving anything behind', async () => {
+            const small = new LocalProvider({ rootDir, baseUrl: '/uploads', maxFileSize: 3 });
+
+            await expect(
+                small.upload(Readable.from([Buffer.from('toolarge')]), {
+                    filename: 'big',
+                    uniqueFilename: false,
+                })
+            ).rejects.toMatchObject({ code: MediaErrorCode.FILE_TOO_LARGE });
+            await expect(small.upload(Buffer.from('toolarge'))).rejects.toBeInstanceOf(MediaError);
+
+            expect(await fs.readdir(rootDir)).toEqual([]);
+            expect(small.features.storage.maxFileSize).toBe(3);
+        });
+
+        it('should reject with ABORTED and remove the partial file when aborted', async () => {
+            const controller = new AbortController();
+            async function* chunks() {
+                yield Buffer.from('ab');
+                controller.abort();
+                yield Buffer.from('cd');
+            }
+
+            await expect(
+                provider.upload(Readable.from(chunks()), {
+                    filename: 'partial',
+                    contentType: 'text/plain',
+                    signal: controller.signal,
+                })
+            ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+            expect(await fs.readdir(rootDir)).toEqual([]);
+        });
+
+        it('should refuse to overwrite with ifNotExists', async () => {
+            const options = { filename: 'report', uniqueFilename: false, ifNotExists: true };
+            await provider.upload(Buffer.from('first'), options);
+
+            await expect(provider.upload(Buffer.from('second'), options)).rejects.toMatchObject({
+                code: MediaErrorCode.CONFLICT,
+            });
+            await expect(fs.readFile(path.join(rootDir, 'report'), 'utf8')).resolves.toBe('first');
+            expect((await fs.readdir(rootDir)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+        });
+
+        it('should only overwrite a file whose ETag matches ifMatch', async () => {
+            const options = { filename: 'report', uniqueFilename: false };
+            await provider.upload(Buffer.from('v1'), options);
+            const { etag } = await provider.download('report');
+
+            await expect(
+                provider.upload(Buffer.from('v2'), { ...options, ifMatch: 'W/"stale"' })
+            ).rejects.toMatchObject({ code: MediaErrorCode.CONFLICT });
+            await provider.upload(Buffer.from('v2'), { ...options, ifMatch: etag! });
+            await expect(fs.readFile(path.join(rootDir, 'report'), 'utf8')).resolves.toBe('v2');
+        });
+
+        it('should refuse keys that escape rootDir', async () => {
+            await expect(
+                provider.upload(PNG, { folder: '../outside', uniqueFilename: false })
+            ).rejects.toMatchObject({ code: MediaErrorCode.INVALID_CONFIG });
+        });
+
+        it('should refuse keys reserved for the metadata index', async () => {
+            for (const filename of ['.fluxmedia-index.json', '.fluxmedia-index.json.abc123.tmp']) {
+                await expect(
+                    provider.upload(PNG, { filename, uniqueFilename: false })
+                ).rejects.toMatchObject({ code: MediaErrorCode.INVALID_CONFIG });
+            }
+            await expect(provider.get('./.fluxmedia-index.json')).rejects.toMatchObject({
+                code: MediaErrorCode.INVALID_CONFIG,
+            });
+        });
+    });
+
+    describe('get', () => {
+        it('should return indexed metadata for an uploaded file', async () => {
+            const uploaded = await provider.upload(PNG, {
+                tags: ['a'],
+                metadata: { owner: 'user-1' },
+            });
+
+            const result = await provider.get(uploaded.id);
+
+            expect(result.size).toBe(PNG.byteLength);
+            expect(result.metadata).toMatchObject({ owner: 'user-1', tags: ['a'] });
+        });
+
+        it('should survive a fresh provider instance reading the sidecar index', async () => {
+            const uploaded = await provider.upload(PNG, { tags: ['persisted'] });
+
+            const reopened = new LocalProvider({ rootDir, baseUrl: '/uploads' });
+            const result = await reopened.get(uploaded.id);
+
+            expect(result.metadata.tags).toEqual(['persisted']);
+        });
+
+        it('should throw FILE_NOT_FOUND for unknown ids', async () => {
+            await expect(provider.get('missing')).rejects.toMatchObject({
+                code: MediaErrorCode.FILE_NOT_FOUND,
+            });
+        });
+    });
+
+    describe('delete', () => {
+        it('should remove the file and its index entry', async () => {
+            const uploaded = await provider.upload(PNG);
+
+            await provider.delete(uploaded.id);
+
+            await expect(provider.get(uploaded.id)).rejects.toMatchObject({
+                code: MediaErrorCode.FILE_NOT_FOUND,
+            });
+            expect(await provider.search({})).toEqual([]);
+        });
+
+        it('should treat deleting a missing file as success', async () => {
+            await expect(provider.delete('never-existed')).resolves.toBeUndefined();
+        });
+    });
+
+    describe('search', () => {
+        beforeEach(async () => {
+            await provider.upload(PNG, { folder: 'a', filename: 'one', tags: ['x', 'y'] });
+            await provider.upload(PNG, { folder: 'a', filename: 'two', tags: ['x'] });
+            await provider.upload(PNG, { folder: 'b', filename: 'three', tags: ['y'] });
+        });
+
+        it('should filter by folder', async () => {
+            const results = await provider.search({ folder: 'a' });
+            expect(results).toHaveLength(2);
+        });
+
+        it('should require every tag', async () => {
+            const results = await provider.search({ tags: ['x', 'y'] });
+            expect(results.map((r) => r.id)).toEqual([expect.stringMatching(/^a\/one-/)]);
+        });
+
+        it('should apply query, offset and limit', async () => {
+            expect(await provider.search({ query: 'THREE' })).toHaveLength(1);
+            expect(await provider.search({ offset: 1, limit: 1 })).toHaveLength(1);
+        });
+    });
+
+    describe('list', () => {
+        it('should page through indexed files in key order', async () => {
+            for (const name of ['c', 'a', 'b']) {
+                await provider.upload(PNG, { folder: 'imgs', filename: name, uniqueFilename: false });
+            }
+            await provider.upload(PNG, { folder: 'other', filename: 'z', uniqueFilename: false });
+
+            const first = await provider.list({ prefix: 'imgs/', limit: 2 });
+            expect(first.items.map((item) => item.id)).toEqual(['imgs/a', 'imgs/b']);
+            expect(first.nextCursor).toBe('imgs/b');
+
+            const second = await provider.list({ prefix: 'imgs/', limit: 2, cursor: first.nextCursor! });
+            expect(second.items.map((item) => item.id)).toEqual(['imgs/c']);
+            expect(second.nextCursor).toBeUndefined();
+        });
+    });
+
+    describe('copy and move', () => {
+        it('should copy a file and its index entry', async () => {
+            const source = await provider.upload(PNG, {
+                folder: 'imgs',
+                filename: 'a',
+                uniqueFilename: false,
+                tags: ['cat'],
+            });
+
+            const copied = await provider.copy(source.id, 'archive/a');
+
+            expect(copied).toMatchObject({ id: 'archive/a', size: PNG.byteLength, format: 'png' });
+            expect(await fs.readFile(path.join(rootDir, 'archive/a'))).toEqual(PNG);
+            expect(await provider.get(source.id)).toMatchObject({ id: 'imgs/a' });
+            expect(await provider.search({ folder: 'archive', tags: ['cat'] })).toHaveLength(1);
+        });
+
+        it('should rename a file on move', async () => {
+            const source = await provider.upload(PNG, { folder: 'imgs' });
+
+            await provider.move(source.id, 'archive/moved');
+
+            await expect(fs.stat(path.join(rootDir, source.id))).rejects.toThrow();
+            expect((await provider.list()).items.map((item) => item.id)).toEqual(['archive/moved']);
+        });
+
+        it('should throw FILE_NOT_FOUND for a missing source', async () => {
+            await expect(provider.copy('missing', 'dest')).rejects.toMatchObject({
+                code: MediaErrorCode.FILE_NOT_FOUND,
+            });
+        });
+    });
+
+    describe('download', () => {
+        it('should stream the file with its content type and length', async () => {
+            const uploaded = await provider.upload(PNG);
+
+            const result = await provider.download(uploaded.id);
+
+            expect(Buffer.from(await new Response(result.stream).arrayBuffer())).toEqual(PNG);
+            expect(result).toMatchObject({ contentType: 'image/png', contentLength: PNG.byteLength });
+            expect(result.etag).toMatch(/^W\/"[0-9a-f]+-[0-9a-f]+"$/);
+        });
+
+        it('should read a byte range', async () => {
+            const uploaded = await provider.upload(Buffer.from('hello world'), {
+                contentType: 'text/plain',
+            });
+
+            const result = await provider.download(uploaded.id, { range: { start: 0, end: 4 } });
+
+            expect(await new Response(result.stream).text()).toBe('hello');
+            expect(result).toMatchObject({ contentLength: 5, contentRange: 'bytes 0-4/11' });
+        });
+
+        it('should throw FILE_NOT_FOUND for unknown ids', async () => {
+            await expect(provider.download('missing')).rejects.toMatchObject({
+                code: MediaErrorCode.FILE_NOT_FOUND,
+            });
+        });
+    });
+});
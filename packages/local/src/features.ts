@@ -0,0 +1,29 @@
+import type { ProviderFeatures } from '@fluxmedia/core';
+
+/**
+ * Feature matrix for the local filesystem provider.
+ * Local storage is storage-only - no transformation support.
+ */
+export const LocalFeatures: ProviderFeatures = {
+    transformations: {
+        resize: false,
+        crop: false,
+        format: false,
+        quality: false,
+        blur: false,
+        rotate: false,
+        effects: false,
+    },
+    capabilities: {
+        signedUploads: false,
+        directUpload: false,
+        multipartUpload: false,
+        videoProcessing: false,
+        aiTagging: false,
+        facialDetection: false,
+    },
+    storage: {
+        maxFileSize: Number.MAX_SAFE_INTEGER,
+        supportedFormats: ['*'], // All formats
+    },
+};
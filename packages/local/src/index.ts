@@ -0,0 +1,3 @@
+export { LocalProvider } from './local-provider';
+export { LocalFeatures } from './features';
+export type { LocalConfig } from './types';
@@ -0,0 +1,710 @@
+import type {
+  MediaProvider,
+  UploadOptions,
+  UploadResult,
+  UploadInput,
+  TransformationOptions,
+  SearchOptions,
+  ListOptions,
+  ListResult,
+  ProviderFeatures,
+  DownloadOptions,
+  DownloadResult,
+} from '@fluxmedia/core';
+import { MediaError, MediaErrorCode, createMediaError, getFileType } from '@fluxmedia/core';
+import * as fs from 'node:fs/promises';
+import { createReadStream, createWriteStream } from 'node:fs';
+import * as path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { LocalFeatures } from './features';
+import type { LocalConfig, LocalIndexEntry } from './types';
+
+const DEFAULT_INDEX_FILE = '.fluxmedia-index.json';
+
+/**
+ * Local filesystem provider implementation.
+ * Stores files on disk and keeps folder, tag and metadata information in a
+ * sidecar JSON index so files can be searched without a database.
+ */
+export class LocalProvider implements MediaProvider {
+  readonly name: string = 'local';
+  readonly features: ProviderFeatures;
+
+  private readonly config: Required<LocalConfig>;
+  private readonly rootDir: string;
+
+  /** In-memory copy of the sidecar index, loaded lazily. */
+  private index: Map<string, LocalIndexEntry> | null = null;
+  private indexPromise: Promise<Map<string, LocalIndexEntry>> | null = null;
+
+  /** Serializes index writes so concurrent uploads don't clobber each other. */
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(config: LocalConfig) {
+    const required: (keyof LocalConfig)[] = ['rootDir', 'baseUrl'];
+    const missing = required.filter((field) => !config[field]);
+
+    if (missing.length > 0) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        'local',
+        new Error(`Missing required local configuration: ${missing.join(', ')}`)
+      );
+    }
+
+    this.config = {
+      rootDir: config.rootDir,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+      indexFile: config.indexFile ?? DEFAULT_INDEX_FILE,
+      maxFileSize: config.maxFileSize ?? LocalFeatures.storage.maxFileSize,
+    };
+    this.rootDir = path.resolve(config.rootDir);
+    this.features = {
+      ...LocalFeatures,
+      storage: { ...LocalFeatures.storage, maxFileSize: this.config.maxFileSize },
+    };
+  }
+
+  /**
+   * Get config info for debugging
+   */
+  getConfigInfo() {
+    return {
+      rootDir: this.rootDir,
+      baseUrl: this.config.baseUrl,
+      indexFile: this.config.indexFile,
+    };
+  }
+
+  async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    try {
+      const key = this.generateKey(options);
+      const filePath = this.resolvePath(key);
+
+      const isStream = this.isStreamInput(file);
+
+      // For streams, skip magic-byte detection; use contentType from options
+      const { contentType, extension } = isStream
+        ? {
+            contentType: options?.contentType ?? 'application/octet-stream',
+            extension: options?.contentType ? this.extensionFromMime(options.contentType) : '',
+          }
+        : await this.getContentType(file as File | Buffer);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temp file first so a failed or oversized upload never
+      // leaves a truncated file at the final key
+      const tempPath = `${filePath}.${this.generateShortId()}.tmp`;
+      let size: number;
+      try {
+        size = await this.writeInput(file, tempPath, options);
+        // Don't publish a file the caller gave up on
+        options?.signal?.throwIfAborted();
+        await this.publish(tempPath, filePath, key, options);
+      } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+      }
+
+      const entry: LocalIndexEntry = {
+        size,
+        format: extension,
+        contentType,
+        folder: options?.folder,
+        tags: options?.tags ?? [],
+        metadata: options?.metadata ?? {},
+        createdAt: new Date().toISOString(),
+      };
+      await this.updateIndex((index) => {
+        index.set(key, entry);
+      });
+
+      options?.onProgress?.(100);
+
+      return this.createResult(key, entry);
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.UPLOAD_FAILED);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.rm(this.resolvePath(id), { force: true });
+      await this.updateIndex((index) => {
+        index.delete(id);
+      });
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.DELETE_FAILED);
+    }
+  }
+
+  async get(id: string): Promise<UploadResult> {
+    try {
+      const filePath = this.resolvePath(id);
+      const stats = await fs.stat(filePath);
+      const index = await this.loadIndex();
+
+      // Files copied into rootDir by hand have no index entry; describe them from stat()
+      const entry: LocalIndexEntry = index.get(id) ?? {
+        size: stats.size,
+        format: path.extname(id).slice(1),
+        contentType: 'application/octet-stream',
+        tags: [],
+        metadata: {},
+        createdAt: stats.birthtime.toISOString(),
+      };
+
+      return this.createResult(id, { ...entry, size: stats.size });
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.FILE_NOT_FOUND);
+    }
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    // Local storage doesn't support transformations, ignore transform parameter
+    const encoded = id.split('/').map(encodeURIComponent).join('/');
+    return `${this.config.baseUrl}/${encoded}`;
+  }
+
+  /**
+   * Stream a file from disk. The ETag is a weak validator built from size and
+   * modification time (see `etagOf`).
+   */
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    try {
+      const filePath = this.resolvePath(id);
+      const stats = await fs.stat(filePath);
+      const index = await this.loadIndex();
+
+      let start = 0;
+      let end = stats.size - 1;
+      if (options?.range) {
+        start = options.range.start;
+        end = Math.min(options.range.end ?? end, end);
+        if (start < 0 || start >= stats.size || end < start) {
+          throw createMediaError(
+            MediaErrorCode.PROVIDER_ERROR,
+            this.name,
+            new Error(`Range ${start}-${options.range.end ?? ''} is not satisfiable for ${id}`)
+          );
+        }
+      }
+
+      const stream = createReadStream(filePath, {
+        ...(options?.range && { start, end }),
+        ...(options?.signal && { signal: options.signal }),
+      });
+
+      return {
+        stream: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+        contentType: index.get(id)?.contentType ?? 'application/octet-stream',
+        contentLength: options?.range ? end - start + 1 : stats.size,
+        etag: this.etagOf(stats),
+        ...(options?.range && { contentRange: `bytes ${start}-${end}/${stats.size}` }),
+      };
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.FILE_NOT_FOUND);
+    }
+  }
+
+  async uploadMultiple(
+    files: File[] | Buffer[],
+    options?: UploadOptions & {
+      concurrency?: number;
+      onBatchProgress?: (completed: number, total: number) => void;
+    }
+  ): Promise<UploadResult[]> {
+    // Batched processing with concurrency control
+    const concurrency = options?.concurrency ?? 5;
+    const results: UploadResult[] = [];
+    let completedCount = 0;
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const batch = files.slice(i, i + concurrency);
+      const batchResults = await Promise.all(
+        batch.map((file) => {
+          // Clone options for each file to avoid shared state
+          const { concurrency: _, onBatchProgress: __, ...uploadOptions } = options ?? {};
+          return this.upload(
+            file,
+            Object.keys(uploadOptions).length > 0 ? uploadOptions : undefined
+          ).then((result) => {
+            completedCount++;
+            options?.onBatchProgress?.(completedCount, files.length);
+            return result;
+          });
+        })
+      );
+      results.push(...batchResults);
+    }
+
+    return results;
+  }
+
+  async deleteMultiple(ids: string[]): Promise<void> {
+    const failed: Array<{ id: string; error: unknown }> = [];
+
+    // Use Promise.allSettled for partial failure handling
+    const results = await Promise.allSettled(ids.map((id) => this.delete(id)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failed.push({ id: ids[index]!, error: result.reason });
+      }
+    });
+
+    if (failed.length > 0) {
+      throw createMediaError(
+        MediaErrorCode.DELETE_FAILED,
+        this.name,
+        new Error(
+          `Failed to delete ${failed.length} of ${ids.length} files: ${failed.map((f) => f.id).join(', ')}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Search files using the sidecar index.
+   * `folder` matches the folder a file was uploaded to, `tags` requires every
+   * tag to be present, and `query` is a case-insensitive substring match on the id.
+   */
+  async search(query: SearchOptions): Promise<UploadResult[]> {
+    const index = await this.loadIndex();
+    const needle = query.query?.toLowerCase();
+
+    const matches = Array.from(index.entries()).filter(([key, entry]) => {
+      if (query.folder !== undefined && entry.folder !== query.folder) return false;
+      if (query.tags?.length && !query.tags.every((tag) => entry.tags.includes(tag))) {
+        return false;
+      }
+      if (needle && !key.toLowerCase().includes(needle)) return false;
+      return true;
+    });
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? matches.length;
+
+    return matches
+      .slice(offset, offset + limit)
+      .map(([key, entry]) => this.createResult(key, entry));
+  }
+
+  /**
+   * List indexed files in key order. The cursor is the last id of the previous page.
+   */
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    const index = await this.loadIndex();
+
+    const keys = Array.from(index.keys())
+      .filter((key) => !options.prefix || key.startsWith(options.prefix))
+      .filter((key) => !options.cursor || key > options.cursor)
+      .sort();
+
+    const limit = options.limit ?? 1000;
+    const page = keys.slice(0, limit);
+    return {
+      items: page.map((key) => this.createResult(key, index.get(key)!)),
+      nextCursor: keys.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+
+  /**
+   * Copy a file to `destKey`, carrying over its indexed metadata and tags.
+   */
+  async copy(id: string, destKey: string): Promise<UploadResult> {
+    try {
+      const destPath = this.resolvePath(destKey);
+      const source = await this.get(id);
+      await fs.mkdir(path.dirname(destPath), { recursive: true });
+      await fs.copyFile(this.resolvePath(id), destPath);
+      return await this.transferIndexEntry(id, destKey, source, false);
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.UPLOAD_FAILED);
+    }
+  }
+
+  /**
+   * Move a file to `destKey` with a filesystem rename.
+   */
+  async move(id: string, destKey: string): Promise<UploadResult> {
+    try {
+      const destPath = this.resolvePath(destKey);
+      const source = await this.get(id);
+      await fs.mkdir(path.dirname(destPath), { recursive: true });
+      await fs.rename(this.resolvePath(id), destPath);
+      return await this.transferIndexEntry(id, destKey, source, true);
+    } catch (error) {
+      throw this.mapFsError(error, MediaErrorCode.PROVIDER_ERROR);
+    }
+  }
+
+  /**
+   * Access to the Node.js fs/promises module used for storage.
+   */
+  get native(): typeof fs {
+    return fs;
+  }
+
+  toJSON(): { name: string; features: ProviderFeatures } {
+    return {
+      name: this.name,
+      features: this.features,
+    };
+  }
+
+  /**
+   * Write an upload input to disk, enforcing the configured size limit.
+   * Returns the number of bytes written.
+   */
+  private async writeInput(
+    file: UploadInput,
+    filePath: string,
+    options?: UploadOptions
+  ): Promise<number> {
+    const maxFileSize = this.config.maxFileSize;
+
+    if (!this.isStreamInput(file)) {
+      const buffer =
+        file instanceof Buffer ? file : Buffer.from(await (file as File).arrayBuffer());
+      this.assertSize(buffer.byteLength, maxFileSize);
+      await fs.writeFile(filePath, buffer, options?.signal ? { signal: options.signal } : {});
+      options?.onByteProgress?.(buffer.byteLength, buffer.byteLength);
+      return buffer.byteLength;
+    }
+
+    const source =
+      typeof (file as Readable).pipe === 'function'
+        ? (file as Readable)
+        : Readable.fromWeb(file as import('node:stream/web').ReadableStream<Uint8Array>);
+
+    let written = 0;
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        written += chunk.byteLength;
+        if (written > maxFileSize) {
+          callback(this.fileTooLargeError(written, maxFileSize));
+          return;
+        }
+        options?.onByteProgress?.(written, undefined);
+        callback(null, chunk);
+      },
+    });
+
+    await pipeline(
+      source,
+      counter,
+      createWriteStream(filePath),
+      options?.signal ? { signal: options.signal } : {}
+    );
+    return written;
+  }
+
+  /**
+   * Move a finished temp file to its key, honouring `ifMatch` and `ifNotExists`.
+   * `ifNotExists` hard-links instead of renaming, so an existing file is never
+   * replaced even when another writer got there in between.
+   */
+  private async publish(
+    tempPath: string,
+    filePath: string,
+    key: string,
+    options: UploadOptions | undefined
+  ): Promise<void> {
+    if (options?.ifMatch !== undefined) {
+      const current = await fs.stat(filePath).then(
+        (stats) => this.etagOf(stats),
+        () => undefined
+      );
+      if (current !== options.ifMatch) {
+        throw new MediaError(
+          `File '${key}' no longer matches ETag ${options.ifMatch}`,
+          MediaErrorCode.CONFLICT,
+          this.name
+        );
+      }
+    }
+
+    if (!options?.ifNotExists) {
+      await fs.rename(tempPath, filePath);
+      return;
+    }
+
+    try {
+      await fs.link(tempPath, filePath);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'EEXIST') {
+        throw new MediaError(
+          `File '${key}' already exists`,
+          MediaErrorCode.CONFLICT,
+          this.name,
+          error
+        );
+      }
+      throw error;
+    }
+    await fs.rm(tempPath, { force: true });
+  }
+
+  /**
+   * Weak validator built from size and modification time, like most static file servers.
+   */
+  private etagOf(stats: { size: number; mtimeMs: number }): string {
+    return `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+  }
+
+  private assertSize(size: number, maxFileSize: number): void {
+    if (size > maxFileSize) {
+      throw this.fileTooLargeError(size, maxFileSize);
+    }
+  }
+
+  private fileTooLargeError(size: number, maxFileSize: number) {
+    return createMediaError(
+      MediaErrorCode.FILE_TOO_LARGE,
+      this.name,
+      new Error(`File exceeds maximum allowed size of ${maxFileSize} bytes`),
+      { size, maxFileSize }
+    );
+  }
+
+  /**
+   * Resolve a storage key to an absolute path, refusing keys that escape rootDir.
+   */
+  private resolvePath(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (resolved !== this.rootDir && !resolved.startsWith(this.rootDir + path.sep)) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(`Storage key '${key}' resolves outside of rootDir`)
+      );
+    }
+    // Covers the index file and the temp files it is written through
+    if (resolved.startsWith(this.indexPath)) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(`Storage key '${key}' is reserved for the metadata index`)
+      );
+    }
+    return resolved;
+  }
+
+  private get indexPath(): string {
+    return path.join(this.rootDir, this.config.indexFile);
+  }
+
+  /**
+   * Load the sidecar index from disk once, with race condition protection.
+   */
+  private async loadIndex(): Promise<Map<string, LocalIndexEntry>> {
+    if (this.index) return this.index;
+    if (!this.indexPromise) {
+      this.indexPromise = fs
+        .readFile(this.indexPath, 'utf8')
+        .then((raw) => new Map(Object.entries(JSON.parse(raw) as Record<string, LocalIndexEntry>)))
+        .catch((error: { code?: string }) => {
+          if (error.code === 'ENOENT') return new Map<string, LocalIndexEntry>();
+          throw error;
+        })
+        .then((index) => {
+          this.index = index;
+          return index;
+        });
+    }
+    return this.indexPromise;
+  }
+
+  /**
+   * Apply a mutation to the index and persist it atomically (write + rename).
+   */
+  private async updateIndex(mutate: (index: Map<string, LocalIndexEntry>) => void): Promise<void> {
+    const write = this.indexWrite.then(async () => {
+      const index = await this.loadIndex();
+      mutate(index);
+      await fs.mkdir(this.rootDir, { recursive: true });
+      const tempPath = `${this.indexPath}.${this.generateShortId()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(index), null, 2));
+      await fs.rename(tempPath, this.indexPath);
+    });
+    // Keep the chain alive even if this write fails
+    this.indexWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Index `destKey` with the source file's entry, optionally dropping the source.
+   */
+  private async transferIndexEntry(
+    id: string,
+    destKey: string,
+    source: UploadResult,
+    removeSource: boolean
+  ): Promise<UploadResult> {
+    const separator = destKey.lastIndexOf('/');
+    let entry: LocalIndexEntry | undefined;
+
+    await this.updateIndex((index) => {
+      const existing = index.get(id);
+      entry = {
+        size: source.size,
+        format: source.format,
+        contentType: existing?.contentType ?? 'application/octet-stream',
+        ...(separator !== -1 && { folder: destKey.slice(0, separator) }),
+        tags: [...(existing?.tags ?? [])],
+        metadata: { ...(existing?.metadata ?? {}) },
+        createdAt: new Date().toISOString(),
+      };
+      index.set(destKey, entry);
+      if (removeSource && destKey !== id) {
+        index.delete(id);
+      }
+    });
+
+    return this.createResult(destKey, entry!);
+  }
+
+  private generateKey(options?: UploadOptions): string {
+    const baseFilename = options?.filename ?? this.generateRandomId();
+    // When uniqueFilename is true (default) or not specified, append a short ID
+    const shouldMakeUnique = options?.uniqueFilename !== false;
+    const filename =
+      shouldMakeUnique && options?.filename
+        ? `${baseFilename}-${this.generateShortId()}`
+        : baseFilename;
+    const folder = options?.folder ? `${options.folder}/` : '';
+    return `${folder}${filename}`;
+  }
+
+  private generateRandomId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  }
+
+  private generateShortId(): string {
+    // Use Web Crypto API for better randomness when available
+    const cryptoObj = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+    if (cryptoObj?.getRandomValues) {
+      const buffer = new Uint8Array(6);
+      cryptoObj.getRandomValues(buffer);
+      return Array.from(buffer)
+        .map((b) => b.toString(36).padStart(2, '0'))
+        .join('')
+        .substring(0, 8);
+    }
+    // Fallback with timestamp for better uniqueness
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${timestamp}${random}`.substring(0, 12);
+  }
+
+  private async getContentType(
+    file: File | Buffer
+  ): Promise<{ contentType: string; extension: string }> {
+    if (file instanceof Buffer) {
+      // Use magic byte detection for accurate MIME type
+      const detected = await getFileType(file);
+      return {
+        contentType: detected?.mime ?? 'application/octet-stream',
+        extension: detected?.ext ?? '',
+      };
+    }
+    return {
+      contentType: (file as File).type || 'application/octet-stream',
+      extension: (file as File).name.split('.').pop() || '',
+    };
+  }
+
+  /**
+   * Check whether the given input is a stream (Node.js Readable or Web ReadableStream).
+   */
+  private isStreamInput(file: UploadInput): boolean {
+    if (file instanceof Buffer) return false;
+    if (typeof File !== 'undefined' && file instanceof File) return false;
+    return (
+      typeof (file as Readable).pipe === 'function' ||
+      typeof (file as ReadableStream).getReader === 'function'
+    );
+  }
+
+  /**
+   * Derive a file extension from a MIME type string.
+   */
+  private extensionFromMime(mime: string): string {
+    const map: Record<string, string> = {
+      'image/jpeg': 'jpg',
+      'image/png': 'png',
+      'image/gif': 'gif',
+      'image/webp': 'webp',
+      'image/avif': 'avif',
+      'image/svg+xml': 'svg',
+      'video/mp4': 'mp4',
+      'video/webm': 'webm',
+      'video/quicktime': 'mov',
+      'audio/mpeg': 'mp3',
+      'audio/wav': 'wav',
+      'application/pdf': 'pdf',
+      'application/octet-stream': '',
+    };
+    return map[mime] ?? mime.split('/').pop() ?? '';
+  }
+
+  private createResult(key: string, entry: LocalIndexEntry): UploadResult {
+    return {
+      id: key,
+      storageKey: key,
+      url: this.getUrl(key),
+      publicUrl: this.getUrl(key),
+      size: entry.size,
+      format: entry.format,
+      provider: this.name,
+      metadata: {
+        ...entry.metadata,
+        contentType: entry.contentType,
+        folder: entry.folder,
+        tags: entry.tags,
+      },
+      createdAt: new Date(entry.createdAt),
+    };
+  }
+
+  /**
+   * Maps Node.js filesystem errors to MediaError with appropriate codes
+   */
+  private mapFsError(error: unknown, defaultCode: MediaErrorCode): Error {
+    // Already mapped (size limit, invalid key)
+    if (error instanceof MediaError) {
+      return error;
+    }
+
+    const err = error as { name?: string; code?: string };
+
+    if (err?.name === 'AbortError') {
+      return createMediaError(MediaErrorCode.ABORTED, this.name, new Error('Upload aborted'));
+    }
+
+    if (err?.code === 'ENOENT') {
+      return createMediaError(MediaErrorCode.FILE_NOT_FOUND, this.name, error);
+    }
+
+    if (err?.code === 'EACCES' || err?.code === 'EPERM') {
+      return createMediaError(
+        MediaErrorCode.UNAUTHORIZED,
+        this.name,
+        new Error(`Permission denied - check that '${this.rootDir}' is writable`)
+      );
+    }
+
+    if (err?.code === 'ENOSPC' || err?.code === 'EDQUOT') {
+      return createMediaError(
+        MediaErrorCode.QUOTA_EXCEEDED,
+        this.name,
+        new Error('No space left on device')
+      );
+    }
+
+    return createMediaError(defaultCode, this.name, error);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Configuration options for the local filesystem provider
+ */
+export interface LocalConfig {
+    /**
+     * Directory where files are stored. Created on first upload if missing.
+     */
+    rootDir: string;
+
+    /**
+     * Base URL the stored files are served from (e.g. 'http://localhost:3000/uploads'
+     * or '/uploads'). Used by getUrl() to build public URLs.
+     */
+    baseUrl: string;
+
+    /**
+     * Name of the sidecar metadata index file, relative to rootDir.
+     * @default '.fluxmedia-index.json'
+     */
+    indexFile?: string;
+
+    /**
+     * Maximum accepted file size in bytes.
+     * @default Number.MAX_SAFE_INTEGER
+     */
+    maxFileSize?: number;
+}
+
+/**
+ * Entry stored in the sidecar metadata index for each file
+ */
+export interface LocalIndexEntry {
+    size: number;
+    format: string;
+    contentType: string;
+    folder?: string | undefined;
+    tags: string[];
+    metadata: Record<string, unknown>;
+    createdAt: string;
+}
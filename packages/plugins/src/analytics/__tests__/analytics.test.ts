@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createAnalyticsPlugin } from '../index';
-import type { UploadResult } from '@fluxmedia/core';
+import { OperationContext, type UploadResult } from '@fluxmedia/core';
 
 // Helper to create a mock file
 function createMockFile(name: string, type: string, size: number): File {
@@ -42,7 +42,11 @@ describe('AnalyticsPlugin', () => {
 
             const file = createMockFile('test.jpg', 'image/jpeg', 1024);
 
-            await plugin.hooks.beforeUpload!(file, {});
+            await plugin.hooks.beforeUpload!(
+                file,
+                {},
+                new OperationContext().forPlugin('analytics')
+            );
 
             expect(onUploadStart).toHaveBeenCalledWith(file, {});
             expect(track).toHaveBeenCalledWith(
@@ -67,14 +71,13 @@ describe('AnalyticsPlugin', () => {
             const file = createMockFile('test.jpg', 'image/jpeg', 1024);
 
             // Simulate beforeUpload to set up tracking
-            const beforeResult = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('analytics');
+            await plugin.hooks.beforeUpload!(file, {}, context);
 
             // Simulate afterUpload
-            const result = createMockResult({
-                metadata: beforeResult?.options.metadata,
-            });
+            const result = createMockResult();
 
-            await plugin.hooks.afterUpload!(result);
+            await plugin.hooks.afterUpload!(result, context);
 
             expect(onUploadComplete).toHaveBeenCalled();
             expect(track).toHaveBeenCalledWith(
@@ -119,7 +122,11 @@ describe('AnalyticsPlugin', () => {
             const error = new Error('Upload failed');
             const file = createMockFile('test.jpg', 'image/jpeg', 1024);
 
-            await plugin.hooks.onError!(error, { file, options: {} });
+            await plugin.hooks.onError!(
+                error,
+                { file, options: {}, phase: 'upload' },
+                new OperationContext().forPlugin('analytics')
+            );
 
             expect(onUploadError).toHaveBeenCalledWith(error, file);
             expect(track).toHaveBeenCalledWith(
@@ -150,7 +157,11 @@ describe('AnalyticsPlugin', () => {
             const file = createMockFile('test.jpg', 'image/jpeg', 1024);
 
             // Plugin should be a no-op
-            const result = await plugin.hooks.beforeUpload?.(file, {});
+            const result = await plugin.hooks.beforeUpload?.(
+                file,
+                {},
+                new OperationContext().forPlugin('analytics')
+            );
 
             expect(result).toBeUndefined(); // No hooks defined for inactive plugin
             expect(track).not.toHaveBeenCalled();
@@ -169,7 +180,11 @@ describe('AnalyticsPlugin', () => {
 
             const file = createMockFile('test.jpg', 'image/jpeg', 1024);
 
-            await plugin.hooks.beforeUpload!(file, {});
+            await plugin.hooks.beforeUpload!(
+                file,
+                {},
+                new OperationContext().forPlugin('analytics')
+            );
 
             expect(track).toHaveBeenCalled();
         });
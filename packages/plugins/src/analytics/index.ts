@@ -4,7 +4,24 @@
  * Provides environment-aware logging and analytics tracking for uploads.
  */
 
-import { type FluxMediaPlugin, type UploadOptions, type UploadResult } from '@fluxmedia/core';
+import {
+  type FluxMediaPlugin,
+  type PluginContext,
+  type UploadOptions,
+  type UploadResult,
+  type UploadStartedEventData,
+  type UploadCompletedEventData,
+  type DeleteCompletedEventData,
+  type ErrorEventData,
+} from '@fluxmedia/core';
+
+// Event payloads are shared with MediaUploader's `on()` events
+export type {
+  UploadStartedEventData,
+  UploadCompletedEventData,
+  DeleteCompletedEventData,
+  ErrorEventData,
+};
 
 /**
  * Log level types
@@ -20,53 +37,7 @@ export type Environment = 'development' | 'production' | 'test' | 'all';
  * Analytics event types
  */
 export type AnalyticsEventType =
-  | 'media.upload.started'
-  | 'media.upload.completed'
-  | 'media.delete.completed'
-  | 'media.error';
-
-/**
- * Data payload for upload started event
- */
-export interface UploadStartedEventData {
-  fileName: string;
-  fileSize: number;
-  folder?: string | undefined;
-  uploadId: string;
-}
-
-/**
- * Data payload for upload completed event
- */
-export interface UploadCompletedEventData {
-  fileId: string;
-  fileName: string;
-  fileSize: number;
-  format: string;
-  provider: string;
-  duration: number;
-  totalUploads: number;
-  totalSize: number;
-}
-
-/**
- * Data payload for delete completed event
- */
-export interface DeleteCompletedEventData {
-  fileId: string;
-}
-
-/**
- * Data payload for error event
- */
-export interface ErrorEventData {
-  operation: 'upload' | 'delete' | 'get';
-  error: {
-    message: string;
-    name: string;
-  };
-  totalErrors: number;
-}
+  'media.upload.started' | 'media.upload.completed' | 'media.delete.completed' | 'media.error';
 
 /**
  * Map of event types to their data payloads
@@ -174,7 +145,6 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
   }
 
   // State for tracking
-  const uploadStartTimes = new Map<string, number>();
   let totalUploads = 0;
   let totalSize = 0;
   let totalErrors = 0;
@@ -214,7 +184,8 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
     hooks: {
       async beforeUpload(
         file: File | Buffer,
-        uploadOptions: UploadOptions
+        uploadOptions: UploadOptions,
+        context: PluginContext
       ): Promise<{ file: File | Buffer; options: UploadOptions } | void> {
         const fileName =
           typeof File !== 'undefined' && file instanceof File
@@ -224,11 +195,11 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
           typeof File !== 'undefined' && file instanceof File
             ? file.size
             : (file as Buffer).byteLength;
-        const uploadId = `${fileName}-${Date.now()}`;
+        const uploadId = context.operationId;
 
-        // Store start time
+        // Keep the start time for afterUpload in this upload's context
         if (config.trackPerformance) {
-          uploadStartTimes.set(uploadId, Date.now());
+          context.state.startTime = Date.now();
         }
 
         // Call onUploadStart callback
@@ -246,30 +217,16 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
 
         log('info', `Upload started: ${fileName} (${formatBytes(fileSize)})`);
 
-        // Store uploadId in metadata for afterUpload
-        const enrichedOptions: UploadOptions = {
-          ...uploadOptions,
-          metadata: {
-            ...uploadOptions.metadata,
-            _analyticsUploadId: uploadId,
-            _analyticsFile: file,
-          },
-        };
-
-        return { file, options: enrichedOptions };
+        return { file, options: uploadOptions };
       },
 
-      async afterUpload(result: UploadResult): Promise<UploadResult> {
-        const uploadId = result.metadata?._analyticsUploadId as string | undefined;
+      async afterUpload(result: UploadResult, context: PluginContext): Promise<UploadResult> {
+        const startTime = context.state.startTime as number | undefined;
 
         // Calculate duration
         let duration = 0;
-        if (config.trackPerformance && uploadId) {
-          const startTime = uploadStartTimes.get(uploadId);
-          if (startTime) {
-            duration = Date.now() - startTime;
-            uploadStartTimes.delete(uploadId);
-          }
+        if (config.trackPerformance && startTime) {
+          duration = Date.now() - startTime;
         }
 
         // Update totals
@@ -298,13 +255,11 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
           provider: result.provider,
         });
 
-        // Add performance data to result metadata (excluding internal props)
-        const cleanMetadata = { ...result.metadata };
-        delete cleanMetadata._analyticsUploadId;
-        delete cleanMetadata._analyticsFile;
+        // Add performance data to result metadata
+        const metadata = { ...result.metadata };
 
         if (config.trackPerformance) {
-          cleanMetadata.performance = {
+          metadata.performance = {
             duration,
             uploadSpeed: result.size / (duration / 1000), // bytes per second
           };
@@ -312,7 +267,7 @@ export function createAnalyticsPlugin(options: AnalyticsOptions = {}): FluxMedia
 
         return {
           ...result,
-          metadata: cleanMetadata,
+          metadata,
         };
       },
 
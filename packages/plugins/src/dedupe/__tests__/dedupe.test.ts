@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { MediaUploader } from '@fluxmedia/core';
+import { InMemoryProvider } from '@fluxmedia/core/testing';
+import { createDedupePlugin, InMemoryDedupeIndex, FileDedupeIndex } from '../index';
+import { createMetadataExtractionPlugin, computeFileHash } from '../../metadata';
+
+describe('DedupePlugin', () => {
+  let provider: InMemoryProvider;
+  let uploader: MediaUploader;
+
+  beforeEach(() => {
+    provider = new InMemoryProvider();
+    uploader = new MediaUploader(provider);
+  });
+
+  it('should return the stored result for duplicate content without uploading', async () => {
+    await uploader.use(createDedupePlugin());
+    const upload = vi.spyOn(provider, 'upload');
+
+    const first = await uploader.upload(Buffer.from('same bytes'));
+    const second = await uploader.upload(Buffer.from('same bytes'));
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(second.id).toBe(first.id);
+    expect(second.metadata.deduplicated).toBe(true);
+    expect(provider.size).toBe(1);
+  });
+
+  it('should upload different content and tag results with the content hash', async () => {
+    await uploader.use(createDedupePlugin());
+
+    const a = await uploader.upload(Buffer.from('a'));
+    const b = await uploader.upload(Buffer.from('b'));
+
+    expect(a.id).not.toBe(b.id);
+    expect(a.metadata.contentHash).toBe(await computeFileHash(Buffer.from('a'), 'sha256'));
+    expect(provider.size).toBe(2);
+  });
+
+  it('should store new files under their hash with contentAddressedKeys', async () => {
+    await uploader.use(createDedupePlugin({ contentAddressedKeys: true, hashAlgorithm: 'md5' }));
+
+    const result = await uploader.upload(Buffer.from('hello'), { folder: 'media' });
+
+    expect(result.id).toBe(`media/${await computeFileHash(Buffer.from('hello'), 'md5')}`);
+  });
+
+  it('should forget files deleted through the uploader', async () => {
+    await uploader.use(createDedupePlugin());
+
+    const first = await uploader.upload(Buffer.from('photo'));
+    await uploader.delete(first.id);
+    const second = await uploader.upload(Buffer.from('photo'));
+
+    expect(second.metadata.deduplicated).toBeUndefined();
+    expect(provider.has(second.id)).toBe(true);
+  });
+
+  it('should only reuse files from the same folder by default', async () => {
+    await uploader.use(createDedupePlugin());
+
+    const listing = await uploader.upload(Buffer.from('photo'), { folder: 'listings' });
+    const avatar = await uploader.upload(Buffer.from('photo'), { folder: 'avatars' });
+
+    expect(avatar.id).toMatch(/^avatars\//);
+    expect(avatar.metadata.deduplicated).toBeUndefined();
+    expect(listing.id).not.toBe(avatar.id);
+    expect(provider.size).toBe(2);
+  });
+
+  it('should reuse files across folders with the global scope', async () => {
+    await uploader.use(createDedupePlugin({ scope: 'global' }));
+
+    const listing = await uploader.upload(Buffer.from('photo'), { folder: 'listings' });
+    const avatar = await uploader.upload(Buffer.from('photo'), { folder: 'avatars' });
+
+    expect(avatar.id).toBe(listing.id);
+    expect(provider.size).toBe(1);
+  });
+
+  it('should keep a shared file until every upload of it is deleted', async () => {
+    await uploader.use(createDedupePlugin());
+    const deleteSpy = vi.spyOn(provider, 'delete');
+
+    const first = await uploader.upload(Buffer.from('shared'));
+    const second = await uploader.upload(Buffer.from('shared'));
+
+    await uploader.delete(first.id);
+    expect(deleteSpy).not.toHaveBeenCalled();
+    expect(provider.has(first.id)).toBe(true);
+
+    const third = await uploader.upload(Buffer.from('shared'));
+    expect(third.metadata.deduplicated).toBe(true);
+
+    await uploader.delete(second.id);
+    await uploader.delete(third.id);
+    expect(deleteSpy).toHaveBeenCalledTimes(1);
+    expect(provider.has(first.id)).toBe(false);
+  });
+
+  it('should release the reference a rolled back transaction took', async () => {
+    await uploader.use(createDedupePlugin());
+    const original = await uploader.upload(Buffer.from('shared'));
+    const failCommit = async (): Promise<void> => {
+      throw new Error('commit fail');
+    };
+
+    await expect(
+      uploader.uploadWithTransaction(Buffer.from('shared'), {}, { onCommit: failCommit })
+    ).rejects.toMatchObject({ name: 'TransactionError' });
+    await expect(
+      uploader.uploadBatchWithTransaction([Buffer.from('shared')], undefined, {
+        onCommit: failCommit,
+      })
+    ).rejects.toMatchObject({ name: 'TransactionError' });
+    expect(provider.has(original.id)).toBe(true);
+
+    await uploader.delete(original.id);
+    expect(provider.has(original.id)).toBe(false);
+  });
+
+  it('should upload streams without deduplicating them', async () => {
+    await uploader.use(createDedupePlugin());
+
+    await uploader.upload(Readable.from([Buffer.from('x')]), { contentType: 'text/plain' });
+    await uploader.upload(Readable.from([Buffer.from('x')]), { contentType: 'text/plain' });
+
+    expect(provider.size).toBe(2);
+  });
+
+  it('should reuse the metadata plugin hash and require that plugin', async () => {
+    await expect(uploader.use(createDedupePlugin({ useMetadataHash: true }))).rejects.toThrow(
+      "Plugin 'dedupe' requires 'metadata-extraction', which is not registered"
+    );
+
+    const index = new InMemoryDedupeIndex();
+    const set = vi.spyOn(index, 'set');
+    await uploader.use(createMetadataExtractionPlugin({ hashFile: true, hashAlgorithm: 'md5' }));
+    await uploader.use(createDedupePlugin({ useMetadataHash: true, index }));
+
+    await uploader.upload(Buffer.from('data'));
+
+    const md5 = await computeFileHash(Buffer.from('data'), 'md5');
+    expect(set).toHaveBeenCalledWith(`md5:${md5}`, expect.objectContaining({ provider: 'memory' }));
+  });
+
+  it('should skip later beforeUpload hooks and afterUpload hooks on a hit', async () => {
+    const afterUpload = vi.fn(async (result) => result);
+    await uploader.use(createDedupePlugin());
+    await uploader.use({
+      name: 'late',
+      after: ['dedupe'],
+      hooks: { afterUpload },
+    });
+
+    await uploader.upload(Buffer.from('dup'));
+    await uploader.upload(Buffer.from('dup'));
+
+    expect(afterUpload).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('FileDedupeIndex', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluxmedia-dedupe-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    const filePath = path.join(dir, 'nested', 'dedupe.json');
+    const provider = new InMemoryProvider();
+    const uploader = new MediaUploader(provider);
+    await uploader.use(createDedupePlugin({ index: new FileDedupeIndex(filePath) }));
+    const first = await uploader.upload(Buffer.from('persisted'));
+
+    const restarted = new MediaUploader(provider);
+    await restarted.use(createDedupePlugin({ index: new FileDedupeIndex(filePath) }));
+    const second = await restarted.upload(Buffer.from('persisted'));
+
+    expect(second.id).toBe(first.id);
+    expect(second.createdAt).toBeInstanceOf(Date);
+    expect(provider.size).toBe(1);
+  });
+
+  it('should persist reference counts', async () => {
+    const filePath = path.join(dir, 'dedupe.json');
+    const result = await new InMemoryProvider().upload(Buffer.from('x'));
+    const index = new FileDedupeIndex(filePath);
+    await index.set('sha256:abc', result);
+    await index.retain('sha256:abc');
+
+    const reloaded = new FileDedupeIndex(filePath);
+    expect(await reloaded.release(result.id)).toBe(1);
+    expect(await reloaded.release(result.id)).toBe(0);
+    expect(await reloaded.release('unknown')).toBe(0);
+  });
+
+  it('should remove entries by file id', async () => {
+    const index = new FileDedupeIndex(path.join(dir, 'dedupe.json'));
+    const result = await new InMemoryProvider().upload(Buffer.from('x'));
+    await index.set('sha256:abc', result);
+
+    await index.deleteByFileId(result.id);
+
+    expect(await new FileDedupeIndex(path.join(dir, 'dedupe.json')).get('sha256:abc')).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Deduplication Plugin for FluxMedia
+ *
+ * Hashes each upload and, when the same content is already stored, skips the
+ * provider and returns the earlier upload's result instead.
+ */
+
+import {
+  type FluxMediaPlugin,
+  type PluginContext,
+  type UploadInput,
+  type UploadOptions,
+  type UploadResult,
+} from '@fluxmedia/core';
+import fs from 'fs/promises';
+import path from 'path';
+import { computeFileHash, getExtractedMetadata, type HashAlgorithm } from '../metadata';
+
+/**
+ * Storage for content hash to upload result mappings.
+ * Keys are opaque strings built by the plugin from the scope, algorithm and hash.
+ * Each entry counts the uploads that resolved to its file, so a shared file is
+ * only deleted once the last of them is.
+ */
+export interface DedupeIndex {
+  /** Look up the stored file for a content key */
+  get(key: string): Promise<UploadResult | undefined>;
+  /** Remember the stored file for a content key, with one reference */
+  set(key: string, result: UploadResult): Promise<void>;
+  /** Add a reference to the file stored for a content key */
+  retain(key: string): Promise<void>;
+  /**
+   * Drop a reference to a file and return how many are left.
+   * Files the index does not know return 0.
+   */
+  release(id: string): Promise<number>;
+  /** Forget every key that points at a file, e.g. after it was deleted */
+  deleteByFileId(id: string): Promise<void>;
+}
+
+/**
+ * Stored file for a content key, with the number of uploads that share it.
+ */
+interface DedupeEntry {
+  result: UploadResult;
+  references: number;
+}
+
+/**
+ * Options for the dedupe plugin
+ */
+export interface DedupeOptions {
+  /** Where hashes are kept (default: a new InMemoryDedupeIndex) */
+  index?: DedupeIndex;
+  /** Hash algorithm (default: 'sha256') */
+  hashAlgorithm?: HashAlgorithm;
+  /**
+   * Reuse the hash computed by the metadata extraction plugin (configured with
+   * `hashFile: true`) instead of hashing again. Requires that plugin to be
+   * registered; the dedupe plugin then runs after it.
+   */
+  useMetadataHash?: boolean;
+  /**
+   * Store new files under their content hash as the filename, so the key
+   * itself is content-addressed (default: false)
+   */
+  contentAddressedKeys?: boolean;
+  /**
+   * Where duplicates are looked for (default: 'folder').
+   * - `folder`: only files uploaded to the same folder are reused
+   * - `global`: any stored file is reused, whatever folder was requested
+   */
+  scope?: 'folder' | 'global';
+  /**
+   * Prefix for index keys, e.g. the provider name when uploaders for
+   * different providers share one index
+   */
+  namespace?: string;
+}
+
+/**
+ * In-memory dedupe index. Lost when the process exits.
+ */
+export class InMemoryDedupeIndex implements DedupeIndex {
+  private readonly entries = new Map<string, DedupeEntry>();
+
+  async get(key: string): Promise<UploadResult | undefined> {
+    return this.entries.get(key)?.result;
+  }
+
+  async set(key: string, result: UploadResult): Promise<void> {
+    this.entries.set(key, { result, references: 1 });
+  }
+
+  async retain(key: string): Promise<void> {
+    retainEntry(this.entries, key);
+  }
+
+  async release(id: string): Promise<number> {
+    return releaseEntry(this.entries, id);
+  }
+
+  async deleteByFileId(id: string): Promise<void> {
+    deleteEntries(this.entries, id);
+  }
+}
+
+/**
+ * Dedupe index persisted as a JSON file.
+ * Writes are serialized and atomic (write + rename), so the file is never
+ * left half-written. Meant for a single process; separate processes sharing
+ * the file would overwrite each other's entries.
+ */
+export class FileDedupeIndex implements DedupeIndex {
+  private readonly filePath: string;
+  private entries: Promise<Map<string, DedupeEntry>> | null = null;
+
+  /** Serializes writes so concurrent uploads don't clobber each other. */
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async get(key: string): Promise<UploadResult | undefined> {
+    return (await this.load()).get(key)?.result;
+  }
+
+  async set(key: string, result: UploadResult): Promise<void> {
+    await this.update((entries) => {
+      entries.set(key, { result, references: 1 });
+    });
+  }
+
+  async retain(key: string): Promise<void> {
+    await this.update((entries) => {
+      retainEntry(entries, key);
+    });
+  }
+
+  async release(id: string): Promise<number> {
+    return this.update((entries) => releaseEntry(entries, id));
+  }
+
+  async deleteByFileId(id: string): Promise<void> {
+    await this.update((entries) => {
+      deleteEntries(entries, id);
+    });
+  }
+
+  private load(): Promise<Map<string, DedupeEntry>> {
+    if (!this.entries) {
+      this.entries = fs
+        .readFile(this.filePath, 'utf8')
+        .then((raw) => {
+          const stored = JSON.parse(raw) as Record<string, DedupeEntry>;
+          return new Map(
+            Object.entries(stored).map(([key, { result, references }]) => [
+              key,
+              { result: { ...result, createdAt: new Date(result.createdAt) }, references },
+            ])
+          );
+        })
+        .catch((error: { code?: string }) => {
+          if (error.code === 'ENOENT') return new Map<string, DedupeEntry>();
+          throw error;
+        });
+    }
+    return this.entries;
+  }
+
+  private async update<T>(mutate: (entries: Map<string, DedupeEntry>) => T): Promise<T> {
+    let value!: T;
+    const write = this.pendingWrite.then(async () => {
+      const entries = await this.load();
+      value = mutate(entries);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${Date.now()}-${Math.random().toString(36).substring(2, 15)}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(entries), null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the chain alive even if this write fails
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+    return value;
+  }
+}
+
+function retainEntry(entries: Map<string, DedupeEntry>, key: string): void {
+  const entry = entries.get(key);
+  if (entry) {
+    entries.set(key, { ...entry, references: entry.references + 1 });
+  }
+}
+
+function releaseEntry(entries: Map<string, DedupeEntry>, id: string): number {
+  for (const [key, entry] of entries) {
+    if (entry.result.id === id) {
+      const references = Math.max(0, entry.references - 1);
+      entries.set(key, { ...entry, references });
+      return references;
+    }
+  }
+  return 0;
+}
+
+function deleteEntries(entries: Map<string, DedupeEntry>, id: string): void {
+  for (const [key, entry] of entries) {
+    if (entry.result.id === id) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Check if the input is a stream, which cannot be hashed without consuming it
+ */
+function isStream(file: UploadInput): boolean {
+  return !(file instanceof Buffer) && !(typeof File !== 'undefined' && file instanceof File);
+}
+
+/**
+ * Create a dedupe plugin
+ *
+ * Stream inputs are uploaded as usual, since hashing them would consume them.
+ * Each result is marked with `metadata.contentHash`; results reused from the
+ * index also carry `metadata.deduplicated: true`. By default only files in the
+ * requested folder are reused.
+ *
+ * Every upload that resolves to a stored file holds a reference to it. Deleting
+ * through the uploader drops one reference and keeps the file while others
+ * remain; the last delete removes it.
+ *
+ * @param options - Dedupe options
+ * @returns FluxMediaPlugin instance
+ *
+ * @example
+ * ```typescript
+ * await uploader.use(
+ *   createDedupePlugin({ index: new FileDedupeIndex('./.fluxmedia/dedupe.json') })
+ * );
+ *
+ * const first = await uploader.upload(photo);
+ * const second = await uploader.upload(photo); // No upload; same id as first
+ * ```
+ */
+export function createDedupePlugin(options: DedupeOptions = {}): FluxMediaPlugin {
+  const index = options.index ?? new InMemoryDedupeIndex();
+  const hashAlgorithm = options.hashAlgorithm ?? 'sha256';
+  const useMetadataHash = options.useMetadataHash ?? false;
+  const scope = options.scope ?? 'folder';
+
+  /**
+   * Hash the file, preferring the metadata plugin's hash when configured
+   */
+  async function contentKey(
+    file: File | Buffer,
+    uploadOptions: UploadOptions,
+    context: PluginContext
+  ): Promise<{ key: string; hash: string }> {
+    const extracted = getExtractedMetadata(context);
+    const { algorithm, hash } =
+      useMetadataHash && extracted?.hash && extracted.hashAlgorithm
+        ? { algorithm: extracted.hashAlgorithm, hash: extracted.hash }
+        : { algorithm: hashAlgorithm, hash: await computeFileHash(file, hashAlgorithm) };
+
+    // Scope the key so a duplicate never resolves to a file in another folder
+    const folder = scope === 'folder' && uploadOptions.folder ? `${uploadOptions.folder}/` : '';
+    const namespace = options.namespace ? `${options.namespace}|` : '';
+    return { key: `${namespace}${folder}${algorithm}:${hash}`, hash };
+  }
+
+  return {
+    name: 'dedupe',
+    version: '1.0.0',
+    // Hash the stored bytes when reusing the metadata hash; otherwise hash the
+    // raw input early so a duplicate also skips optimization
+    ...(useMetadataHash
+      ? { requires: ['metadata-extraction'] }
+      : { after: ['file-validation'], before: ['image-optimization'] }),
+    hooks: {
+      async beforeUpload(file, uploadOptions, context) {
+        if (isStream(file)) {
+          return;
+        }
+
+        const { key, hash } = await contentKey(file as File | Buffer, uploadOptions, context);
+        const existing = await index.get(key);
+        if (existing) {
+          await index.retain(key);
+          return {
+            file,
+            options: uploadOptions,
+            result: { ...existing, metadata: { ...existing.metadata, deduplicated: true } },
+          };
+        }
+
+        context.state.key = key;
+        context.state.hash = hash;
+
+        if (!options.contentAddressedKeys) {
+          return;
+        }
+        return {
+          file,
+          options: { ...uploadOptions, filename: hash, uniqueFilename: false },
+        };
+      },
+
+      async afterUpload(result, context) {
+        const { key, hash } = context.state as { key?: string; hash?: string };
+        if (!key) {
+          return result;
+        }
+
+        const indexed = { ...result, metadata: { ...result.metadata, contentHash: hash } };
+        await index.set(key, indexed);
+        return indexed;
+      },
+
+      async beforeDelete(id) {
+        // Keep the file while other uploads still resolve to it
+        const remaining = await index.release(id);
+        return remaining > 0 ? { id, skip: true } : undefined;
+      },
+
+      async afterDelete(id) {
+        await index.deleteByFileId(id);
+      },
+    },
+  };
+}
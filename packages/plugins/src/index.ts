@@ -2,7 +2,7 @@
  * FluxMedia Plugins
  *
  * Official plugins for FluxMedia providing validation, optimization,
- * analytics, and retry functionality.
+ * deduplication, analytics, and retry functionality.
  */
 
 // Validation Plugin
@@ -23,10 +23,22 @@ export {
 // Metadata Extraction Plugin
 export {
     createMetadataExtractionPlugin,
+    computeFileHash,
+    getExtractedMetadata,
     type MetadataExtractionOptions,
     type ExtractedMetadata,
+    type HashAlgorithm,
 } from './metadata';
 
+// Deduplication Plugin
+export {
+    createDedupePlugin,
+    InMemoryDedupeIndex,
+    FileDedupeIndex,
+    type DedupeOptions,
+    type DedupeIndex,
+} from './dedupe';
+
 // Analytics/Logging Plugin
 export {
     createAnalyticsPlugin,
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
-import { createMetadataExtractionPlugin } from '../index';
+import { MediaUploader, OperationContext } from '@fluxmedia/core';
+import { InMemoryProvider } from '@fluxmedia/core/testing';
+import { createMetadataExtractionPlugin, getExtractedMetadata } from '../index';
 
 // Mock sharp for testing
 vi.mock('sharp', () => {
@@ -35,11 +37,11 @@ describe('MetadataExtractionPlugin', () => {
 
             const file = createMockFile('test.jpg', 'image/jpeg');
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('metadata-extraction');
+            await plugin.hooks.beforeUpload!(file, {}, context);
+            const extracted = getExtractedMetadata(context);
 
-            expect(result).toBeDefined();
-            expect(result!.options.metadata?.extracted).toBeDefined();
-            expect(result!.options.metadata?.extracted.dimensions).toEqual({
+            expect(extracted?.dimensions).toEqual({
                 width: 1920,
                 height: 1080,
             });
@@ -57,12 +59,13 @@ describe('MetadataExtractionPlugin', () => {
 
             const file = createMockFile('test.txt', 'text/plain', 'test content');
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('metadata-extraction');
+            await plugin.hooks.beforeUpload!(file, {}, context);
+            const extracted = getExtractedMetadata(context);
 
-            expect(result).toBeDefined();
-            expect(result!.options.metadata?.extracted.hash).toBeDefined();
-            expect(result!.options.metadata?.extracted.hash).toHaveLength(32); // MD5 is 32 hex chars
-            expect(result!.options.metadata?.extracted.hashAlgorithm).toBe('md5');
+            expect(extracted?.hash).toBeDefined();
+            expect(extracted?.hash).toHaveLength(32); // MD5 is 32 hex chars
+            expect(extracted?.hashAlgorithm).toBe('md5');
         });
 
         it('should generate SHA256 hash', async () => {
@@ -75,12 +78,35 @@ describe('MetadataExtractionPlugin', () => {
 
             const file = createMockFile('test.txt', 'text/plain', 'test content');
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('metadata-extraction');
+            await plugin.hooks.beforeUpload!(file, {}, context);
+            const extracted = getExtractedMetadata(context);
 
-            expect(result).toBeDefined();
-            expect(result!.options.metadata?.extracted.hash).toBeDefined();
-            expect(result!.options.metadata?.extracted.hash).toHaveLength(64); // SHA256 is 64 hex chars
-            expect(result!.options.metadata?.extracted.hashAlgorithm).toBe('sha256');
+            expect(extracted?.hash).toBeDefined();
+            expect(extracted?.hash).toHaveLength(64); // SHA256 is 64 hex chars
+            expect(extracted?.hashAlgorithm).toBe('sha256');
+        });
+    });
+
+    describe('upload', () => {
+        it('should add extracted metadata to the result without sending it to the provider', async () => {
+            const provider = new InMemoryProvider();
+            const upload = vi.spyOn(provider, 'upload');
+            const uploader = new MediaUploader(provider);
+            await uploader.use(
+                createMetadataExtractionPlugin({
+                    hashFile: true,
+                    extractDimensions: false,
+                    extractExif: false,
+                })
+            );
+
+            const result = await uploader.upload(Buffer.from('data'), {
+                metadata: { owner: 'u1' },
+            });
+
+            expect(upload.mock.calls[0]![1]?.metadata).toEqual({ owner: 'u1' });
+            expect(result.metadata.extracted).toMatchObject({ hashAlgorithm: 'md5' });
         });
     });
 
@@ -5,7 +5,12 @@
  * Requires sharp as a peer dependency for image metadata.
  */
 
-import { type FluxMediaPlugin, type UploadOptions } from '@fluxmedia/core';
+import {
+  type FluxMediaPlugin,
+  type PluginContext,
+  type UploadOptions,
+  type UploadResult,
+} from '@fluxmedia/core';
 import crypto from 'crypto';
 
 /**
@@ -19,9 +24,14 @@ export interface MetadataExtractionOptions {
   /** Generate file hash for deduplication (default: false) */
   hashFile?: boolean;
   /** Hash algorithm: 'md5' or 'sha256' (default: 'md5') */
-  hashAlgorithm?: 'md5' | 'sha256';
+  hashAlgorithm?: HashAlgorithm;
 }
 
+/**
+ * Algorithms supported for file hashes
+ */
+export type HashAlgorithm = 'md5' | 'sha256';
+
 /**
  * Extracted metadata structure
  */
@@ -75,9 +85,33 @@ async function fileToBuffer(file: File | Buffer): Promise<Buffer> {
   return buffer;
 }
 
+/**
+ * Hash the full contents of a file as a hex digest.
+ * Shared with the dedupe plugin so both produce the same hashes.
+ */
+export async function computeFileHash(
+  file: File | Buffer,
+  algorithm: HashAlgorithm
+): Promise<string> {
+  const buffer = await fileToBuffer(file);
+  return crypto.createHash(algorithm).update(buffer).digest('hex');
+}
+
+/**
+ * Get the metadata extracted for the same upload from a plugin context.
+ * Lets later hooks (e.g. the dedupe plugin) reuse the hash without it ever
+ * reaching the provider.
+ */
+export function getExtractedMetadata(context: PluginContext): ExtractedMetadata | undefined {
+  return context.stateOf('metadata-extraction')?.extracted as ExtractedMetadata | undefined;
+}
+
 /**
  * Create a metadata extraction plugin
  *
+ * Extracted metadata is kept in the upload's plugin context and added to the
+ * result as `metadata.extracted`; it is never sent to the provider.
+ *
  * @param options - Extraction options
  * @returns FluxMediaPlugin instance
  *
@@ -105,10 +139,13 @@ export function createMetadataExtractionPlugin(
     name: 'metadata-extraction',
     version: '1.0.0',
     optional: true,
+    // Describe the file as it will be stored, after optimization
+    after: ['image-optimization'],
     hooks: {
       async beforeUpload(
         file: File | Buffer,
-        uploadOptions: UploadOptions
+        uploadOptions: UploadOptions,
+        context: PluginContext
       ): Promise<{ file: File | Buffer; options: UploadOptions } | void> {
         try {
           const extracted: ExtractedMetadata = {};
@@ -156,28 +193,32 @@ export function createMetadataExtractionPlugin(
 
           // Generate file hash
           if (config.hashFile) {
-            const hash = crypto.createHash(config.hashAlgorithm).update(buffer).digest('hex');
-
-            extracted.hash = hash;
+            extracted.hash = await computeFileHash(buffer, config.hashAlgorithm);
             extracted.hashAlgorithm = config.hashAlgorithm;
           }
 
-          // Add extracted metadata to options
-          const enrichedOptions: UploadOptions = {
-            ...uploadOptions,
-            metadata: {
-              ...uploadOptions.metadata,
-              extracted,
-            },
-          };
+          // Keep extracted metadata for the result, not the stored object
+          context.state.extracted = extracted;
 
-          return { file, options: enrichedOptions };
+          return { file, options: uploadOptions };
         } catch (error) {
           // Don't fail upload on metadata extraction errors
           console.error('[metadata-extraction] Extraction failed:', error);
           return { file, options: uploadOptions };
         }
       },
+
+      async afterUpload(result: UploadResult, context: PluginContext): Promise<UploadResult> {
+        const extracted = context.state.extracted as ExtractedMetadata | undefined;
+        if (!extracted) {
+          return result;
+        }
+
+        return {
+          ...result,
+          metadata: { ...result.metadata, extracted },
+        };
+      },
     },
   };
 }
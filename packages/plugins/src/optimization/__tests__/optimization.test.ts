@@ -1,4 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
+import { OperationContext } from '@fluxmedia/core';
 import { createImageOptimizationPlugin } from '../index';
 
 // Mock sharp for testing
@@ -42,10 +43,35 @@ describe('ImageOptimizationPlugin', () => {
 
             const file = createMockFile('test.jpg', 'image/jpeg', 1024 * 1024);
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('image-optimization');
+            const result = await plugin.hooks.beforeUpload!(file, {}, context);
 
             expect(result).toBeDefined();
-            expect(result!.options.metadata?.optimization).toBeDefined();
+            expect(context.state.optimization).toBeDefined();
+            expect(result!.options.metadata?.optimization).toBeUndefined();
+        });
+
+        it('should add optimization metadata to the upload result', async () => {
+            const plugin = createImageOptimizationPlugin({ format: 'webp' });
+            const file = createMockFile('test.jpg', 'image/jpeg', 1024 * 1024);
+            const context = new OperationContext().forPlugin('image-optimization');
+
+            await plugin.hooks.beforeUpload!(file, {}, context);
+            const result = await plugin.hooks.afterUpload!(
+                {
+                    id: 'test-id',
+                    url: 'https://example.com/test.webp',
+                    publicUrl: 'https://example.com/test.webp',
+                    size: 9,
+                    format: 'webp',
+                    provider: 's3',
+                    metadata: {},
+                    createdAt: new Date(),
+                },
+                context
+            );
+
+            expect(result.metadata.optimization).toMatchObject({ format: 'webp' });
         });
 
         it('should skip non-image files', async () => {
@@ -53,11 +79,12 @@ describe('ImageOptimizationPlugin', () => {
 
             const file = createMockFile('document.pdf', 'application/pdf', 1024);
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('image-optimization');
+            const result = await plugin.hooks.beforeUpload!(file, {}, context);
 
             expect(result).toBeDefined();
             expect(result!.file).toBe(file);
-            expect(result!.options.metadata?.optimization).toBeUndefined();
+            expect(context.state.optimization).toBeUndefined();
         });
 
         it('should skip SVG files', async () => {
@@ -65,11 +92,12 @@ describe('ImageOptimizationPlugin', () => {
 
             const file = createMockFile('icon.svg', 'image/svg+xml', 1024);
 
-            const result = await plugin.hooks.beforeUpload!(file, {});
+            const context = new OperationContext().forPlugin('image-optimization');
+            const result = await plugin.hooks.beforeUpload!(file, {}, context);
 
             expect(result).toBeDefined();
             expect(result!.file).toBe(file);
-            expect(result!.options.metadata?.optimization).toBeUndefined();
+            expect(context.state.optimization).toBeUndefined();
         });
     });
 
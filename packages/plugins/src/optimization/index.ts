@@ -5,7 +5,12 @@
  * Requires sharp as a peer dependency.
  */
 
-import { type FluxMediaPlugin, type UploadOptions } from '@fluxmedia/core';
+import {
+    type FluxMediaPlugin,
+    type PluginContext,
+    type UploadOptions,
+    type UploadResult,
+} from '@fluxmedia/core';
 
 /**
  * Options for the image optimization plugin
@@ -110,7 +115,8 @@ export function createImageOptimizationPlugin(
         hooks: {
             async beforeUpload(
                 file: File | Buffer,
-                uploadOptions: UploadOptions
+                uploadOptions: UploadOptions,
+                context: PluginContext
             ): Promise<{ file: File | Buffer; options: UploadOptions } | void> {
                 // Only process images
                 if (!isImage(file)) {
@@ -230,22 +236,28 @@ export function createImageOptimizationPlugin(
                         optimizedFile = optimizedBuffer;
                     }
 
-                    // Add optimization metadata to options
-                    const enrichedOptions: UploadOptions = {
-                        ...uploadOptions,
-                        metadata: {
-                            ...uploadOptions.metadata,
-                            optimization: optimizationMeta,
-                        },
-                    };
+                    // Keep optimization metadata for the result, not the stored object
+                    context.state.optimization = optimizationMeta;
 
-                    return { file: optimizedFile, options: enrichedOptions };
+                    return { file: optimizedFile, options: uploadOptions };
                 } catch (error) {
                     // Log error but don't fail upload
                     console.error('[image-optimization] Optimization failed:', error);
                     return { file, options: uploadOptions };
                 }
             },
+
+            async afterUpload(result: UploadResult, context: PluginContext): Promise<UploadResult> {
+                const optimization = context.state.optimization as OptimizationMetadata | undefined;
+                if (!optimization) {
+                    return result;
+                }
+
+                return {
+                    ...result,
+                    metadata: { ...result.metadata, optimization },
+                };
+            },
         },
     };
 }
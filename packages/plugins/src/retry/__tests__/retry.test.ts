@@ -1,22 +1,23 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createRetryPlugin, withRetry, getRetryConfig } from '../index';
-import { MediaError, MediaErrorCode, PartialUploadError } from '@fluxmedia/core';
+import { MediaError, MediaErrorCode, OperationContext, PartialUploadError } from '@fluxmedia/core';
 import type { PartialUploadContext } from '@fluxmedia/core';
 
 describe('RetryPlugin', () => {
   describe('createRetryPlugin', () => {
-    it('should add retry config to metadata', async () => {
+    it('should add retry config to the plugin context', async () => {
       const plugin = createRetryPlugin({
         maxRetries: 5,
         retryDelay: 500,
       });
 
       const file = Buffer.from('test');
+      const context = new OperationContext().forPlugin('retry');
 
-      const result = await plugin.hooks.beforeUpload!(file, {});
+      const result = await plugin.hooks.beforeUpload!(file, {}, context);
 
-      expect(result).toBeDefined();
-      expect(result!.options.metadata?._retry).toMatchObject({
+      expect(result).toBeUndefined();
+      expect(context.state.retry).toMatchObject({
         maxRetries: 5,
         currentAttempt: 0,
       });
@@ -31,12 +32,13 @@ describe('RetryPlugin', () => {
   });
 
   describe('getRetryConfig', () => {
-    it('should extract retry config from options', async () => {
+    it("should read retry config from another plugin's context", async () => {
       const plugin = createRetryPlugin({ maxRetries: 3 });
       const file = Buffer.from('test');
+      const operation = new OperationContext();
 
-      const result = await plugin.hooks.beforeUpload!(file, {});
-      const config = getRetryConfig(result!.options);
+      await plugin.hooks.beforeUpload!(file, {}, operation.forPlugin('retry'));
+      const config = getRetryConfig(operation.forPlugin('other'));
 
       expect(config).toBeDefined();
       expect(config!.maxRetries).toBe(3);
@@ -152,6 +154,45 @@ describe('withRetry', () => {
       expect(fn).toHaveBeenCalledTimes(3); // Initial + 2 retries
     });
 
+    it('should follow the retryable flag when no codes are configured', async () => {
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new MediaError(
+            'internal error',
+            MediaErrorCode.UPLOAD_FAILED,
+            'test',
+            undefined,
+            undefined,
+            {
+              retryable: true,
+            }
+          )
+        )
+        .mockRejectedValueOnce(new MediaError('exists', MediaErrorCode.CONFLICT, 'test'))
+        .mockResolvedValue('success');
+
+      await expect(withRetry(fn, { maxRetries: 3, retryDelay: 10 })).rejects.toThrow('exists');
+
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait at least as long as Retry-After', async () => {
+      const onRetry = vi.fn();
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new MediaError('slow down', MediaErrorCode.RATE_LIMITED, 'test', undefined, undefined, {
+            retryAfterMs: 50,
+          })
+        )
+        .mockResolvedValue('success');
+
+      await withRetry(fn, { maxRetries: 1, retryDelay: 10, onRetry });
+
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(MediaError), 50);
+    });
+
     it('should use custom shouldRetry function', async () => {
       const shouldRetry = vi.fn().mockReturnValue(false);
 
@@ -6,10 +6,11 @@
 
 import {
   type FluxMediaPlugin,
-  type UploadOptions,
+  type PluginContext,
   MediaError,
   MediaErrorCode,
   PartialUploadError,
+  isRetryableError,
   type PartialUploadContext,
 } from '@fluxmedia/core';
 
@@ -23,8 +24,11 @@ export interface RetryOptions {
   retryDelay?: number;
   /** Use exponential backoff (default: true) */
   exponentialBackoff?: boolean;
-  /** Error codes that should trigger a retry */
-  retryableErrors?: MediaErrorCode[];
+  /**
+   * Error codes that should trigger a retry. By default every error whose
+   * `retryable` flag is set is retried.
+   */
+  retryableErrors?: MediaErrorCode[] | undefined;
   /** Callback when a retry is attempted */
   onRetry?: ((attempt: number, error: Error, nextDelay: number) => void) | undefined;
   /** Custom function to determine if error should be retried */
@@ -32,7 +36,7 @@ export interface RetryOptions {
 }
 
 /**
- * Retry configuration stored in metadata
+ * Retry configuration stored in the upload's plugin context
  */
 export interface RetryMetadata {
   maxRetries: number;
@@ -40,15 +44,6 @@ export interface RetryMetadata {
   config: RetryOptions;
 }
 
-/**
- * Default retryable error codes
- */
-const DEFAULT_RETRYABLE_ERRORS: MediaErrorCode[] = [
-  MediaErrorCode.NETWORK_ERROR,
-  MediaErrorCode.RATE_LIMITED,
-  MediaErrorCode.UPLOAD_FAILED,
-];
-
 /**
  * Sleep for a given number of milliseconds
  */
@@ -57,23 +52,14 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Check if an error is retryable
+ * Check if an error should be retried: by code when `retryableErrors` is set,
+ * otherwise by the error's own retry hint
  */
-function isRetryableError(error: Error, retryableErrors: MediaErrorCode[]): boolean {
-  if (error instanceof MediaError) {
+function shouldRetryError(error: Error, retryableErrors: MediaErrorCode[] | undefined): boolean {
+  if (retryableErrors && error instanceof MediaError) {
     return retryableErrors.includes(error.code);
   }
-
-  // Check for common network errors by message
-  const message = error.message.toLowerCase();
-  return (
-    message.includes('network') ||
-    message.includes('timeout') ||
-    message.includes('econnrefused') ||
-    message.includes('econnreset') ||
-    message.includes('rate limit') ||
-    message.includes('socket hang up')
-  );
+  return isRetryableError(error);
 }
 
 /**
@@ -97,12 +83,12 @@ function isRetryableError(error: Error, retryableErrors: MediaErrorCode[]): bool
  * ```
  */
 export function createRetryPlugin(options: RetryOptions = {}): FluxMediaPlugin {
-  const config: Required<Omit<RetryOptions, 'shouldRetry' | 'onRetry'>> &
-    Pick<RetryOptions, 'shouldRetry' | 'onRetry'> = {
+  const config: Required<Omit<RetryOptions, 'shouldRetry' | 'onRetry' | 'retryableErrors'>> &
+    Pick<RetryOptions, 'shouldRetry' | 'onRetry' | 'retryableErrors'> = {
     maxRetries: options.maxRetries ?? 3,
     retryDelay: options.retryDelay ?? 1000,
     exponentialBackoff: options.exponentialBackoff ?? true,
-    retryableErrors: options.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS,
+    retryableErrors: options.retryableErrors,
     onRetry: options.onRetry,
     shouldRetry: options.shouldRetry,
   };
@@ -111,26 +97,14 @@ export function createRetryPlugin(options: RetryOptions = {}): FluxMediaPlugin {
     name: 'retry',
     version: '1.0.0',
     hooks: {
-      async beforeUpload(
-        file: File | Buffer,
-        uploadOptions: UploadOptions
-      ): Promise<{ file: File | Buffer; options: UploadOptions } | void> {
-        // Store retry configuration in metadata
+      async beforeUpload(_file, _uploadOptions, context): Promise<void> {
+        // Store retry configuration in the context, out of the provider's reach
         const retryMetadata: RetryMetadata = {
           maxRetries: config.maxRetries,
           currentAttempt: 0,
           config,
         };
-
-        const enrichedOptions: UploadOptions = {
-          ...uploadOptions,
-          metadata: {
-            ...uploadOptions.metadata,
-            _retry: retryMetadata,
-          },
-        };
-
-        return { file, options: enrichedOptions };
+        context.state.retry = retryMetadata;
       },
     },
   };
@@ -151,7 +125,7 @@ export function createRetryPlugin(options: RetryOptions = {}): FluxMediaPlugin {
  * @example
  * ```typescript
  * const result = await withRetry(
- *   (resumeCtx) => uploader.upload(file, { ...opts, _resumeContext: resumeCtx }),
+ *   (resumeFrom) => uploader.upload(file, { ...opts, resumable: true, resumeFrom }),
  *   {
  *     maxRetries: 3,
  *     exponentialBackoff: true,
@@ -170,7 +144,7 @@ export async function withRetry<T>(
     maxRetries: options.maxRetries ?? 3,
     retryDelay: options.retryDelay ?? 1000,
     exponentialBackoff: options.exponentialBackoff ?? true,
-    retryableErrors: options.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS,
+    retryableErrors: options.retryableErrors,
     onRetry: options.onRetry,
     shouldRetry: options.shouldRetry,
   };
@@ -192,17 +166,19 @@ export async function withRetry<T>(
       // Check if we should retry
       const shouldRetry = config.shouldRetry
         ? config.shouldRetry(lastError, attempt)
-        : isRetryableError(lastError, config.retryableErrors);
+        : shouldRetryError(lastError, config.retryableErrors);
 
       // Don't retry if this was the last attempt or error is not retryable
       if (attempt === config.maxRetries || !shouldRetry) {
         throw lastError;
       }
 
-      // Calculate delay
-      const delay = config.exponentialBackoff
+      // Calculate delay, waiting at least as long as the provider asked
+      const backoff = config.exponentialBackoff
         ? config.retryDelay * Math.pow(2, attempt)
         : config.retryDelay;
+      const retryAfter = lastError instanceof MediaError ? (lastError.retryAfterMs ?? 0) : 0;
+      const delay = Math.max(backoff, retryAfter);
 
       // Call onRetry callback
       if (config.onRetry) {
@@ -218,8 +194,8 @@ export async function withRetry<T>(
 }
 
 /**
- * Get retry configuration from upload options metadata
+ * Get retry configuration from a plugin context of the same upload
  */
-export function getRetryConfig(options: UploadOptions): RetryMetadata | undefined {
-  return options.metadata?._retry as RetryMetadata | undefined;
+export function getRetryConfig(context: PluginContext): RetryMetadata | undefined {
+  return context.stateOf('retry')?.retry as RetryMetadata | undefined;
 }
@@ -129,6 +129,8 @@ export function createFileValidationPlugin(
     return {
         name: 'file-validation',
         version: '1.0.0',
+        // Reject invalid files before any work is spent on them
+        before: ['image-optimization', 'metadata-extraction'],
         hooks: {
             async beforeUpload(
                 file: File | Buffer,
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BatchDeleteError } from '@fluxmedia/core';
+import { R2Provider } from '../r2-provider';
+
+const { send, DeleteObjectsCommand } = vi.hoisted(() => ({
+    send: vi.fn(),
+    DeleteObjectsCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    DeleteObjectsCommand,
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+describe('R2Provider deleteMultiple', () => {
+    it('should delete in DeleteObjects batches and report failed keys', async () => {
+        send.mockResolvedValueOnce({}).mockResolvedValueOnce({
+            Errors: [{ Key: 'k-1000', Code: 'InternalError', Message: 'Internal error' }],
+        });
+        const provider = new R2Provider({
+            accountId: 'test-account',
+            bucket: 'test-bucket',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+        const ids = Array.from({ length: 1200 }, (_, i) => `k-${i}`);
+
+        const error = await provider.deleteMultiple(ids).catch((e: unknown) => e);
+
+        expect(DeleteObjectsCommand).toHaveBeenCalledTimes(2);
+        expect(error).toBeInstanceOf(BatchDeleteError);
+        expect(error).toMatchObject({ provider: 'r2', failedIds: ['k-1000'], retryable: true });
+    });
+});
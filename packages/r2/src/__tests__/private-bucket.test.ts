@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { R2Provider } from '../r2-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+describe('R2Provider without a public URL', () => {
+    let provider: R2Provider;
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        provider = new R2Provider({
+            accountId: 'test-account',
+            bucket: 'test-bucket',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should get objects with empty URLs', async () => {
+        send.mockResolvedValueOnce({ ContentLength: 4, ContentType: 'text/plain' });
+
+        const result = await provider.get('docs/a.txt');
+
+        expect(result).toMatchObject({ id: 'docs/a.txt', url: '', publicUrl: '', size: 4 });
+    });
+
+    it('should list objects with empty URLs', async () => {
+        send.mockResolvedValueOnce({ Contents: [{ Key: 'docs/a.txt', Size: 4 }] });
+
+        const { items } = await provider.list();
+
+        expect(items).toHaveLength(1);
+        expect(items[0]).toMatchObject({ id: 'docs/a.txt', url: '', publicUrl: '' });
+    });
+
+    it('should copy objects with empty URLs', async () => {
+        send.mockResolvedValueOnce({}).mockResolvedValueOnce({ ContentLength: 4 });
+
+        const result = await provider.copy('docs/a.txt', 'docs/b.txt');
+
+        expect(result).toMatchObject({ id: 'docs/b.txt', url: '', publicUrl: '' });
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { R2Provider } from '../r2-provider';
+
+const { getSignedUrl } = vi.hoisted(() => ({ getSignedUrl: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send: vi.fn() };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+    PutObjectCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+vi.mock('@aws-sdk/s3-request-presigner', () => ({ getSignedUrl }));
+
+describe('R2Provider createSignedUpload', () => {
+    const config = {
+        accountId: 'test-account',
+        bucket: 'test-bucket',
+        accessKeyId: 'test-key',
+        secretAccessKey: 'test-secret',
+    };
+
+    beforeEach(() => {
+        getSignedUrl.mockReset();
+        getSignedUrl.mockResolvedValue('https://test-account.r2.cloudflarestorage.com/signed');
+    });
+
+    it('should presign a PUT and build the public URL', async () => {
+        const provider = new R2Provider({ ...config, publicUrl: 'https://cdn.example.com' });
+
+        const signed = await provider.createSignedUpload({
+            filename: 'clip.mp4',
+            contentType: 'video/mp4',
+            folder: 'videos',
+        });
+
+        expect(getSignedUrl.mock.calls[0]![1].input).toEqual({
+            Bucket: 'test-bucket',
+            Key: 'videos/clip.mp4',
+            ContentType: 'video/mp4',
+        });
+        expect(getSignedUrl.mock.calls[0]![2]).toEqual({ expiresIn: 3600 });
+        expect(signed).toEqual({
+            uploadUrl: 'https://test-account.r2.cloudflarestorage.com/signed',
+            method: 'PUT',
+            headers: { 'Content-Type': 'video/mp4' },
+            publicId: 'videos/clip.mp4',
+            publicUrl: 'https://cdn.example.com/videos/clip.mp4',
+        });
+    });
+
+    it('should omit publicUrl when the bucket has no public URL', async () => {
+        const provider = new R2Provider(config);
+
+        const signed = await provider.createSignedUpload({
+            filename: 'clip.mp4',
+            contentType: 'video/mp4',
+        });
+
+        expect(signed.publicUrl).toBeUndefined();
+    });
+});
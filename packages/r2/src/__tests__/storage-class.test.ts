@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { R2Provider } from '../r2-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+describe('R2Provider storage classes', () => {
+    let provider: R2Provider;
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        provider = new R2Provider({
+            accountId: 'test-account',
+            bucket: 'test-bucket',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+            publicUrl: 'https://cdn.example.com',
+        });
+    });
+
+    it('should transition objects to Infrequent Access', async () => {
+        send.mockResolvedValueOnce({})
+            .mockResolvedValueOnce({})
+            .mockResolvedValueOnce({ StorageClass: 'STANDARD_IA' });
+
+        const result = await provider.transition('logs/2025.tar', 'STANDARD_IA');
+
+        expect(send.mock.calls[1]![0].input).toMatchObject({
+            Key: 'logs/2025.tar',
+            StorageClass: 'STANDARD_IA',
+        });
+        expect(result.metadata.storageClass).toBe('STANDARD_IA');
+    });
+
+    it('should reject storage classes R2 does not offer', async () => {
+        await expect(provider.transition('a', 'GLACIER')).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+            message: "Storage class 'GLACIER' is not supported by R2 - use one of STANDARD, STANDARD_IA",
+        });
+        await expect(
+            provider.upload(Buffer.from('x'), { storageClass: 'DEEP_ARCHIVE' })
+        ).rejects.toMatchObject({ code: MediaErrorCode.INVALID_CONFIG });
+        await expect(provider.restore('a', { days: 1 })).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+        });
+        expect(send).not.toHaveBeenCalled();
+    });
+});
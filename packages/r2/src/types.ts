@@ -1,23 +1,9 @@
+import type { S3CompatibleConfig } from '@fluxmedia/s3';
+
 /**
  * Configuration options for Cloudflare R2 provider
  */
-export interface R2Config {
-
-    /**
-     * R2 bucket name
-     */
-    bucket: string;
-
-    /**
-     * R2 Access Key ID
-     */
-    accessKeyId: string;
-
-    /**
-     * R2 Secret Access Key
-     */
-    secretAccessKey: string;
-
+export interface R2Config extends S3CompatibleConfig {
     /**
      * Custom public URL for the bucket (if configured)
      */
@@ -7,5 +7,5 @@ export default defineConfig({
     sourcemap: false,
     clean: true,
     treeshake: true,
-    external: ['@aws-sdk/client-s3', '@aws-sdk/lib-storage', '@fluxmedia/core'],
+    external: ['@aws-sdk/client-s3', '@aws-sdk/lib-storage', '@fluxmedia/core', '@fluxmedia/s3'],
 });
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send, Upload } = vi.hoisted(() => ({ send: vi.fn(), Upload: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+vi.mock('@aws-sdk/lib-storage', () => ({ Upload }));
+
+type UploadParams = {
+    client: { send: (command: unknown, options?: unknown) => Promise<unknown> };
+    abortController: AbortController;
+};
+
+describe('S3Provider abort', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        Upload.mockReset();
+        Upload.mockImplementation(function (this: Record<string, unknown>, params: UploadParams) {
+            // Behaves like lib-storage: rejects once its abort controller fires
+            this.uploadId = 'upload-1';
+            this.on = vi.fn();
+            this.done = () =>
+                new Promise((_, reject) => {
+                    params.abortController.signal.addEventListener('abort', () => {
+                        reject(Object.assign(new Error('Upload aborted.'), { name: 'AbortError' }));
+                    });
+                });
+        });
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should reject with ABORTED and abort the multipart upload', async () => {
+        const controller = new AbortController();
+        const pending = provider.upload(Buffer.from('data'), {
+            filename: 'big',
+            uniqueFilename: false,
+            signal: controller.signal,
+        });
+
+        await vi.waitFor(() => expect(Upload).toHaveBeenCalled());
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+        expect(send).toHaveBeenCalledWith({
+            input: { Bucket: 'test-bucket', Key: 'big', UploadId: 'upload-1' },
+        });
+    });
+
+    it('should cancel requests sent by lib-storage through the signal', async () => {
+        const controller = new AbortController();
+        const pending = provider.upload(Buffer.from('data'), { signal: controller.signal });
+
+        await vi.waitFor(() => expect(Upload).toHaveBeenCalled());
+        const { client } = Upload.mock.calls[0]![0] as UploadParams;
+        await client.send('UploadPartCommand');
+
+        expect(send).toHaveBeenCalledWith('UploadPartCommand', { abortSignal: controller.signal });
+
+        controller.abort();
+        await pending.catch(() => undefined);
+    });
+
+    it('should not start an upload when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+            provider.upload(Buffer.from('data'), { signal: controller.signal })
+        ).rejects.toMatchObject({ code: MediaErrorCode.ABORTED });
+        expect(Upload).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { done, Upload } = vi.hoisted(() => ({ done: vi.fn(), Upload: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send: vi.fn() };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+vi.mock('@aws-sdk/lib-storage', () => ({ Upload }));
+
+function serviceError(name: string, httpStatusCode: number) {
+    return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+describe('S3Provider conditional uploads', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        done.mockReset().mockResolvedValue({});
+        Upload.mockReset();
+        Upload.mockImplementation(function (this: Record<string, unknown>) {
+            this.on = vi.fn();
+            this.done = done;
+        });
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should send If-None-Match for ifNotExists', async () => {
+        await provider.upload(Buffer.from('data'), {
+            filename: 'report',
+            uniqueFilename: false,
+            ifNotExists: true,
+        });
+
+        const { params } = Upload.mock.calls[0]![0];
+        expect(params.IfNoneMatch).toBe('*');
+        expect(params).not.toHaveProperty('IfMatch');
+    });
+
+    it('should send If-Match for ifMatch', async () => {
+        await provider.upload(Buffer.from('data'), {
+            filename: 'report',
+            uniqueFilename: false,
+            ifMatch: '"abc"',
+        });
+
+        const { params } = Upload.mock.calls[0]![0];
+        expect(params.IfMatch).toBe('"abc"');
+        expect(params).not.toHaveProperty('IfNoneMatch');
+    });
+
+    it('should send no conditions by default', async () => {
+        await provider.upload(Buffer.from('data'));
+
+        const { params } = Upload.mock.calls[0]![0];
+        expect(params).not.toHaveProperty('IfNoneMatch');
+        expect(params).not.toHaveProperty('IfMatch');
+    });
+
+    it('should fail with CONFLICT when the object already exists', async () => {
+        done.mockRejectedValueOnce(serviceError('PreconditionFailed', 412));
+
+        await expect(
+            provider.upload(Buffer.from('data'), {
+                filename: 'report',
+                uniqueFilename: false,
+                ifNotExists: true,
+            })
+        ).rejects.toMatchObject({
+            code: MediaErrorCode.CONFLICT,
+            retryable: false,
+            httpStatus: 412,
+            message: "Object 'report' already exists",
+        });
+    });
+
+    it('should fail with CONFLICT when a concurrent write wins', async () => {
+        done.mockRejectedValueOnce(serviceError('ConditionalRequestConflict', 409));
+
+        await expect(
+            provider.upload(Buffer.from('data'), { filename: 'report', ifMatch: '"abc"' })
+        ).rejects.toMatchObject({ code: MediaErrorCode.CONFLICT });
+    });
+
+    it('should fail with CONFLICT when the matched object was deleted', async () => {
+        done.mockRejectedValueOnce(serviceError('NoSuchKey', 404));
+
+        await expect(
+            provider.upload(Buffer.from('data'), { filename: 'report', ifMatch: '"abc"' })
+        ).rejects.toMatchObject({ code: MediaErrorCode.CONFLICT });
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(function (input: unknown) {
+        return { type: 'delete', input };
+    }),
+    HeadObjectCommand: vi.fn(function (input: unknown) {
+        return { type: 'head', input };
+    }),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(function (input: unknown) {
+        return { type: 'copy', input };
+    }),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+describe('S3Provider copy and move', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should copy server-side and describe the new object', async () => {
+        send.mockResolvedValueOnce({}).mockResolvedValueOnce({
+            ContentLength: 42,
+            ContentType: 'image/png',
+            Metadata: { extension: 'png' },
+        });
+
+        const result = await provider.copy('uploads/my photo.png', 'archive/photo.png');
+
+        expect(send.mock.calls[0]![0]).toEqual({
+            type: 'copy',
+            input: {
+                Bucket: 'test-bucket',
+                Key: 'archive/photo.png',
+                CopySource: 'test-bucket/uploads/my%20photo.png',
+            },
+        });
+        expect(send.mock.calls[1]![0].type).toBe('head');
+        expect(result).toMatchObject({
+            id: 'archive/photo.png',
+            storageKey: 'archive/photo.png',
+            size: 42,
+            format: 'png',
+        });
+    });
+
+    it('should delete the source after copying on move', async () => {
+        send.mockResolvedValue({ ContentLength: 1 });
+
+        await provider.move('a.png', 'b.png');
+
+        expect(send.mock.calls.map(([command]) => command.type)).toEqual(['copy', 'head', 'delete']);
+        expect(send.mock.calls[2]![0].input).toEqual({ Bucket: 'test-bucket', Key: 'a.png' });
+    });
+
+    it('should not delete the source when the copy fails', async () => {
+        send.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { name: 'NoSuchKey' }));
+
+        await expect(provider.move('missing.png', 'b.png')).rejects.toMatchObject({
+            code: MediaErrorCode.FILE_NOT_FOUND,
+        });
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BatchDeleteError, MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send, DeleteObjectsCommand } = vi.hoisted(() => ({
+    send: vi.fn(),
+    DeleteObjectsCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    DeleteObjectsCommand,
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+const keys = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, i) => `files/${i + offset}.jpg`);
+
+describe('S3Provider deleteMultiple', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        DeleteObjectsCommand.mockClear();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should delete up to 1000 keys per DeleteObjects request', async () => {
+        await provider.deleteMultiple(keys(2500));
+
+        expect(send).toHaveBeenCalledTimes(3);
+        const batches = DeleteObjectsCommand.mock.calls.map(([input]) => input.Delete.Objects);
+        expect(batches.map((objects) => objects.length)).toEqual([1000, 1000, 500]);
+        expect(batches[2]![0]).toEqual({ Key: 'files/2000.jpg' });
+        expect(DeleteObjectsCommand.mock.calls[0]![0]).toMatchObject({
+            Bucket: 'test-bucket',
+            Delete: { Quiet: true },
+        });
+    });
+
+    it('should not send a request for an empty list', async () => {
+        await provider.deleteMultiple([]);
+
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should report per-key failures in a BatchDeleteError', async () => {
+        send.mockResolvedValueOnce({
+            Errors: [
+                { Key: 'files/1.jpg', Code: 'AccessDenied', Message: 'Access Denied' },
+                { Key: 'files/2.jpg', Code: 'InternalError', Message: 'We encountered an internal error' },
+            ],
+        });
+
+        const error = await provider.deleteMultiple(keys(4)).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(BatchDeleteError);
+        const batchError = error as BatchDeleteError;
+        expect(batchError.message).toBe('Failed to delete 2 of 4 files');
+        expect(batchError.code).toBe(MediaErrorCode.DELETE_FAILED);
+        expect(batchError.failedIds).toEqual(['files/1.jpg', 'files/2.jpg']);
+        expect(batchError.batchContext.deleted).toEqual(['files/0.jpg', 'files/3.jpg']);
+        expect(batchError.batchContext.failed[0]!.error.code).toBe(MediaErrorCode.UNAUTHORIZED);
+        expect(batchError.batchContext.failed[1]!.error).toMatchObject({
+            code: MediaErrorCode.DELETE_FAILED,
+            retryable: true,
+            message: 'We encountered an internal error',
+        });
+        // Access denied won't go away on retry
+        expect(batchError.retryable).toBe(false);
+    });
+
+    it('should keep going after a failed request and fail all of its keys', async () => {
+        send.mockRejectedValueOnce(
+            Object.assign(new Error('Slow Down'), { name: 'SlowDown', $metadata: { httpStatusCode: 503 } })
+        );
+
+        const error = (await provider.deleteMultiple(keys(1001)).catch((e: unknown) => e)) as BatchDeleteError;
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(error.failedIds).toHaveLength(1000);
+        expect(error.batchContext.deleted).toEqual(['files/1000.jpg']);
+        expect(error.batchContext.failed[0]!.error.code).toBe(MediaErrorCode.RATE_LIMITED);
+        expect(error.retryable).toBe(true);
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+    GetObjectCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+function body(text: string) {
+    return {
+        transformToWebStream: () => new Response(text).body,
+    };
+}
+
+describe('S3Provider download', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should stream GetObject with its headers', async () => {
+        send.mockResolvedValueOnce({
+            Body: body('hello'),
+            ContentType: 'text/plain',
+            ContentLength: 5,
+            ETag: '"abc"',
+        });
+
+        const result = await provider.download('docs/hello.txt');
+
+        expect(send.mock.calls[0]![0].input).toEqual({ Bucket: 'test-bucket', Key: 'docs/hello.txt' });
+        expect(await new Response(result.stream).text()).toBe('hello');
+        expect(result).toMatchObject({ contentType: 'text/plain', contentLength: 5, etag: '"abc"' });
+    });
+
+    it('should send the range and abort signal', async () => {
+        send.mockResolvedValueOnce({
+            Body: body('llo'),
+            ContentLength: 3,
+            ContentRange: 'bytes 2-4/5',
+        });
+        const controller = new AbortController();
+
+        const result = await provider.download('docs/hello.txt', {
+            range: { start: 2, end: 4 },
+            signal: controller.signal,
+        });
+
+        expect(send.mock.calls[0]![0].input.Range).toBe('bytes=2-4');
+        expect(send.mock.calls[0]![1]).toEqual({ abortSignal: controller.signal });
+        expect(result.contentRange).toBe('bytes 2-4/5');
+    });
+
+    it('should request an open-ended range', async () => {
+        send.mockResolvedValueOnce({ Body: body('') });
+
+        await provider.download('docs/hello.txt', { range: { start: 100 } });
+
+        expect(send.mock.calls[0]![0].input.Range).toBe('bytes=100-');
+    });
+
+    it('should map a missing key to FILE_NOT_FOUND', async () => {
+        send.mockRejectedValueOnce(
+            Object.assign(new Error('missing'), { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } })
+        );
+
+        await expect(provider.download('missing')).rejects.toMatchObject({
+            code: MediaErrorCode.FILE_NOT_FOUND,
+        });
+    });
+});
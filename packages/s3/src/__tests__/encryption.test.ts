@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send, done, Upload } = vi.hoisted(() => ({
+    send: vi.fn(),
+    done: vi.fn(),
+    Upload: vi.fn(),
+}));
+
+const command = () =>
+    vi.fn(function (input: unknown) {
+        return { input };
+    });
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: command(),
+    HeadObjectCommand: command(),
+    ListObjectsV2Command: command(),
+    CopyObjectCommand: command(),
+    GetObjectCommand: command(),
+    PutObjectCommand: command(),
+    AbortMultipartUploadCommand: command(),
+}));
+
+vi.mock('@aws-sdk/lib-storage', () => ({ Upload }));
+
+const config = {
+    bucket: 'test-bucket',
+    region: 'us-east-1',
+    accessKeyId: 'test-key',
+    secretAccessKey: 'test-secret',
+};
+const customerKey = Buffer.alloc(32, 7);
+
+function serviceError(name: string, httpStatusCode: number, message = name) {
+    return Object.assign(new Error(message), { name, $metadata: { httpStatusCode } });
+}
+
+describe('S3Provider server-side encryption', () => {
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        done.mockReset().mockResolvedValue({});
+        Upload.mockReset();
+        Upload.mockImplementation(function (this: Record<string, unknown>) {
+            this.on = vi.fn();
+            this.done = done;
+        });
+    });
+
+    it('should upload with SSE-KMS and report the key S3 used', async () => {
+        done.mockResolvedValueOnce({
+            ServerSideEncryption: 'aws:kms',
+            SSEKMSKeyId: 'arn:aws:kms:us-east-1:123:key/abc',
+            BucketKeyEnabled: true,
+        });
+        const provider = new S3Provider(config);
+
+        const result = await provider.upload(Buffer.from('data'), {
+            encryption: {
+                type: 'sse-kms',
+                keyId: 'alias/media',
+                context: { tenant: 'acme' },
+                bucketKey: true,
+            },
+        });
+
+        expect(Upload.mock.calls[0]![0].params).toMatchObject({
+            ServerSideEncryption: 'aws:kms',
+            SSEKMSKeyId: 'alias/media',
+            SSEKMSEncryptionContext: Buffer.from('{"tenant":"acme"}').toString('base64'),
+            BucketKeyEnabled: true,
+        });
+        expect(result.metadata.encryption).toEqual({
+            type: 'sse-kms',
+            keyId: 'arn:aws:kms:us-east-1:123:key/abc',
+            bucketKey: true,
+        });
+    });
+
+    it('should apply the configured encryption unless an upload overrides it', async () => {
+        const provider = new S3Provider({ ...config, encryption: { type: 'sse-s3' } });
+
+        const defaulted = await provider.upload(Buffer.from('a'));
+        await provider.upload(Buffer.from('b'), { encryption: { type: 'sse-kms' } });
+
+        expect(Upload.mock.calls[0]![0].params.ServerSideEncryption).toBe('AES256');
+        expect(Upload.mock.calls[1]![0].params.ServerSideEncryption).toBe('aws:kms');
+        expect(Upload.mock.calls[1]![0].params).not.toHaveProperty('SSEKMSKeyId');
+        expect(defaulted.metadata.encryption).toEqual({ type: 'sse-s3' });
+    });
+
+    it('should not report encryption when none was requested or returned', async () => {
+        const result = await new S3Provider(config).upload(Buffer.from('a'));
+
+        expect(result.metadata).not.toHaveProperty('encryption');
+    });
+
+    it('should send the SSE-C key on upload, get, download and copy', async () => {
+        const provider = new S3Provider({ ...config, encryption: { type: 'sse-c', customerKey } });
+        const sseC = { SSECustomerAlgorithm: 'AES256', SSECustomerKey: customerKey.toString('base64') };
+        send.mockResolvedValue({
+            SSECustomerAlgorithm: 'AES256',
+            SSECustomerKeyMD5: 'md5==',
+            Body: { transformToWebStream: () => new ReadableStream() },
+        });
+
+        await provider.upload(Buffer.from('data'));
+        const got = await provider.get('a.png');
+        await provider.download('a.png');
+        await provider.copy('a.png', 'b.png');
+
+        expect(Upload.mock.calls[0]![0].params).toMatchObject(sseC);
+        const inputs = send.mock.calls.map(([sent]) => sent.input);
+        expect(inputs[0]).toMatchObject({ Key: 'a.png', ...sseC });
+        expect(inputs[1]).toMatchObject({ Key: 'a.png', ...sseC });
+        expect(inputs[2]).toMatchObject({
+            Key: 'b.png',
+            ...sseC,
+            CopySourceSSECustomerAlgorithm: 'AES256',
+            CopySourceSSECustomerKey: sseC.SSECustomerKey,
+        });
+        expect(got.metadata.encryption).toEqual({ type: 'sse-c', customerKeyMd5: 'md5==' });
+    });
+
+    it('should accept a per-download SSE-C key and validate its length', async () => {
+        const provider = new S3Provider(config);
+        send.mockResolvedValue({ Body: { transformToWebStream: () => new ReadableStream() } });
+
+        await provider.download('a.png', {
+            encryption: { type: 'sse-c', customerKey: customerKey.toString('base64') },
+        });
+
+        expect(send.mock.calls[0]![0].input.SSECustomerKey).toBe(customerKey.toString('base64'));
+        await expect(
+            provider.upload(Buffer.from('data'), {
+                encryption: { type: 'sse-c', customerKey: 'too-short' },
+            })
+        ).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+            message: 'SSE-C customerKey must be 32 bytes, got 9',
+        });
+        expect(Upload).not.toHaveBeenCalled();
+    });
+
+    it('should accept a per-call SSE-C key on get, copy and move', async () => {
+        const provider = new S3Provider(config);
+        const encryption = { type: 'sse-c' as const, customerKey };
+        const sseC = { SSECustomerAlgorithm: 'AES256', SSECustomerKey: customerKey.toString('base64') };
+
+        await provider.get('a.png', { encryption });
+        await provider.copy('a.png', 'b.png', { encryption });
+        await provider.move('b.png', 'c.png', { encryption });
+
+        const inputs = send.mock.calls.map(([sent]) => sent.input);
+        expect(inputs[0]).toMatchObject({ Key: 'a.png', ...sseC });
+        // CopyObject reads the source and writes the copy with the same key
+        expect(inputs[1]).toMatchObject({
+            Key: 'b.png',
+            ...sseC,
+            CopySourceSSECustomerKey: sseC.SSECustomerKey,
+        });
+        expect(inputs[2]).toMatchObject({ Key: 'b.png', ...sseC });
+        expect(inputs[3]).toMatchObject({ Key: 'c.png', ...sseC });
+        expect(inputs[4]).toMatchObject({ Key: 'c.png', ...sseC });
+    });
+
+    it('should map KMS errors', async () => {
+        const provider = new S3Provider(config);
+        const upload = () =>
+            provider.upload(Buffer.from('data'), { encryption: { type: 'sse-kms', keyId: 'k' } });
+
+        done.mockRejectedValueOnce(
+            serviceError('AccessDenied', 403, 'User is not authorized to perform: kms:GenerateDataKey')
+        );
+        await expect(upload()).rejects.toMatchObject({
+            code: MediaErrorCode.UNAUTHORIZED,
+            retryable: false,
+            message:
+                'Access denied to the KMS key - allow kms:GenerateDataKey and kms:Decrypt for these credentials',
+        });
+
+        done.mockRejectedValueOnce(serviceError('KMS.DisabledException', 400, 'key is disabled'));
+        await expect(upload()).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+            message: 'KMS key cannot be used: key is disabled',
+        });
+
+        done.mockRejectedValueOnce(serviceError('KMS.ThrottlingException', 400));
+        await expect(upload()).rejects.toMatchObject({
+            code: MediaErrorCode.RATE_LIMITED,
+            retryable: true,
+        });
+    });
+
+    it('should map reads without the right SSE-C key to INVALID_CONFIG', async () => {
+        send.mockRejectedValueOnce(
+            serviceError(
+                'InvalidRequest',
+                400,
+                'The object was stored using a form of Server Side Encryption. The correct parameters must be provided to retrieve the object.'
+            )
+        );
+
+        await expect(new S3Provider(config).download('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+function serviceError(name: string, httpStatusCode: number, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(name), {
+        name,
+        $metadata: { httpStatusCode, requestId: 'req-abc' },
+        $response: { headers },
+    });
+}
+
+describe('S3Provider error mapping', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should map SlowDown to RATE_LIMITED with the Retry-After hint', async () => {
+        send.mockRejectedValueOnce(serviceError('SlowDown', 503, { 'retry-after': '5' }));
+
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.RATE_LIMITED,
+            retryable: true,
+            retryAfterMs: 5000,
+            httpStatus: 503,
+            requestId: 'req-abc',
+        });
+    });
+
+    it('should map precondition failures and conflicts', async () => {
+        send.mockRejectedValueOnce(serviceError('PreconditionFailed', 412));
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.PRECONDITION_FAILED,
+            retryable: false,
+        });
+
+        send.mockRejectedValueOnce(serviceError('ConditionalRequestConflict', 409));
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.CONFLICT,
+            retryable: false,
+        });
+    });
+
+    it('should map digest mismatches to a retryable CHECKSUM_MISMATCH', async () => {
+        send.mockRejectedValueOnce(serviceError('BadDigest', 400));
+
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.CHECKSUM_MISMATCH,
+            retryable: true,
+        });
+    });
+
+    it('should map timeouts to TIMEOUT', async () => {
+        send.mockRejectedValueOnce(Object.assign(new Error('socket timed out'), { code: 'ETIMEDOUT' }));
+
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.TIMEOUT,
+            retryable: true,
+        });
+    });
+
+    it('should keep the operation code for server errors but flag them retryable', async () => {
+        send.mockRejectedValueOnce(serviceError('InternalError', 500));
+
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.DELETE_FAILED,
+            retryable: true,
+            httpStatus: 500,
+        });
+    });
+
+    it('should not flag client errors as retryable', async () => {
+        send.mockRejectedValueOnce(serviceError('AccessDenied', 403));
+
+        await expect(provider.delete('a.png')).rejects.toMatchObject({
+            code: MediaErrorCode.UNAUTHORIZED,
+            retryable: false,
+            httpStatus: 403,
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+describe('S3Provider list', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should map ListObjectsV2 contents and continuation token', async () => {
+        send.mockResolvedValueOnce({
+            Contents: [
+                { Key: 'avatars/a.png', Size: 10, ETag: '"abc"', LastModified: new Date(0) },
+                { Key: 'avatars/b', Size: 20 },
+            ],
+            IsTruncated: true,
+            NextContinuationToken: 'token-2',
+        });
+
+        const page = await provider.list({ prefix: 'avatars/', limit: 2 });
+
+        expect(send.mock.calls[0]![0].input).toEqual({
+            Bucket: 'test-bucket',
+            Prefix: 'avatars/',
+            MaxKeys: 2,
+        });
+        expect(page.nextCursor).toBe('token-2');
+        expect(page.items).toHaveLength(2);
+        expect(page.items[0]).toMatchObject({
+            id: 'avatars/a.png',
+            storageKey: 'avatars/a.png',
+            size: 10,
+            format: 'png',
+            provider: 's3',
+            url: 'https://test-bucket.s3.us-east-1.amazonaws.com/avatars/a.png',
+        });
+        expect(page.items[1]!.format).toBe('');
+    });
+
+    it('should pass the cursor as ContinuationToken and cap MaxKeys at 1000', async () => {
+        send.mockResolvedValueOnce({ Contents: [], IsTruncated: false });
+
+        const page = await provider.list({ cursor: 'token-2', limit: 5000 });
+
+        expect(send.mock.calls[0]![0].input).toEqual({
+            Bucket: 'test-bucket',
+            ContinuationToken: 'token-2',
+            MaxKeys: 1000,
+        });
+        expect(page).toEqual({ items: [], nextCursor: undefined });
+    });
+
+    it('should map errors', async () => {
+        send.mockRejectedValueOnce({ name: 'NoSuchBucket' });
+
+        await expect(provider.list()).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+        });
+    });
+});
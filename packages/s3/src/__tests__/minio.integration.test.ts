@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { S3Client, CreateBucketCommand } from '@aws-sdk/client-s3';
+import { MinioProvider } from '../minio-provider';
+
+/**
+ * Runs against a real MinIO server and is skipped unless MINIO_ENDPOINT is set:
+ *
+ *   docker run --rm -p 9000:9000 minio/minio server /data
+ *   MINIO_ENDPOINT=http://localhost:9000 pnpm test minio
+ *
+ * Credentials default to MinIO's minioadmin/minioadmin.
+ */
+const endpoint = process.env.MINIO_ENDPOINT;
+const accessKeyId = process.env.MINIO_ACCESS_KEY ?? 'minioadmin';
+const secretAccessKey = process.env.MINIO_SECRET_KEY ?? 'minioadmin';
+const bucket = process.env.MINIO_BUCKET ?? `fluxmedia-${Date.now()}`;
+
+describe.skipIf(!endpoint)('MinioProvider against a MinIO server', () => {
+    let provider: MinioProvider;
+
+    beforeAll(async () => {
+        provider = new MinioProvider({ endpoint: endpoint!, bucket, accessKeyId, secretAccessKey });
+        const client = new S3Client({
+            region: 'us-east-1',
+            endpoint: endpoint!,
+            forcePathStyle: true,
+            credentials: { accessKeyId, secretAccessKey },
+        });
+        try {
+            await client.send(new CreateBucketCommand({ Bucket: bucket }));
+        } catch (error) {
+            if ((error as { name?: string }).name !== 'BucketAlreadyOwnedByYou') throw error;
+        }
+    });
+
+    it('should upload, read, copy, list and delete objects', async () => {
+        const uploaded = await provider.upload(Buffer.from('hello minio'), {
+            folder: 'it',
+            filename: 'hello',
+            uniqueFilename: false,
+            contentType: 'text/plain',
+        });
+        expect(uploaded.id).toBe('it/hello');
+        expect(uploaded.url).toBe(`${endpoint!.replace(/\/$/, '')}/${bucket}/it/hello`);
+
+        const got = await provider.get('it/hello');
+        expect(got.size).toBe(11);
+
+        const download = await provider.download('it/hello', { range: { start: 0, end: 4 } });
+        expect(await new Response(download.stream).text()).toBe('hello');
+
+        await provider.copy('it/hello', 'it/copy');
+        const listed = await provider.list({ prefix: 'it/' });
+        expect(listed.items.map((item) => item.id).sort()).toEqual(['it/copy', 'it/hello']);
+
+        await provider.deleteMultiple(['it/hello', 'it/copy']);
+        expect((await provider.list({ prefix: 'it/' })).items).toHaveLength(0);
+    });
+
+    it('should sign download URLs the server accepts', async () => {
+        await provider.upload(Buffer.from('signed'), { filename: 'signed', uniqueFilename: false });
+
+        const url = await provider.getSignedUrl('signed', { expiresIn: 60 });
+        const response = await fetch(url);
+
+        expect(await response.text()).toBe('signed');
+        await provider.delete('signed');
+    });
+});
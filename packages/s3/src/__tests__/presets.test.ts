@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { createProviderContractTests } from '@fluxmedia/core/testing';
+import { MinioProvider } from '../minio-provider';
+import { B2Provider } from '../b2-provider';
+import { WasabiProvider } from '../wasabi-provider';
+import { SpacesProvider } from '../spaces-provider';
+
+const { S3Client, send, getSignedUrl, createPresignedPost } = vi.hoisted(() => {
+    const send = vi.fn();
+    return {
+        send,
+        S3Client: vi.fn(function () {
+            return { send };
+        }),
+        getSignedUrl: vi.fn(),
+        createPresignedPost: vi.fn(),
+    };
+});
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client,
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+}));
+
+vi.mock('@aws-sdk/s3-request-presigner', () => ({ getSignedUrl }));
+vi.mock('@aws-sdk/s3-presigned-post', () => ({ createPresignedPost }));
+
+const credentials = {
+    bucket: 'media',
+    accessKeyId: 'test-key',
+    secretAccessKey: 'test-secret',
+};
+
+describe('S3-compatible presets', () => {
+    createProviderContractTests(
+        'MinIO',
+        () => new MinioProvider({ ...credentials, endpoint: 'http://localhost:9000' })
+    );
+    createProviderContractTests('B2', () => new B2Provider({ ...credentials, region: 'us-west-004' }));
+    createProviderContractTests('Wasabi', () => new WasabiProvider(credentials));
+    createProviderContractTests('Spaces', () => new SpacesProvider({ ...credentials, region: 'nyc3' }));
+
+    beforeEach(() => {
+        S3Client.mockClear();
+        send.mockReset().mockResolvedValue({});
+        getSignedUrl.mockReset().mockResolvedValue('https://signed.example/put');
+        createPresignedPost.mockReset().mockResolvedValue({ url: 'https://post.example', fields: {} });
+    });
+
+    it.each([
+        [
+            new MinioProvider({ ...credentials, endpoint: 'http://localhost:9000/' }),
+            'http://localhost:9000/media/a/b.png',
+            { region: 'us-east-1', endpoint: 'http://localhost:9000/', forcePathStyle: true },
+        ],
+        [
+            new B2Provider({ ...credentials, region: 'us-west-004' }),
+            'https://media.s3.us-west-004.backblazeb2.com/a/b.png',
+            { region: 'us-west-004', endpoint: 'https://s3.us-west-004.backblazeb2.com' },
+        ],
+        [
+            new WasabiProvider({ ...credentials, region: 'eu-central-1' }),
+            'https://s3.eu-central-1.wasabisys.com/media/a/b.png',
+            { region: 'eu-central-1', endpoint: 'https://s3.eu-central-1.wasabisys.com' },
+        ],
+        [
+            new SpacesProvider({ ...credentials, region: 'nyc3' }),
+            'https://media.nyc3.digitaloceanspaces.com/a/b.png',
+            { region: 'us-east-1', endpoint: 'https://nyc3.digitaloceanspaces.com' },
+        ],
+    ])('should build URLs and the client for %s', async (provider, url, clientOptions) => {
+        expect(provider.getUrl('a/b.png')).toBe(url);
+
+        await provider.delete('a/b.png');
+
+        expect(S3Client).toHaveBeenCalledWith({
+            ...clientOptions,
+            credentials: { accessKeyId: 'test-key', secretAccessKey: 'test-secret' },
+        });
+    });
+
+    it('should serve Spaces objects from the CDN when enabled', () => {
+        const provider = new SpacesProvider({ ...credentials, region: 'ams3', cdn: true });
+
+        expect(provider.getUrl('a.png')).toBe('https://media.ams3.cdn.digitaloceanspaces.com/a.png');
+    });
+
+    it('should prefer a configured publicUrl', () => {
+        const providers = [
+            new MinioProvider({ ...credentials, endpoint: 'http://minio:9000', publicUrl: 'https://cdn.example.com' }),
+            new B2Provider({ ...credentials, region: 'us-west-004', publicUrl: 'https://cdn.example.com' }),
+            new WasabiProvider({ ...credentials, publicUrl: 'https://cdn.example.com' }),
+            new SpacesProvider({ ...credentials, region: 'nyc3', cdn: true, publicUrl: 'https://cdn.example.com' }),
+        ];
+
+        for (const provider of providers) {
+            expect(provider.getUrl('a.png')).toBe('https://cdn.example.com/a.png');
+        }
+    });
+
+    it('should default the Wasabi region to us-east-1', () => {
+        expect(new WasabiProvider(credentials).getUrl('a.png')).toBe(
+            'https://s3.us-east-1.wasabisys.com/media/a.png'
+        );
+    });
+
+    it('should name the service and provider in errors', async () => {
+        expect(() => new B2Provider({ ...credentials, region: '' })).toThrow(
+            'Missing required Backblaze B2 configuration: region'
+        );
+
+        send.mockRejectedValueOnce(
+            Object.assign(new Error('denied'), { name: 'AccessDenied', $metadata: { httpStatusCode: 403 } })
+        );
+        await expect(
+            new SpacesProvider({ ...credentials, region: 'nyc3' }).delete('a.png')
+        ).rejects.toMatchObject({
+            code: MediaErrorCode.UNAUTHORIZED,
+            provider: 'spaces',
+            message: 'Access denied - check Spaces credentials and bucket permissions',
+        });
+    });
+
+    it('should only use POST policies where the service supports them', async () => {
+        const request = { filename: 'a.png', contentType: 'image/png', maxSize: 1024 };
+
+        const minio = await new MinioProvider({ ...credentials, endpoint: 'http://localhost:9000' }).createSignedUpload(request);
+        const b2 = await new B2Provider({ ...credentials, region: 'us-west-004' }).createSignedUpload(request);
+
+        expect(minio.method).toBe('POST');
+        expect(b2.method).toBe('PUT');
+        expect(b2.publicUrl).toBe('https://media.s3.us-west-004.backblazeb2.com/a.png');
+    });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode, PartialUploadError, type PartialUploadContext } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { send, done, Upload } = vi.hoisted(() => ({ send: vi.fn(), done: vi.fn(), Upload: vi.fn() }));
+
+const command = (name: string) =>
+    vi.fn(function (input: unknown) {
+        return { name, input };
+    });
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+    ListPartsCommand: command('ListParts'),
+    UploadPartCommand: command('UploadPart'),
+    CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+}));
+
+vi.mock('@aws-sdk/lib-storage', () => ({ Upload }));
+
+type SentCommand = { name: string; input: Record<string, unknown> };
+
+const MB = 1024 * 1024;
+
+function sent(name: string): Array<Record<string, unknown>> {
+    return send.mock.calls
+        .map(([cmd]) => cmd as SentCommand)
+        .filter((cmd) => cmd.name === name)
+        .map((cmd) => cmd.input);
+}
+
+function serviceError(name: string, httpStatusCode: number) {
+    return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+describe('S3Provider resumable uploads', () => {
+    let provider: S3Provider;
+    // 12MB: two full 5MB parts and a 2MB last part
+    const file = Buffer.alloc(12 * MB, 1);
+    const resumeFrom: PartialUploadContext = {
+        uploadId: 'upload-1',
+        key: 'videos/intro.mp4',
+        completedParts: [{ partNumber: 1, etag: '"stale"' }],
+        provider: 's3',
+    };
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({});
+        done.mockReset().mockResolvedValue({});
+        Upload.mockReset();
+        Upload.mockImplementation(function (this: Record<string, unknown>) {
+            this.uploadId = 'upload-2';
+            this.on = vi.fn();
+            this.done = done;
+        });
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should upload only the parts ListParts does not report', async () => {
+        send.mockImplementation(async (cmd: SentCommand) => {
+            if (cmd.name === 'ListParts') {
+                return cmd.input.PartNumberMarker
+                    ? { Parts: [{ PartNumber: 2, ETag: '"p2"', Size: 5 * MB }] }
+                    : {
+                          Parts: [{ PartNumber: 1, ETag: '"p1"', Size: 5 * MB }],
+                          IsTruncated: true,
+                          NextPartNumberMarker: '1',
+                      };
+            }
+            if (cmd.name === 'UploadPart') return { ETag: `"new${cmd.input.PartNumber}"` };
+            return {};
+        });
+        const onByteProgress = vi.fn();
+
+        const result = await provider.upload(file, { resumeFrom, onByteProgress });
+
+        expect(Upload).not.toHaveBeenCalled();
+        expect(sent('ListParts')[1]).toMatchObject({ PartNumberMarker: '1' });
+        expect(sent('UploadPart')).toEqual([
+            expect.objectContaining({ UploadId: 'upload-1', PartNumber: 3 }),
+        ]);
+        expect((sent('UploadPart')[0]!.Body as Buffer).byteLength).toBe(2 * MB);
+        expect(sent('CompleteMultipartUpload')[0]).toMatchObject({
+            Key: 'videos/intro.mp4',
+            UploadId: 'upload-1',
+            MultipartUpload: {
+                Parts: [
+                    { PartNumber: 1, ETag: '"p1"' },
+                    { PartNumber: 2, ETag: '"p2"' },
+                    { PartNumber: 3, ETag: '"new3"' },
+                ],
+            },
+        });
+        expect(onByteProgress).toHaveBeenNthCalledWith(1, 10 * MB, 12 * MB);
+        expect(onByteProgress).toHaveBeenLastCalledWith(12 * MB, 12 * MB);
+        expect(result).toMatchObject({ id: 'videos/intro.mp4', size: 12 * MB });
+    });
+
+    it('should send the SSE-C key with every multipart request', async () => {
+        const customerKey = Buffer.alloc(32, 3);
+        const sseC = { SSECustomerAlgorithm: 'AES256', SSECustomerKey: customerKey.toString('base64') };
+        send.mockImplementation(async (cmd: SentCommand) =>
+            cmd.name === 'UploadPart' ? { ETag: '"new"' } : {}
+        );
+
+        await provider.upload(file, { resumeFrom, encryption: { type: 'sse-c', customerKey } });
+
+        expect(sent('ListParts')[0]).toMatchObject(sseC);
+        expect(sent('UploadPart')).toHaveLength(3);
+        expect(sent('UploadPart').every((input) => input.SSECustomerKey === sseC.SSECustomerKey)).toBe(
+            true
+        );
+        expect(sent('CompleteMultipartUpload')[0]).toMatchObject(sseC);
+    });
+
+    it('should upload parts again when their stored size does not match', async () => {
+        send.mockImplementation(async (cmd: SentCommand) =>
+            cmd.name === 'ListParts'
+                ? { Parts: [{ PartNumber: 1, ETag: '"p1"', Size: 1024 }] }
+                : { ETag: '"new"' }
+        );
+
+        await provider.upload(file, { resumeFrom });
+
+        expect(sent('UploadPart').map((input) => input.PartNumber)).toEqual([1, 2, 3]);
+    });
+
+    it('should throw PartialUploadError listing every stored part when a part fails', async () => {
+        send.mockImplementation(async (cmd: SentCommand) => {
+            if (cmd.name === 'ListParts') return { Parts: [] };
+            if (cmd.input.PartNumber === 2) throw serviceError('InternalError', 500);
+            return { ETag: `"p${cmd.input.PartNumber}"` };
+        });
+
+        const error = (await provider
+            .upload(file, { resumeFrom })
+            .catch((e: unknown) => e)) as PartialUploadError;
+
+        expect(error).toBeInstanceOf(PartialUploadError);
+        expect(error.retryable).toBe(true);
+        expect(error.uploadContext).toEqual({
+            uploadId: 'upload-1',
+            key: 'videos/intro.mp4',
+            completedParts: [
+                { partNumber: 1, etag: '"p1"' },
+                { partNumber: 3, etag: '"p3"' },
+            ],
+            provider: 's3',
+        });
+        expect(sent('CompleteMultipartUpload')).toEqual([]);
+    });
+
+    it('should start over under the same key when the multipart upload is gone', async () => {
+        send.mockImplementation(async (cmd: SentCommand) => {
+            if (cmd.name === 'ListParts') throw serviceError('NoSuchUpload', 404);
+            return {};
+        });
+
+        const result = await provider.upload(file, { resumeFrom });
+
+        expect(Upload.mock.calls[0]![0].params.Key).toBe('videos/intro.mp4');
+        expect(sent('UploadPart')).toEqual([]);
+        expect(result.id).toBe('videos/intro.mp4');
+    });
+
+    it('should ignore a context from another provider', async () => {
+        await provider.upload(file, {
+            filename: 'fresh',
+            uniqueFilename: false,
+            resumeFrom: { ...resumeFrom, provider: 'r2' },
+        });
+
+        expect(sent('ListParts')).toEqual([]);
+        expect(Upload.mock.calls[0]![0].params.Key).toBe('fresh');
+    });
+
+    it('should keep parts and report them when a resumable upload fails', async () => {
+        done.mockRejectedValueOnce(serviceError('RequestTimeout', 400));
+        send.mockImplementation(async (cmd: SentCommand) =>
+            cmd.name === 'ListParts' ? { Parts: [{ PartNumber: 1, ETag: '"p1"', Size: 5 * MB }] } : {}
+        );
+
+        const error = (await provider
+            .upload(file, { filename: 'big', uniqueFilename: false, resumable: true })
+            .catch((e: unknown) => e)) as PartialUploadError;
+
+        expect(Upload.mock.calls[0]![0].leavePartsOnError).toBe(true);
+        expect(error).toBeInstanceOf(PartialUploadError);
+        expect(error.uploadContext).toEqual({
+            uploadId: 'upload-2',
+            key: 'big',
+            completedParts: [{ partNumber: 1, etag: '"p1"' }],
+            provider: 's3',
+        });
+    });
+
+    it('should discard parts and map the error when not resumable', async () => {
+        done.mockRejectedValueOnce(serviceError('RequestTimeout', 400));
+
+        await expect(provider.upload(file)).rejects.toMatchObject({
+            name: 'MediaError',
+            code: MediaErrorCode.TIMEOUT,
+        });
+        expect(Upload.mock.calls[0]![0].leavePartsOnError).toBe(false);
+    });
+});
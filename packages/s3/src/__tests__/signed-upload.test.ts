@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+
+const { getSignedUrl, createPresignedPost } = vi.hoisted(() => ({
+    getSignedUrl: vi.fn(),
+    createPresignedPost: vi.fn(),
+}));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send: vi.fn() };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    GetObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+    PutObjectCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+vi.mock('@aws-sdk/s3-request-presigner', () => ({ getSignedUrl }));
+vi.mock('@aws-sdk/s3-presigned-post', () => ({ createPresignedPost }));
+
+describe('S3Provider createSignedUpload', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        getSignedUrl.mockReset();
+        createPresignedPost.mockReset();
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should presign a PUT with the content type', async () => {
+        getSignedUrl.mockResolvedValueOnce('https://signed.example/put');
+
+        const signed = await provider.createSignedUpload({
+            filename: 'avatar.png',
+            contentType: 'image/png',
+            folder: 'avatars',
+            expiresIn: 60,
+        });
+
+        expect(getSignedUrl.mock.calls[0]![1].input).toEqual({
+            Bucket: 'test-bucket',
+            Key: 'avatars/avatar.png',
+            ContentType: 'image/png',
+        });
+        expect(getSignedUrl.mock.calls[0]![2]).toEqual({ expiresIn: 60 });
+        expect(signed).toEqual({
+            uploadUrl: 'https://signed.example/put',
+            method: 'PUT',
+            headers: { 'Content-Type': 'image/png' },
+            publicId: 'avatars/avatar.png',
+            publicUrl: 'https://test-bucket.s3.us-east-1.amazonaws.com/avatars/avatar.png',
+        });
+    });
+
+    it('should use a POST policy to enforce maxSize', async () => {
+        createPresignedPost.mockResolvedValueOnce({
+            url: 'https://test-bucket.s3.amazonaws.com/',
+            fields: { key: 'avatar.png', Policy: 'policy' },
+        });
+
+        const signed = await provider.createSignedUpload({
+            filename: 'avatar.png',
+            contentType: 'image/png',
+            maxSize: 1024,
+        });
+
+        expect(createPresignedPost.mock.calls[0]![1]).toEqual({
+            Bucket: 'test-bucket',
+            Key: 'avatar.png',
+            Conditions: [
+                ['content-length-range', 0, 1024],
+                ['eq', '$Content-Type', 'image/png'],
+            ],
+            Fields: { 'Content-Type': 'image/png' },
+            Expires: 3600,
+        });
+        expect(getSignedUrl).not.toHaveBeenCalled();
+        expect(signed).toMatchObject({
+            uploadUrl: 'https://test-bucket.s3.amazonaws.com/',
+            method: 'POST',
+            fields: { key: 'avatar.png', Policy: 'policy' },
+            publicId: 'avatar.png',
+        });
+    });
+
+    it('should map signing errors', async () => {
+        getSignedUrl.mockRejectedValueOnce(
+            Object.assign(new Error('Access Denied'), { name: 'AccessDenied' })
+        );
+
+        await expect(
+            provider.createSignedUpload({ filename: 'a.png', contentType: 'image/png' })
+        ).rejects.toMatchObject({ code: MediaErrorCode.UNAUTHORIZED });
+    });
+});
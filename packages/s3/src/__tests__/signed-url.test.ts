@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { S3Provider } from '../s3-provider';
+
+const { getSignedUrl } = vi.hoisted(() => ({ getSignedUrl: vi.fn() }));
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send: vi.fn() };
+    }),
+    DeleteObjectCommand: vi.fn(),
+    HeadObjectCommand: vi.fn(),
+    ListObjectsV2Command: vi.fn(),
+    CopyObjectCommand: vi.fn(),
+    PutObjectCommand: vi.fn(),
+    AbortMultipartUploadCommand: vi.fn(),
+    GetObjectCommand: vi.fn(function (input: unknown) {
+        return { input };
+    }),
+}));
+
+vi.mock('@aws-sdk/s3-request-presigner', () => ({ getSignedUrl }));
+
+describe('S3Provider getSignedUrl', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        getSignedUrl.mockReset();
+        getSignedUrl.mockResolvedValue('https://test-bucket.s3.amazonaws.com/signed');
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should presign GetObject with the default expiry', async () => {
+        const url = await provider.getSignedUrl('private/report.pdf');
+
+        expect(url).toBe('https://test-bucket.s3.amazonaws.com/signed');
+        expect(getSignedUrl.mock.calls[0]![1].input).toEqual({
+            Bucket: 'test-bucket',
+            Key: 'private/report.pdf',
+        });
+        expect(getSignedUrl.mock.calls[0]![2]).toEqual({ expiresIn: 3600 });
+    });
+
+    it('should override the content disposition', async () => {
+        await provider.getSignedUrl('private/report.pdf', {
+            expiresIn: 60,
+            disposition: 'attachment',
+            filename: 'Résumé "final".pdf',
+        });
+
+        expect(getSignedUrl.mock.calls[0]![1].input.ResponseContentDisposition).toBe(
+            `attachment; filename="R_sum_ _final_.pdf"; filename*=UTF-8''R%C3%A9sum%C3%A9%20%22final%22.pdf`
+        );
+        expect(getSignedUrl.mock.calls[0]![2]).toEqual({ expiresIn: 60 });
+    });
+});
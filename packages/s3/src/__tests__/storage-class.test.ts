@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaErrorCode } from '@fluxmedia/core';
+import { S3Provider } from '../s3-provider';
+import { B2Provider } from '../b2-provider';
+
+const { send, done, Upload } = vi.hoisted(() => ({
+    send: vi.fn(),
+    done: vi.fn(),
+    Upload: vi.fn(),
+}));
+
+const command = (name: string) =>
+    vi.fn(function (input: unknown) {
+        return { name, input };
+    });
+
+// Mock AWS SDK
+vi.mock('@aws-sdk/client-s3', () => ({
+    S3Client: vi.fn(function () {
+        return { send };
+    }),
+    DeleteObjectCommand: command('DeleteObject'),
+    HeadObjectCommand: command('HeadObject'),
+    ListObjectsV2Command: command('ListObjectsV2'),
+    CopyObjectCommand: command('CopyObject'),
+    GetObjectCommand: command('GetObject'),
+    PutObjectCommand: command('PutObject'),
+    AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+    RestoreObjectCommand: command('RestoreObject'),
+}));
+
+vi.mock('@aws-sdk/lib-storage', () => ({ Upload }));
+
+type SentCommand = { name: string; input: Record<string, unknown> };
+
+function serviceError(name: string, httpStatusCode: number) {
+    return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+describe('S3Provider storage classes', () => {
+    let provider: S3Provider;
+
+    beforeEach(() => {
+        send.mockReset().mockResolvedValue({ $metadata: { httpStatusCode: 200 } });
+        done.mockReset().mockResolvedValue({});
+        Upload.mockReset();
+        Upload.mockImplementation(function (this: Record<string, unknown>) {
+            this.on = vi.fn();
+            this.done = done;
+        });
+        provider = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+    });
+
+    it('should upload straight to the requested storage class', async () => {
+        const result = await provider.upload(Buffer.from('master'), { storageClass: 'DEEP_ARCHIVE' });
+
+        expect(Upload.mock.calls[0]![0].params.StorageClass).toBe('DEEP_ARCHIVE');
+        expect(result.metadata.storageClass).toBe('DEEP_ARCHIVE');
+    });
+
+    it('should transition an object by copying it onto itself', async () => {
+        send.mockImplementation(async (cmd: SentCommand) =>
+            cmd.name === 'HeadObject' ? { StorageClass: 'GLACIER', ContentLength: 4 } : {}
+        );
+
+        const result = await provider.transition('raw/master.mov', 'GLACIER');
+
+        expect(send.mock.calls[1]![0]).toEqual({
+            name: 'CopyObject',
+            input: {
+                Bucket: 'test-bucket',
+                Key: 'raw/master.mov',
+                CopySource: 'test-bucket/raw/master.mov',
+                StorageClass: 'GLACIER',
+            },
+        });
+        expect(result.metadata).toMatchObject({
+            storageClass: 'GLACIER',
+            restore: { status: 'archived' },
+        });
+    });
+
+    it('should keep the encryption the object was written with', async () => {
+        const withDefault = new S3Provider({
+            bucket: 'test-bucket',
+            region: 'us-east-1',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+            encryption: { type: 'sse-s3' },
+        });
+        send.mockResolvedValueOnce({
+            ServerSideEncryption: 'aws:kms',
+            SSEKMSKeyId: 'arn:aws:kms:us-east-1:123:key/tenant',
+            BucketKeyEnabled: true,
+        });
+
+        await withDefault.transition('raw/master.mov', 'STANDARD_IA');
+
+        expect(send.mock.calls[0]![0].name).toBe('HeadObject');
+        expect(send.mock.calls[1]![0].input).toMatchObject({
+            ServerSideEncryption: 'aws:kms',
+            SSEKMSKeyId: 'arn:aws:kms:us-east-1:123:key/tenant',
+            BucketKeyEnabled: true,
+            StorageClass: 'STANDARD_IA',
+        });
+    });
+
+    it('should transition with the SSE-C key passed for the object', async () => {
+        const customerKey = Buffer.alloc(32, 7).toString('base64');
+
+        await provider.transition('raw/master.mov', 'GLACIER', {
+            encryption: { type: 'sse-c', customerKey },
+        });
+
+        expect(send.mock.calls[0]![0]).toMatchObject({
+            name: 'CopyObject',
+            input: {
+                SSECustomerKey: customerKey,
+                CopySourceSSECustomerKey: customerKey,
+                StorageClass: 'GLACIER',
+            },
+        });
+    });
+
+    it('should request a restore with the given days and tier', async () => {
+        send.mockResolvedValueOnce({ $metadata: { httpStatusCode: 202 } });
+
+        const status = await provider.restore('raw/master.mov', { days: 3, tier: 'bulk' });
+
+        expect(send.mock.calls[0]![0].input).toEqual({
+            Bucket: 'test-bucket',
+            Key: 'raw/master.mov',
+            RestoreRequest: { Days: 3, GlacierJobParameters: { Tier: 'Bulk' } },
+        });
+        expect(status).toEqual({ status: 'in-progress' });
+    });
+
+    it('should report restores that already exist or are running', async () => {
+        expect(await provider.restore('a.mov', { days: 1 })).toEqual({ status: 'restored' });
+        expect(send.mock.calls[0]![0].input.RestoreRequest.GlacierJobParameters.Tier).toBe('Standard');
+
+        send.mockRejectedValueOnce(serviceError('RestoreAlreadyInProgress', 409));
+        expect(await provider.restore('a.mov', { days: 1 })).toEqual({ status: 'in-progress' });
+    });
+
+    it('should fail with PRECONDITION_FAILED for objects in the wrong state', async () => {
+        send.mockRejectedValueOnce(serviceError('InvalidObjectState', 403));
+
+        await expect(provider.restore('a.png', { days: 1 })).rejects.toMatchObject({
+            code: MediaErrorCode.PRECONDITION_FAILED,
+        });
+    });
+
+    it.each([
+        [{}, { storageClass: 'STANDARD' }],
+        [{ StorageClass: 'STANDARD_IA' }, { storageClass: 'STANDARD_IA' }],
+        [
+            { StorageClass: 'GLACIER', Restore: 'ongoing-request="true"' },
+            { restore: { status: 'in-progress' } },
+        ],
+        [
+            {
+                StorageClass: 'DEEP_ARCHIVE',
+                Restore: 'ongoing-request="false", expiry-date="Fri, 21 Dec 2029 00:00:00 GMT"',
+            },
+            { restore: { status: 'restored', expiresAt: new Date('2029-12-21T00:00:00Z') } },
+        ],
+        [
+            { StorageClass: 'INTELLIGENT_TIERING', ArchiveStatus: 'ARCHIVE_ACCESS' },
+            { restore: { status: 'archived' } },
+        ],
+    ])('should report storage class and restore status in get() for %o', async (head, expected) => {
+        send.mockResolvedValueOnce(head);
+
+        const result = await provider.get('a.mov');
+
+        expect(result.metadata).toMatchObject(expected);
+        if (!('restore' in expected)) {
+            expect(result.metadata).not.toHaveProperty('restore');
+        }
+    });
+
+    it('should reject restore on services without archive classes', async () => {
+        const b2 = new B2Provider({
+            bucket: 'media',
+            region: 'us-west-004',
+            accessKeyId: 'test-key',
+            secretAccessKey: 'test-secret',
+        });
+
+        await expect(b2.restore('a.mov', { days: 1 })).rejects.toMatchObject({
+            code: MediaErrorCode.INVALID_CONFIG,
+            message: 'Backblaze B2 has no archive storage classes - objects can be read without restoring',
+        });
+        expect(send).not.toHaveBeenCalled();
+    });
+});
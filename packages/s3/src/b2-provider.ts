@@ -0,0 +1,54 @@
+import type { ProviderFeatures, TransformationOptions } from '@fluxmedia/core';
+import { S3CompatibleProvider } from './s3-compatible-provider';
+import { B2Features } from './features';
+import type { B2Config, S3CompatibleClientOptions } from './types';
+
+/**
+ * Backblaze B2 provider implementation, using B2's S3-compatible API.
+ * Signed uploads are presigned PUT URLs, so `maxSize` is not enforced by the signature.
+ *
+ * @example
+ * ```typescript
+ * const provider = new B2Provider({
+ *   region: 'us-west-004',
+ *   bucket: 'media',
+ *   accessKeyId: process.env.B2_KEY_ID,
+ *   secretAccessKey: process.env.B2_APPLICATION_KEY,
+ * });
+ * ```
+ */
+export class B2Provider extends S3CompatibleProvider<B2Config> {
+  readonly name: string = 'b2';
+  readonly features: ProviderFeatures = B2Features;
+  protected readonly serviceName: string = 'Backblaze B2';
+
+  constructor(config: B2Config) {
+    super(config);
+    this.validateConfig(['region', 'bucket', 'accessKeyId', 'secretAccessKey']);
+  }
+
+  /**
+   * Get safe config info for debugging (no secrets)
+   */
+  getConfigInfo() {
+    return {
+      bucket: this.config.bucket,
+      region: this.config.region,
+      publicUrl: this.config.publicUrl,
+    };
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl}/${id}`;
+    }
+    return `https://${this.config.bucket}.s3.${this.config.region}.backblazeb2.com/${id}`;
+  }
+
+  protected clientOptions(): S3CompatibleClientOptions {
+    return {
+      region: this.config.region,
+      endpoint: `https://s3.${this.config.region}.backblazeb2.com`,
+    };
+  }
+}
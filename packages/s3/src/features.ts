@@ -27,3 +27,47 @@ export const S3Features: ProviderFeatures = {
         supportedFormats: ['*'], // All formats
     },
 };
+
+/**
+ * Feature matrix for MinIO provider.
+ * Same as S3; objects can be up to 50TiB.
+ */
+export const MinioFeatures: ProviderFeatures = {
+    ...S3Features,
+    storage: {
+        ...S3Features.storage,
+        maxFileSize: 50 * 1024 * 1024 * 1024 * 1024, // 50TiB
+    },
+};
+
+/**
+ * Feature matrix for Backblaze B2 provider.
+ * Same as S3; files can be up to 10TB.
+ */
+export const B2Features: ProviderFeatures = {
+    ...S3Features,
+    storage: {
+        ...S3Features.storage,
+        maxFileSize: 10 * 1000 * 1000 * 1000 * 1000, // 10TB
+    },
+};
+
+/**
+ * Feature matrix for Wasabi provider.
+ * Same as S3; objects can be up to 5TB.
+ */
+export const WasabiFeatures: ProviderFeatures = {
+    ...S3Features,
+    storage: {
+        ...S3Features.storage,
+        maxFileSize: 5 * 1024 * 1024 * 1024 * 1024, // 5TB
+    },
+};
+
+/**
+ * Feature matrix for DigitalOcean Spaces provider.
+ * Same as S3, including the 5GB limit.
+ */
+export const SpacesFeatures: ProviderFeatures = {
+    ...S3Features,
+};
@@ -1,3 +1,16 @@
+export { S3CompatibleProvider } from './s3-compatible-provider';
 export { S3Provider } from './s3-provider';
-export { S3Features } from './features';
-export type { S3Config } from './types';
+export { MinioProvider } from './minio-provider';
+export { B2Provider } from './b2-provider';
+export { WasabiProvider } from './wasabi-provider';
+export { SpacesProvider } from './spaces-provider';
+export { S3Features, MinioFeatures, B2Features, WasabiFeatures, SpacesFeatures } from './features';
+export type {
+  S3CompatibleConfig,
+  S3CompatibleClientOptions,
+  S3Config,
+  MinioConfig,
+  B2Config,
+  WasabiConfig,
+  SpacesConfig,
+} from './types';
@@ -0,0 +1,58 @@
+import type { ProviderFeatures, TransformationOptions } from '@fluxmedia/core';
+import { S3CompatibleProvider } from './s3-compatible-provider';
+import { MinioFeatures } from './features';
+import type { MinioConfig, S3CompatibleClientOptions } from './types';
+
+/**
+ * MinIO provider implementation.
+ * Addresses buckets path-style (`endpoint/bucket/key`), as MinIO expects by default.
+ *
+ * @example
+ * ```typescript
+ * const provider = new MinioProvider({
+ *   endpoint: 'http://localhost:9000',
+ *   bucket: 'media',
+ *   accessKeyId: 'minioadmin',
+ *   secretAccessKey: 'minioadmin',
+ * });
+ * ```
+ */
+export class MinioProvider extends S3CompatibleProvider<MinioConfig> {
+  readonly name: string = 'minio';
+  readonly features: ProviderFeatures = MinioFeatures;
+  protected readonly serviceName: string = 'MinIO';
+  protected readonly supportsPostPolicy: boolean = true;
+  // Objects transitioned to a remote tier are restored like Glacier objects
+  protected readonly supportsRestore: boolean = true;
+
+  constructor(config: MinioConfig) {
+    super(config);
+    this.validateConfig(['endpoint', 'bucket', 'accessKeyId', 'secretAccessKey']);
+  }
+
+  /**
+   * Get safe config info for debugging (no secrets)
+   */
+  getConfigInfo() {
+    return {
+      bucket: this.config.bucket,
+      endpoint: this.config.endpoint,
+      publicUrl: this.config.publicUrl,
+    };
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl}/${id}`;
+    }
+    return `${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${id}`;
+  }
+
+  protected clientOptions(): S3CompatibleClientOptions {
+    return {
+      region: this.config.region ?? 'us-east-1',
+      endpoint: this.config.endpoint,
+      forcePathStyle: true,
+    };
+  }
+}
@@ -0,0 +1,1653 @@
+import type {
+  MediaProvider,
+  UploadOptions,
+  UploadResult,
+  UploadInput,
+  TransformationOptions,
+  ProviderFeatures,
+  ListOptions,
+  ListResult,
+  SignedUploadOptions,
+  SignedUpload,
+  SignedUrlOptions,
+  DownloadOptions,
+  DownloadResult,
+  MediaErrorHints,
+  PartialUploadContext,
+  BatchDeleteFailure,
+  ServerSideEncryption,
+  AppliedEncryption,
+  RestoreOptions,
+  RestoreStatus,
+} from '@fluxmedia/core';
+import {
+  BatchDeleteError,
+  MediaError,
+  MediaErrorCode,
+  PartialUploadError,
+  createMediaError,
+  getFileType,
+  parseRetryAfter,
+} from '@fluxmedia/core';
+import type { S3Client as S3ClientType, StorageClass } from '@aws-sdk/client-s3';
+import type { Readable } from 'node:stream';
+import type { S3CompatibleClientOptions, S3CompatibleConfig } from './types';
+
+// Cached SDK imports for performance
+let cachedS3Client: typeof import('@aws-sdk/client-s3').S3Client | null = null;
+let cachedDeleteObjectCommand: typeof import('@aws-sdk/client-s3').DeleteObjectCommand | null =
+  null;
+let cachedHeadObjectCommand: typeof import('@aws-sdk/client-s3').HeadObjectCommand | null = null;
+let cachedListObjectsV2Command: typeof import('@aws-sdk/client-s3').ListObjectsV2Command | null =
+  null;
+let cachedCopyObjectCommand: typeof import('@aws-sdk/client-s3').CopyObjectCommand | null = null;
+let cachedPutObjectCommand: typeof import('@aws-sdk/client-s3').PutObjectCommand | null = null;
+let cachedGetObjectCommand: typeof import('@aws-sdk/client-s3').GetObjectCommand | null = null;
+let cachedAbortMultipartUploadCommand:
+  typeof import('@aws-sdk/client-s3').AbortMultipartUploadCommand | null = null;
+let cachedMultipartCommands: {
+  ListPartsCommand: typeof import('@aws-sdk/client-s3').ListPartsCommand;
+  UploadPartCommand: typeof import('@aws-sdk/client-s3').UploadPartCommand;
+  CompleteMultipartUploadCommand: typeof import('@aws-sdk/client-s3').CompleteMultipartUploadCommand;
+} | null = null;
+let cachedDeleteObjectsCommand: typeof import('@aws-sdk/client-s3').DeleteObjectsCommand | null =
+  null;
+let cachedRestoreObjectCommand: typeof import('@aws-sdk/client-s3').RestoreObjectCommand | null =
+  null;
+let cachedUpload: typeof import('@aws-sdk/lib-storage').Upload | null = null;
+let cachedGetSignedUrl: typeof import('@aws-sdk/s3-request-presigner').getSignedUrl | null = null;
+let cachedCreatePresignedPost:
+  typeof import('@aws-sdk/s3-presigned-post').createPresignedPost | null = null;
+
+/** Multipart part size; a resumed upload slices the file the same way */
+const PART_SIZE = 5 * 1024 * 1024;
+
+/** Parts uploaded in parallel */
+const QUEUE_SIZE = 4;
+
+/** Most keys DeleteObjects accepts in one request */
+const DELETE_BATCH_SIZE = 1000;
+
+/** Storage classes whose objects must be restored before they can be read */
+const ARCHIVE_STORAGE_CLASSES: ReadonlySet<string> = new Set(['GLACIER', 'DEEP_ARCHIVE']);
+
+/** RestoreObject retrieval tiers */
+const RESTORE_TIERS = {
+  expedited: 'Expedited',
+  standard: 'Standard',
+  bulk: 'Bulk',
+} as const;
+
+/** Request parameters for SSE-C, sent on every request touching the object */
+type CustomerKeyParams = { SSECustomerAlgorithm?: string; SSECustomerKey?: string };
+
+/** Encryption headers S3 returns for an object */
+type EncryptionOutput = {
+  ServerSideEncryption?: string | undefined;
+  SSEKMSKeyId?: string | undefined;
+  BucketKeyEnabled?: boolean | undefined;
+  SSECustomerAlgorithm?: string | undefined;
+  SSECustomerKeyMD5?: string | undefined;
+};
+
+type Progress = {
+  loaded?: number;
+  total?: number;
+  part?: number;
+  Key?: string;
+  Bucket?: string;
+};
+
+async function getS3Imports() {
+  if (!cachedS3Client) {
+    const sdk = await import('@aws-sdk/client-s3');
+    cachedS3Client = sdk.S3Client;
+    cachedDeleteObjectCommand = sdk.DeleteObjectCommand;
+    cachedHeadObjectCommand = sdk.HeadObjectCommand;
+    cachedListObjectsV2Command = sdk.ListObjectsV2Command;
+    cachedCopyObjectCommand = sdk.CopyObjectCommand;
+    cachedPutObjectCommand = sdk.PutObjectCommand;
+    cachedGetObjectCommand = sdk.GetObjectCommand;
+    cachedAbortMultipartUploadCommand = sdk.AbortMultipartUploadCommand;
+  }
+  return {
+    S3Client: cachedS3Client!,
+    DeleteObjectCommand: cachedDeleteObjectCommand!,
+    HeadObjectCommand: cachedHeadObjectCommand!,
+    ListObjectsV2Command: cachedListObjectsV2Command!,
+    CopyObjectCommand: cachedCopyObjectCommand!,
+    PutObjectCommand: cachedPutObjectCommand!,
+    GetObjectCommand: cachedGetObjectCommand!,
+    AbortMultipartUploadCommand: cachedAbortMultipartUploadCommand!,
+  };
+}
+
+async function getPresigner() {
+  if (!cachedGetSignedUrl) {
+    const presigner = await import('@aws-sdk/s3-request-presigner');
+    cachedGetSignedUrl = presigner.getSignedUrl;
+  }
+  return cachedGetSignedUrl!;
+}
+
+async function getPresignedPost() {
+  if (!cachedCreatePresignedPost) {
+    const presignedPost = await import('@aws-sdk/s3-presigned-post');
+    cachedCreatePresignedPost = presignedPost.createPresignedPost;
+  }
+  return cachedCreatePresignedPost!;
+}
+
+/**
+ * Commands for resuming multipart uploads, loaded on first use
+ */
+async function getMultipartImports() {
+  if (!cachedMultipartCommands) {
+    const sdk = await import('@aws-sdk/client-s3');
+    cachedMultipartCommands = {
+      ListPartsCommand: sdk.ListPartsCommand,
+      UploadPartCommand: sdk.UploadPartCommand,
+      CompleteMultipartUploadCommand: sdk.CompleteMultipartUploadCommand,
+    };
+  }
+  return cachedMultipartCommands;
+}
+
+/**
+ * Archive restore command, loaded on first use
+ */
+async function getRestoreObjectCommand() {
+  if (!cachedRestoreObjectCommand) {
+    const sdk = await import('@aws-sdk/client-s3');
+    cachedRestoreObjectCommand = sdk.RestoreObjectCommand;
+  }
+  return cachedRestoreObjectCommand;
+}
+
+/**
+ * Read an object's restore status from its HeadObject headers. Undefined for
+ * objects that can be read without restoring.
+ */
+function restoreStatus(output: {
+  StorageClass?: string | undefined;
+  ArchiveStatus?: string | undefined;
+  Restore?: string | undefined;
+}): RestoreStatus | undefined {
+  // e.g. ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+  if (output.Restore) {
+    if (output.Restore.includes('ongoing-request="true"')) {
+      return { status: 'in-progress' };
+    }
+    const expiry = /expiry-date="([^"]+)"/.exec(output.Restore)?.[1];
+    return { status: 'restored', expiresAt: expiry ? new Date(expiry) : undefined };
+  }
+  if (output.ArchiveStatus || ARCHIVE_STORAGE_CLASSES.has(output.StorageClass ?? '')) {
+    return { status: 'archived' };
+  }
+  return undefined;
+}
+
+/**
+ * Bulk delete command, loaded on first use
+ */
+async function getDeleteObjectsCommand() {
+  if (!cachedDeleteObjectsCommand) {
+    const sdk = await import('@aws-sdk/client-s3');
+    cachedDeleteObjectsCommand = sdk.DeleteObjectsCommand;
+  }
+  return cachedDeleteObjectsCommand;
+}
+
+async function getUploadClass() {
+  if (!cachedUpload) {
+    const libStorage = await import('@aws-sdk/lib-storage');
+    cachedUpload = libStorage.Upload;
+  }
+  return cachedUpload!;
+}
+
+/**
+ * Base class for providers that speak the S3 API. Subclasses supply the client
+ * settings, the public URL format and the feature matrix; uploads, multipart
+ * resume, listing, signing and error mapping are shared.
+ *
+ * @example
+ * ```typescript
+ * class MyStorageProvider extends S3CompatibleProvider<MyStorageConfig> {
+ *   readonly name = 'my-storage';
+ *   readonly features = S3Features;
+ *   protected readonly serviceName = 'My Storage';
+ *
+ *   getUrl(id: string): string {
+ *     return `https://cdn.example.com/${id}`;
+ *   }
+ *
+ *   protected clientOptions() {
+ *     return { region: 'us-east-1', endpoint: 'https://s3.example.com' };
+ *   }
+ * }
+ * ```
+ */
+export abstract class S3CompatibleProvider<
+  TConfig extends S3CompatibleConfig = S3CompatibleConfig,
+> implements MediaProvider {
+  abstract readonly name: string;
+  abstract readonly features: ProviderFeatures;
+
+  /**
+   * Service name used in error messages, e.g. 'S3' or 'MinIO'
+   */
+  protected abstract readonly serviceName: string;
+
+  /**
+   * Whether the service accepts presigned POST policies, which `createSignedUpload`
+   * needs to enforce `maxSize`
+   */
+  protected readonly supportsPostPolicy: boolean = false;
+
+  /**
+   * Whether the service has archive storage classes that `restore()` applies to
+   */
+  protected readonly supportsRestore: boolean = false;
+
+  /**
+   * Storage classes the service accepts, checked before sending a request.
+   * Undefined leaves validation to the service.
+   */
+  protected readonly storageClasses: readonly string[] | undefined = undefined;
+
+  private client: S3ClientType | null = null;
+  private clientPromise: Promise<S3ClientType> | null = null;
+  protected config!: TConfig;
+
+  constructor(config: TConfig) {
+    // Store config in non-enumerable property to prevent credential exposure
+    Object.defineProperty(this, 'config', {
+      value: config,
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    });
+  }
+
+  /**
+   * Public URL of an object
+   */
+  abstract getUrl(id: string, transform?: TransformationOptions): string;
+
+  /**
+   * Region, endpoint and addressing style for the S3 client
+   */
+  protected abstract clientOptions(): S3CompatibleClientOptions;
+
+  /**
+   * Whether objects have a public URL. When false, signed uploads omit `publicUrl`
+   * and results carry empty `url` and `publicUrl` fields.
+   */
+  protected hasPublicUrl(): boolean {
+    return true;
+  }
+
+  /**
+   * Throw INVALID_CONFIG when a required field is missing or the bucket name is invalid.
+   * Call from the subclass constructor.
+   */
+  protected validateConfig(required: readonly (keyof TConfig)[]): void {
+    const missing = required.filter((field) => !this.config[field]);
+
+    if (missing.length > 0) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(
+          `Missing required ${this.serviceName} configuration: ${missing.map(String).join(', ')}`
+        )
+      );
+    }
+
+    // Validate bucket name format
+    if (this.config.bucket.includes('/')) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error('Bucket name cannot contain slashes')
+      );
+    }
+  }
+
+  /**
+   * Initializes the S3 client lazily with race condition protection.
+   */
+  private async ensureClient(): Promise<S3ClientType> {
+    if (!this.clientPromise) {
+      this.clientPromise = this.initializeClient();
+    }
+    return this.clientPromise;
+  }
+
+  private async initializeClient(): Promise<S3ClientType> {
+    const { S3Client } = await getS3Imports();
+    const client = new S3Client({
+      ...this.clientOptions(),
+      credentials: {
+        accessKeyId: this.config.accessKeyId,
+        secretAccessKey: this.config.secretAccessKey,
+      },
+    });
+    this.client = client;
+    return client;
+  }
+
+  async upload(file: UploadInput, options?: UploadOptions): Promise<UploadResult> {
+    if (options?.signal?.aborted) {
+      throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name);
+    }
+
+    const client = await this.ensureClient();
+    const Upload = await getUploadClass();
+    // A resumed upload has to finish under the key its parts were sent to
+    const resumeFrom = options?.resumeFrom?.provider === this.name ? options.resumeFrom : undefined;
+    const key = resumeFrom?.key ?? this.generateKey(options);
+    const encryption = options?.encryption ?? this.config.encryption;
+    const encryptionParams = this.encryptionParams(encryption);
+    if (options?.storageClass !== undefined) {
+      this.checkStorageClass(options.storageClass);
+    }
+
+    if (resumeFrom) {
+      const resumed = this.isStreamInput(file)
+        ? undefined
+        : await this.resumeMultipartUpload(client, file as File | Buffer, resumeFrom, options!);
+      if (resumed) {
+        return resumed;
+      }
+      // Start over: a stream cannot skip the parts already sent, or the upload expired
+      await this.abortMultipartUpload(client, key, resumeFrom.uploadId);
+    }
+
+    // lib-storage needs its own controller; forward the caller's signal to it
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+    let upload: InstanceType<typeof Upload> | undefined;
+    // Keep the parts after a failure so the upload can be resumed
+    const keepParts = !!(options?.resumable || resumeFrom);
+
+    try {
+      // Determine if the input is a stream (Readable or ReadableStream)
+      const isStream = this.isStreamInput(file);
+
+      // For streams, skip magic-byte detection; use contentType from options
+      const { contentType, extension } = isStream
+        ? {
+            contentType: options?.contentType ?? 'application/octet-stream',
+            extension: options?.contentType ? this.extensionFromMime(options.contentType) : '',
+          }
+        : await this.getContentType(file as File | Buffer);
+
+      // Use Upload class for ALL files (small and large)
+      // It automatically handles multipart for files >5MB
+      // lib-storage copies the encryption params to every part request
+      upload = new Upload({
+        client: options?.signal ? this.abortableClient(client, options.signal) : client,
+        params: {
+          Bucket: this.config.bucket,
+          Key: key,
+          Body: file as File | Buffer | Readable | ReadableStream<Uint8Array>,
+          ContentType: contentType,
+          Metadata: {
+            ...(options?.metadata || {}),
+            extension,
+          } as Record<string, string> | undefined,
+          // Conditional writes; lib-storage sends them with PutObject or CompleteMultipartUpload
+          ...(options?.ifNotExists && { IfNoneMatch: '*' }),
+          ...(options?.ifMatch !== undefined && { IfMatch: options.ifMatch }),
+          ...encryptionParams,
+          ...(options?.storageClass && { StorageClass: options.storageClass as StorageClass }),
+        },
+        // Configuration for multipart upload
+        queueSize: QUEUE_SIZE, // Upload 4 parts in parallel
+        partSize: PART_SIZE, // 5MB per part (S3 minimum)
+        leavePartsOnError: keepParts, // Keep parts so a PartialUploadError can resume them
+        abortController,
+      });
+
+      // Track upload progress via native event
+      if (options?.onProgress || options?.onByteProgress) {
+        upload.on('httpUploadProgress', (progress: Progress) => {
+          if (options?.onByteProgress) {
+            options.onByteProgress(progress.loaded ?? 0, progress.total);
+          }
+          if (options?.onProgress && progress.total) {
+            const percentComplete = (progress.loaded! / progress.total) * 100;
+            options.onProgress!(percentComplete);
+          }
+        });
+      }
+
+      // Execute upload
+      const output = (await upload.done()) as EncryptionOutput;
+
+      // Use byteLength for correct size calculation (streams report 0)
+      const size =
+        file instanceof Buffer
+          ? file.byteLength
+          : typeof File !== 'undefined' && file instanceof File
+            ? (file as File).size
+            : 0; // Stream — size unknown until upload completes
+      return this.createResult(
+        key,
+        size,
+        extension,
+        options?.metadata as Record<string, string> | undefined,
+        {
+          encryption: this.appliedEncryption(output, encryption),
+          storageClass: options?.storageClass,
+        }
+      );
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        await this.abortMultipartUpload(client, key, upload?.uploadId);
+        throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name, error);
+      }
+      const conflict = this.conditionalWriteConflict(error, key, options);
+      if (conflict) {
+        await this.abortMultipartUpload(client, key, upload?.uploadId);
+        throw conflict;
+      }
+      if (keepParts && upload?.uploadId) {
+        throw await this.partialUploadError(client, key, upload.uploadId, encryption, error);
+      }
+      throw this.mapS3Error(error, MediaErrorCode.UPLOAD_FAILED);
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const client = await this.ensureClient();
+    const { DeleteObjectCommand } = await getS3Imports();
+
+    try {
+      const command = new DeleteObjectCommand({
+        Bucket: this.config.bucket,
+        Key: id,
+      });
+
+      await client.send(command);
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.DELETE_FAILED);
+    }
+  }
+
+  /**
+   * Read an object's metadata with HeadObject. Pass `encryption` with the
+   * customer key for objects uploaded with a per-upload SSE-C key.
+   */
+  async get(id: string, options?: { encryption?: ServerSideEncryption }): Promise<UploadResult> {
+    const client = await this.ensureClient();
+    const { HeadObjectCommand } = await getS3Imports();
+
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: id,
+        ...this.customerKeyParams(options?.encryption ?? this.config.encryption),
+      });
+
+      const response = await client.send(command);
+      const metadata = response.Metadata;
+      const encryption = this.appliedEncryption(response);
+      const restore = restoreStatus(response);
+      return {
+        id,
+        ...this.objectUrls(id),
+        size: response.ContentLength ?? 0,
+        format: metadata?.extension || '',
+        provider: this.name,
+        metadata: {
+          contentType: response.ContentType,
+          extension: metadata?.extension,
+          ...(encryption && { encryption }),
+          // S3 omits the header for STANDARD
+          storageClass: response.StorageClass ?? 'STANDARD',
+          ...(restore && { restore }),
+        },
+        createdAt: response.LastModified ?? new Date(),
+      };
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.FILE_NOT_FOUND);
+    }
+  }
+
+  /**
+   * List objects using ListObjectsV2. The cursor is the S3 continuation token.
+   */
+  async list(options?: ListOptions): Promise<ListResult> {
+    const client = await this.ensureClient();
+    const { ListObjectsV2Command } = await getS3Imports();
+
+    try {
+      const command = new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        ...(options?.prefix && { Prefix: options.prefix }),
+        ...(options?.cursor && { ContinuationToken: options.cursor }),
+        ...(options?.limit && { MaxKeys: Math.min(options.limit, 1000) }),
+      });
+
+      const response = await client.send(command);
+      const items = (response.Contents ?? [])
+        .filter((object) => object.Key !== undefined)
+        .map((object) => ({
+          id: object.Key!,
+          storageKey: object.Key!,
+          ...this.objectUrls(object.Key!),
+          size: object.Size ?? 0,
+          format: this.extractFormat(object.Key!),
+          provider: this.name,
+          metadata: {
+            etag: object.ETag,
+            storageClass: object.StorageClass,
+          },
+          createdAt: object.LastModified ?? new Date(),
+        }));
+
+      return {
+        items,
+        nextCursor: response.IsTruncated ? response.NextContinuationToken : undefined,
+      };
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.PROVIDER_ERROR);
+    }
+  }
+
+  /**
+   * Copy an object server-side using CopyObject. Metadata and content type are
+   * carried over from the source object; the copy is encrypted with
+   * `options.encryption` or the configured encryption, which also decrypts an
+   * SSE-C source.
+   */
+  async copy(
+    id: string,
+    destKey: string,
+    options?: { encryption?: ServerSideEncryption }
+  ): Promise<UploadResult> {
+    return this.copyObject(id, destKey, options?.encryption ?? this.config.encryption);
+  }
+
+  /**
+   * Move an object by copying it to `destKey` and deleting the source.
+   */
+  async move(
+    id: string,
+    destKey: string,
+    options?: { encryption?: ServerSideEncryption }
+  ): Promise<UploadResult> {
+    const result = await this.copy(id, destKey, options);
+    if (destKey !== id) {
+      await this.delete(id);
+    }
+    return result;
+  }
+
+  /**
+   * Change an object's storage class by copying it onto itself. Metadata is
+   * kept, and so is the object's current encryption as read with HeadObject,
+   * unless `options.encryption` replaces it. S3 does not return an SSE-KMS
+   * encryption context, so pass `encryption` to keep one. An object with its
+   * own SSE-C key needs that key in `encryption`.
+   * CopyObject handles objects up to 5GB; archived objects must be restored first.
+   */
+  async transition(
+    id: string,
+    storageClass: string,
+    options?: { encryption?: ServerSideEncryption }
+  ): Promise<UploadResult> {
+    this.checkStorageClass(storageClass);
+    const encryption = options?.encryption ?? (await this.currentEncryption(id));
+    return this.copyObject(id, id, encryption, { StorageClass: storageClass });
+  }
+
+  /**
+   * Start restoring an archived object with RestoreObject. The restored copy
+   * is readable once `get()` reports `metadata.restore.status` as 'restored'.
+   * Restoring an object that is already restored extends its expiry.
+   */
+  async restore(id: string, options: RestoreOptions): Promise<RestoreStatus> {
+    if (!this.supportsRestore) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(
+          `${this.serviceName} has no archive storage classes - objects can be read without restoring`
+        )
+      );
+    }
+
+    const client = await this.ensureClient();
+    const RestoreObjectCommand = await getRestoreObjectCommand();
+
+    try {
+      const response = await client.send(
+        new RestoreObjectCommand({
+          Bucket: this.config.bucket,
+          Key: id,
+          RestoreRequest: {
+            Days: options.days,
+            GlacierJobParameters: { Tier: RESTORE_TIERS[options.tier ?? 'standard'] },
+          },
+        })
+      );
+      // 202 starts a restore; 200 means a restored copy already exists
+      return {
+        status: response.$metadata.httpStatusCode === 200 ? 'restored' : 'in-progress',
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === 'RestoreAlreadyInProgress') {
+        return { status: 'in-progress' };
+      }
+      throw this.mapS3Error(error, MediaErrorCode.PROVIDER_ERROR);
+    }
+  }
+
+  /**
+   * Create a presigned upload for a client to send directly to the bucket.
+   * Returns a presigned PUT URL, or a presigned POST policy when `maxSize` is set
+   * and the service supports POST policies, since only those can enforce a size
+   * limit. Elsewhere `maxSize` is not enforced by the signature; validate the
+   * size in the client or with a bucket rule.
+   * Requires `@aws-sdk/s3-request-presigner` (or `@aws-sdk/s3-presigned-post` with `maxSize`).
+   */
+  async createSignedUpload(options: SignedUploadOptions): Promise<SignedUpload> {
+    const client = await this.ensureClient();
+    const key = options.folder ? `${options.folder}/${options.filename}` : options.filename;
+    const expiresIn = options.expiresIn ?? 3600;
+
+    try {
+      if (options.maxSize !== undefined && this.supportsPostPolicy) {
+        const createPresignedPost = await getPresignedPost();
+        const { url, fields } = await createPresignedPost(client, {
+          Bucket: this.config.bucket,
+          Key: key,
+          Conditions: [
+            ['content-length-range', 0, options.maxSize],
+            ['eq', '$Content-Type', options.contentType],
+          ],
+          Fields: { 'Content-Type': options.contentType },
+          Expires: expiresIn,
+        });
+
+        return {
+          uploadUrl: url,
+          method: 'POST',
+          fields,
+          publicId: key,
+          ...(this.hasPublicUrl() && { publicUrl: this.getUrl(key) }),
+        };
+      }
+
+      const getSignedUrl = await getPresigner();
+      const { PutObjectCommand } = await getS3Imports();
+      const command = new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ContentType: options.contentType,
+      });
+      const uploadUrl = await getSignedUrl(client, command, { expiresIn });
+
+      return {
+        uploadUrl,
+        method: 'PUT',
+        headers: { 'Content-Type': options.contentType },
+        publicId: key,
+        ...(this.hasPublicUrl() && { publicUrl: this.getUrl(key) }),
+      };
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.PROVIDER_ERROR);
+    }
+  }
+
+  /**
+   * Generate a presigned GetObject URL for a private object.
+   * S3-compatible services have no transformations, so `transform` is ignored.
+   * Requires `@aws-sdk/s3-request-presigner`.
+   */
+  async getSignedUrl(id: string, options?: SignedUrlOptions): Promise<string> {
+    const client = await this.ensureClient();
+    const getSignedUrl = await getPresigner();
+    const { GetObjectCommand } = await getS3Imports();
+
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: id,
+        ...(options?.disposition && {
+          ResponseContentDisposition: this.contentDisposition(
+            options.disposition,
+            options.filename
+          ),
+        }),
+      });
+
+      return await getSignedUrl(client, command, { expiresIn: options?.expiresIn ?? 3600 });
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.PROVIDER_ERROR);
+    }
+  }
+
+  /**
+   * Stream an object with GetObject. `range` is sent as the HTTP Range header,
+   * and an SSE-C key from `options.encryption` or the config with the request.
+   */
+  async download(id: string, options?: DownloadOptions): Promise<DownloadResult> {
+    const client = await this.ensureClient();
+    const { GetObjectCommand } = await getS3Imports();
+    const customerKey = this.customerKeyParams(options?.encryption ?? this.config.encryption);
+
+    let response: import('@aws-sdk/client-s3').GetObjectCommandOutput;
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: id,
+        ...(options?.range && {
+          Range: `bytes=${options.range.start}-${options.range.end ?? ''}`,
+        }),
+        ...customerKey,
+      });
+
+      response = await client.send(
+        command,
+        options?.signal ? { abortSignal: options.signal } : undefined
+      );
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.FILE_NOT_FOUND);
+    }
+
+    if (!response.Body) {
+      throw createMediaError(
+        MediaErrorCode.PROVIDER_ERROR,
+        this.name,
+        new Error(`GetObject returned no body for '${id}'`)
+      );
+    }
+
+    return {
+      stream: response.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+      contentType: response.ContentType,
+      contentLength: response.ContentLength,
+      etag: response.ETag,
+      contentRange: response.ContentRange,
+    };
+  }
+
+  async uploadMultiple(
+    files: File[] | Buffer[],
+    options?: UploadOptions & {
+      concurrency?: number;
+      onBatchProgress?: (completed: number, total: number) => void;
+    }
+  ): Promise<UploadResult[]> {
+    // Batched processing with concurrency control
+    const concurrency = options?.concurrency ?? 5;
+    const results: UploadResult[] = [];
+    let completedCount = 0;
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const batch = files.slice(i, i + concurrency);
+      const batchResults = await Promise.all(
+        batch.map((file) => {
+          // Clone options for each file to avoid shared state
+          const { concurrency: _, onBatchProgress: __, ...uploadOptions } = options ?? {};
+          return this.upload(
+            file,
+            Object.keys(uploadOptions).length > 0 ? uploadOptions : undefined
+          ).then((result) => {
+            completedCount++;
+            options?.onBatchProgress?.(completedCount, files.length);
+            return result;
+          });
+        })
+      );
+      results.push(...batchResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Delete files with DeleteObjects, up to 1000 keys per request. Every batch
+   * is attempted, and files that could not be deleted are reported together.
+   *
+   * @throws {BatchDeleteError} If any file could not be deleted
+   */
+  async deleteMultiple(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const client = await this.ensureClient();
+    const DeleteObjectsCommand = await getDeleteObjectsCommand();
+    const deleted: string[] = [];
+    const failed: BatchDeleteFailure[] = [];
+
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + DELETE_BATCH_SIZE);
+
+      try {
+        // Quiet mode only lists the keys that failed
+        const response = await client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.config.bucket,
+            Delete: { Objects: batch.map((id) => ({ Key: id })), Quiet: true },
+          })
+        );
+        const errors = new Map((response.Errors ?? []).map((error) => [error.Key, error]));
+
+        for (const id of batch) {
+          const keyError = errors.get(id);
+          if (!keyError) {
+            deleted.push(id);
+            continue;
+          }
+          const cause = Object.assign(new Error(keyError.Message ?? `Failed to delete '${id}'`), {
+            name: keyError.Code ?? 'Error',
+          });
+          failed.push({ id, error: this.toMediaError(cause, MediaErrorCode.DELETE_FAILED) });
+        }
+      } catch (error) {
+        // The whole request failed, so none of its keys were deleted
+        const mapped = this.toMediaError(error, MediaErrorCode.DELETE_FAILED);
+        failed.push(...batch.map((id) => ({ id, error: mapped })));
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new BatchDeleteError(
+        `Failed to delete ${failed.length} of ${ids.length} files`,
+        this.name,
+        { deleted, failed }
+      );
+    }
+  }
+
+  /**
+   * Access to the native S3 client.
+   * Returns the full S3Client with all methods and types.
+   */
+  get native(): S3ClientType | null {
+    return this.client;
+  }
+
+  // Prevent credential exposure in serialization
+  toJSON(): { name: string; features: ProviderFeatures } {
+    return {
+      name: this.name,
+      features: this.features,
+    };
+  }
+
+  private generateKey(options?: UploadOptions): string {
+    const baseFilename = options?.filename ?? this.generateRandomId();
+    // When uniqueFilename is true (default) or not specified, append a short ID
+    const shouldMakeUnique = options?.uniqueFilename !== false;
+    const filename =
+      shouldMakeUnique && options?.filename
+        ? `${baseFilename}-${this.generateShortId()}`
+        : baseFilename;
+    const folder = options?.folder ? `${options.folder}/` : '';
+    return `${folder}${filename}`;
+  }
+
+  private generateRandomId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  }
+
+  private generateShortId(): string {
+    // Use Web Crypto API for better randomness when available
+    const cryptoObj = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+    if (cryptoObj?.getRandomValues) {
+      const buffer = new Uint8Array(6);
+      cryptoObj.getRandomValues(buffer);
+      return Array.from(buffer)
+        .map((b) => b.toString(36).padStart(2, '0'))
+        .join('')
+        .substring(0, 8);
+    }
+    // Fallback with timestamp for better uniqueness
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${timestamp}${random}`.substring(0, 12);
+  }
+
+  private async getContentType(
+    file: File | Buffer
+  ): Promise<{ contentType: string; extension: string }> {
+    if (file instanceof Buffer) {
+      // Use magic byte detection for accurate MIME type
+      const detected = await getFileType(file);
+      return {
+        contentType: detected?.mime ?? 'application/octet-stream',
+        extension: detected?.ext ?? '',
+      };
+    }
+    return {
+      contentType: (file as File).type || 'application/octet-stream',
+      extension: (file as File).name.split('.').pop() || '',
+    };
+  }
+
+  /**
+   * Check whether the given input is a stream (Node.js Readable or Web ReadableStream).
+   */
+  private isStreamInput(file: UploadInput): boolean {
+    if (file instanceof Buffer) return false;
+    if (typeof File !== 'undefined' && file instanceof File) return false;
+    // Duck-type check for Node.js Readable (has pipe method) or Web ReadableStream (has getReader)
+    return (
+      typeof (file as Readable).pipe === 'function' ||
+      typeof (file as ReadableStream).getReader === 'function'
+    );
+  }
+
+  /**
+   * Derive a file extension from a MIME type string.
+   */
+  private extensionFromMime(mime: string): string {
+    const map: Record<string, string> = {
+      'image/jpeg': 'jpg',
+      'image/png': 'png',
+      'image/gif': 'gif',
+      'image/webp': 'webp',
+      'image/avif': 'avif',
+      'image/svg+xml': 'svg',
+      'video/mp4': 'mp4',
+      'video/webm': 'webm',
+      'video/quicktime': 'mov',
+      'audio/mpeg': 'mp3',
+      'audio/wav': 'wav',
+      'application/pdf': 'pdf',
+      'application/octet-stream': '',
+    };
+    return map[mime] ?? mime.split('/').pop() ?? '';
+  }
+
+  private extractFormat(key: string): string {
+    const parts = (key.split('/').pop() ?? '').split('.');
+    return parts.length > 1 ? (parts[parts.length - 1] ?? '') : '';
+  }
+
+  /**
+   * Build a Content-Disposition header value, with an RFC 5987 filename for non-ASCII names.
+   */
+  private contentDisposition(disposition: 'inline' | 'attachment', filename?: string): string {
+    if (!filename) return disposition;
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+  }
+
+  /**
+   * `url` and `publicUrl` of an object; empty when objects have no public URL.
+   */
+  private objectUrls(key: string): { url: string; publicUrl: string } {
+    const url = this.hasPublicUrl() ? this.getUrl(key) : '';
+    return { url, publicUrl: url };
+  }
+
+  private createResult(
+    key: string,
+    size: number,
+    extension: string,
+    metadata: Record<string, string> | undefined,
+    applied: { encryption?: AppliedEncryption | undefined; storageClass?: string | undefined } = {}
+  ): UploadResult {
+    const { encryption, storageClass } = applied;
+    return {
+      id: key,
+      storageKey: key,
+      ...this.objectUrls(key),
+      size,
+      format: extension,
+      provider: this.name,
+      metadata: {
+        ...metadata,
+        ...(encryption && { encryption }),
+        ...(storageClass && { storageClass }),
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * CopyObject within the bucket, applying `encryption` to the destination
+   * (and as the source key for SSE-C) and `params` on top
+   */
+  private async copyObject(
+    id: string,
+    destKey: string,
+    encryption: ServerSideEncryption | undefined,
+    params: Record<string, unknown> = {}
+  ): Promise<UploadResult> {
+    const client = await this.ensureClient();
+    const { CopyObjectCommand } = await getS3Imports();
+    const { SSECustomerAlgorithm, SSECustomerKey } = this.customerKeyParams(encryption);
+
+    try {
+      const command = new CopyObjectCommand({
+        Bucket: this.config.bucket,
+        Key: destKey,
+        CopySource: `${this.config.bucket}/${encodeURIComponent(id).replace(/%2F/g, '/')}`,
+        ...this.encryptionParams(encryption),
+        ...(SSECustomerKey && {
+          CopySourceSSECustomerAlgorithm: SSECustomerAlgorithm,
+          CopySourceSSECustomerKey: SSECustomerKey,
+        }),
+        ...params,
+      });
+
+      await client.send(command);
+    } catch (error) {
+      throw this.mapS3Error(error, MediaErrorCode.UPLOAD_FAILED);
+    }
+
+    return {
+      ...(await this.get(destKey, encryption && { encryption })),
+      storageKey: destKey,
+    };
+  }
+
+  /**
+   * The encryption an object was written with, as parameters that keep it
+   * when the object is copied onto itself
+   */
+  private async currentEncryption(id: string): Promise<ServerSideEncryption | undefined> {
+    const applied = (await this.get(id)).metadata.encryption as AppliedEncryption | undefined;
+
+    switch (applied?.type) {
+      case 'sse-s3':
+        return { type: 'sse-s3' };
+      case 'sse-kms':
+        return {
+          type: 'sse-kms',
+          ...(applied.keyId && { keyId: applied.keyId }),
+          ...(applied.bucketKey !== undefined && { bucketKey: applied.bucketKey }),
+        };
+      case 'sse-c':
+        // HeadObject only succeeds with the right key, so the configured one matched
+        return this.config.encryption;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Throw INVALID_CONFIG for a storage class the service does not offer
+   */
+  private checkStorageClass(storageClass: string): void {
+    if (this.storageClasses && !this.storageClasses.includes(storageClass)) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(
+          `Storage class '${storageClass}' is not supported by ${this.serviceName} - use one of ${this.storageClasses.join(', ')}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Request parameters that write a file with the given encryption
+   */
+  private encryptionParams(encryption: ServerSideEncryption | undefined): Record<string, unknown> {
+    switch (encryption?.type) {
+      case 'sse-s3':
+        return { ServerSideEncryption: 'AES256' };
+      case 'sse-kms':
+        return {
+          ServerSideEncryption: 'aws:kms',
+          ...(encryption.keyId && { SSEKMSKeyId: encryption.keyId }),
+          // S3 expects the context as base64-encoded JSON
+          ...(encryption.context && {
+            SSEKMSEncryptionContext: Buffer.from(JSON.stringify(encryption.context)).toString(
+              'base64'
+            ),
+          }),
+          ...(encryption.bucketKey !== undefined && { BucketKeyEnabled: encryption.bucketKey }),
+        };
+      case 'sse-c':
+        return this.customerKeyParams(encryption);
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * SSE-C parameters, needed to read or extend an object written with a
+   * customer key. Other encryption modes need nothing on requests after the write.
+   */
+  private customerKeyParams(encryption: ServerSideEncryption | undefined): CustomerKeyParams {
+    if (encryption?.type !== 'sse-c') {
+      return {};
+    }
+
+    const { customerKey } = encryption;
+    const bytes =
+      typeof customerKey !== 'string'
+        ? Buffer.from(customerKey)
+        : /^[A-Za-z0-9+/]{43}=$/.test(customerKey)
+          ? Buffer.from(customerKey, 'base64')
+          : Buffer.from(customerKey);
+    if (bytes.byteLength !== 32) {
+      throw createMediaError(
+        MediaErrorCode.INVALID_CONFIG,
+        this.name,
+        new Error(`SSE-C customerKey must be 32 bytes, got ${bytes.byteLength}`)
+      );
+    }
+
+    // The SDK adds the key's MD5 header
+    return { SSECustomerAlgorithm: 'AES256', SSECustomerKey: bytes.toString('base64') };
+  }
+
+  /**
+   * Describe the encryption S3 reported for an object, falling back to what
+   * was requested when the response carries no encryption headers
+   */
+  private appliedEncryption(
+    output: EncryptionOutput,
+    requested?: ServerSideEncryption
+  ): AppliedEncryption | undefined {
+    if (output.SSECustomerAlgorithm) {
+      return { type: 'sse-c', customerKeyMd5: output.SSECustomerKeyMD5 };
+    }
+    if (output.ServerSideEncryption?.startsWith('aws:kms')) {
+      return {
+        type: 'sse-kms',
+        keyId: output.SSEKMSKeyId,
+        bucketKey: output.BucketKeyEnabled,
+      };
+    }
+    if (output.ServerSideEncryption === 'AES256') {
+      return { type: 'sse-s3' };
+    }
+
+    switch (requested?.type) {
+      case 'sse-kms':
+        return { type: 'sse-kms', keyId: requested.keyId, bucketKey: requested.bucketKey };
+      case 'sse-s3':
+      case 'sse-c':
+        return { type: requested.type };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Wrap the client so every request lib-storage sends for one upload,
+   * including parts already in flight, is cancelled when the signal fires.
+   */
+  private abortableClient(client: S3ClientType, signal: AbortSignal): S3ClientType {
+    const send = (command: Parameters<S3ClientType['send']>[0], options?: object) =>
+      client.send(command, { ...options, abortSignal: signal });
+    return Object.create(client, { send: { value: send } }) as S3ClientType;
+  }
+
+  /**
+   * Discard the parts of an aborted multipart upload so they are not stored (and billed).
+   * lib-storage only does this itself when it is not keeping parts for a resume.
+   */
+  private async abortMultipartUpload(
+    client: S3ClientType,
+    key: string,
+    uploadId: string | undefined
+  ): Promise<void> {
+    if (!uploadId) return;
+
+    const { AbortMultipartUploadCommand } = await getS3Imports();
+    try {
+      await client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          UploadId: uploadId,
+        })
+      );
+    } catch {
+      // Already aborted by lib-storage, or left for the bucket's lifecycle rules
+    }
+  }
+
+  /**
+   * Finish a multipart upload from a PartialUploadError's context. The parts
+   * the provider holds (from ListParts) win over the context; missing parts and
+   * parts of the wrong size are uploaded again before completing. Returns
+   * undefined when the multipart upload no longer exists.
+   */
+  private async resumeMultipartUpload(
+    client: S3ClientType,
+    file: File | Buffer,
+    resumeFrom: PartialUploadContext,
+    options: UploadOptions
+  ): Promise<UploadResult | undefined> {
+    const { key, uploadId } = resumeFrom;
+    const { UploadPartCommand, CompleteMultipartUploadCommand } = await getMultipartImports();
+    const encryption = options.encryption ?? this.config.encryption;
+    const customerKey = this.customerKeyParams(encryption);
+    const requestClient = options.signal ? this.abortableClient(client, options.signal) : client;
+    const { extension } = await this.getContentType(file);
+    const body = file instanceof Buffer ? file : Buffer.from(await (file as File).arrayBuffer());
+    const partCount = Math.max(1, Math.ceil(body.byteLength / PART_SIZE));
+
+    let completed = resumeFrom.completedParts;
+    let completing = false;
+
+    try {
+      const stored = await this.listUploadedParts(requestClient, key, uploadId, customerKey);
+      if (!stored) {
+        return undefined;
+      }
+
+      completed = [];
+      const missing: number[] = [];
+      let loaded = 0;
+      for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+        const size = Math.min(PART_SIZE, body.byteLength - (partNumber - 1) * PART_SIZE);
+        const part = stored.get(partNumber);
+        if (part && part.size === size) {
+          completed.push({ partNumber, etag: part.etag });
+          loaded += size;
+        } else {
+          missing.push(partNumber);
+        }
+      }
+
+      const reportProgress = () => {
+        options.onByteProgress?.(loaded, body.byteLength);
+        if (options.onProgress && body.byteLength) {
+          options.onProgress((loaded / body.byteLength) * 100);
+        }
+      };
+      reportProgress();
+
+      // Wait for parts in flight after a failure, so the context lists every stored part
+      let failed: { error: unknown } | undefined;
+      let next = 0;
+      const uploadParts = async (): Promise<void> => {
+        while (!failed && next < missing.length) {
+          const partNumber = missing[next++]!;
+          const chunk = body.subarray((partNumber - 1) * PART_SIZE, partNumber * PART_SIZE);
+          try {
+            const { ETag } = await requestClient.send(
+              new UploadPartCommand({
+                Bucket: this.config.bucket,
+                Key: key,
+                UploadId: uploadId,
+                PartNumber: partNumber,
+                Body: chunk,
+                ...customerKey,
+              })
+            );
+            completed.push({ partNumber, etag: ETag! });
+            loaded += chunk.byteLength;
+            reportProgress();
+          } catch (error) {
+            failed ??= { error };
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(QUEUE_SIZE, missing.length) }, uploadParts));
+      if (failed) {
+        throw failed.error;
+      }
+
+      completed.sort((a, b) => a.partNumber - b.partNumber);
+      completing = true;
+      const output = await requestClient.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: completed.map(({ partNumber, etag }) => ({
+              PartNumber: partNumber,
+              ETag: etag,
+            })),
+          },
+          ...(options.ifNotExists && { IfNoneMatch: '*' }),
+          ...(options.ifMatch !== undefined && { IfMatch: options.ifMatch }),
+          ...customerKey,
+        })
+      );
+
+      return this.createResult(
+        key,
+        body.byteLength,
+        extension,
+        options.metadata as Record<string, string> | undefined,
+        {
+          encryption: this.appliedEncryption(output, encryption),
+          storageClass: options.storageClass,
+        }
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        await this.abortMultipartUpload(client, key, uploadId);
+        throw new MediaError('Upload aborted', MediaErrorCode.ABORTED, this.name, error);
+      }
+      const conflict = completing && this.conditionalWriteConflict(error, key, options);
+      if (conflict) {
+        await this.abortMultipartUpload(client, key, uploadId);
+        throw conflict;
+      }
+      throw this.partialUpload(key, uploadId, completed, error);
+    }
+  }
+
+  /**
+   * List the parts stored for a multipart upload, or undefined when the
+   * upload no longer exists (completed, aborted or expired).
+   */
+  private async listUploadedParts(
+    client: S3ClientType,
+    key: string,
+    uploadId: string,
+    customerKey: CustomerKeyParams
+  ): Promise<Map<number, { etag: string; size: number }> | undefined> {
+    const { ListPartsCommand } = await getMultipartImports();
+    const parts = new Map<number, { etag: string; size: number }>();
+    let marker: string | undefined;
+
+    do {
+      let page;
+      try {
+        page = await client.send(
+          new ListPartsCommand({
+            Bucket: this.config.bucket,
+            Key: key,
+            UploadId: uploadId,
+            ...(marker && { PartNumberMarker: marker }),
+            ...customerKey,
+          })
+        );
+      } catch (error) {
+        const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+        if (err.name === 'NoSuchUpload' || err.$metadata?.httpStatusCode === 404) {
+          return undefined;
+        }
+        throw error;
+      }
+
+      for (const part of page.Parts ?? []) {
+        if (part.PartNumber !== undefined && part.ETag) {
+          parts.set(part.PartNumber, { etag: part.ETag, size: part.Size ?? 0 });
+        }
+      }
+      marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  /**
+   * Build a PartialUploadError for a failed lib-storage upload, reading the
+   * stored parts from the provider since lib-storage does not expose them.
+   */
+  private async partialUploadError(
+    client: S3ClientType,
+    key: string,
+    uploadId: string,
+    encryption: ServerSideEncryption | undefined,
+    error: unknown
+  ): Promise<PartialUploadError> {
+    let completedParts: PartialUploadContext['completedParts'] = [];
+    try {
+      const stored = await this.listUploadedParts(
+        client,
+        key,
+        uploadId,
+        this.customerKeyParams(encryption)
+      );
+      completedParts = [...(stored ?? [])].map(([partNumber, { etag }]) => ({ partNumber, etag }));
+    } catch {
+      // Resuming lists the parts again
+    }
+    return this.partialUpload(key, uploadId, completedParts, error);
+  }
+
+  private partialUpload(
+    key: string,
+    uploadId: string,
+    completedParts: PartialUploadContext['completedParts'],
+    error: unknown
+  ): PartialUploadError {
+    const reason = error instanceof Error ? error.message : 'An unknown error occurred';
+    return new PartialUploadError(
+      `Multipart upload of '${key}' failed with ${completedParts.length} parts stored: ${reason}`,
+      this.name,
+      {
+        uploadId,
+        key,
+        completedParts: [...completedParts].sort((a, b) => a.partNumber - b.partNumber),
+        provider: this.name,
+      },
+      error
+    );
+  }
+
+  /**
+   * Turn a failed conditional write into a CONFLICT error. S3 answers 412 when
+   * the condition does not hold, 409 when a concurrent write won the race, and
+   * 404 when `ifMatch` names an object that has since been deleted.
+   */
+  private conditionalWriteConflict(
+    error: unknown,
+    key: string,
+    options: UploadOptions | undefined
+  ): MediaError | undefined {
+    if (!options?.ifNotExists && options?.ifMatch === undefined) {
+      return undefined;
+    }
+
+    const err = error as {
+      name?: string;
+      $metadata?: { httpStatusCode?: number; requestId?: string };
+    };
+    const httpCode = err.$metadata?.httpStatusCode;
+    const failed =
+      err.name === 'PreconditionFailed' ||
+      err.name === 'ConditionalRequestConflict' ||
+      httpCode === 412 ||
+      httpCode === 409 ||
+      (options.ifMatch !== undefined && (err.name === 'NoSuchKey' || httpCode === 404));
+    if (!failed) {
+      return undefined;
+    }
+
+    return new MediaError(
+      options.ifMatch !== undefined
+        ? `Object '${key}' no longer matches ETag ${options.ifMatch}`
+        : `Object '${key}' already exists`,
+      MediaErrorCode.CONFLICT,
+      this.name,
+      error,
+      { key, ifMatch: options.ifMatch, ifNotExists: options.ifNotExists },
+      { httpStatus: httpCode, requestId: err.$metadata?.requestId }
+    );
+  }
+
+  /**
+   * Maps S3 API errors to MediaError with appropriate codes, carrying the
+   * HTTP status, request id and Retry-After hint of the failed response
+   */
+  protected mapS3Error(error: unknown, defaultCode: MediaErrorCode): never {
+    const err = error as {
+      name?: string;
+      code?: string;
+      message?: string;
+      $metadata?: { httpStatusCode?: number; requestId?: string };
+      $response?: { headers?: Record<string, string | undefined> };
+    };
+    const httpCode = err.$metadata?.httpStatusCode;
+    const hints: MediaErrorHints = {
+      httpStatus: httpCode,
+      requestId: err.$metadata?.requestId,
+    };
+    const fail = (code: MediaErrorCode, cause: unknown, extra?: MediaErrorHints): never => {
+      throw createMediaError(code, this.name, cause, undefined, { ...hints, ...extra });
+    };
+
+    // Cancelled through an AbortSignal
+    if (err.name === 'AbortError') {
+      return fail(MediaErrorCode.ABORTED, error);
+    }
+
+    // Bucket errors
+    if (err.name === 'NoSuchBucket') {
+      return fail(
+        MediaErrorCode.INVALID_CONFIG,
+        new Error(`Bucket '${this.config.bucket}' does not exist`)
+      );
+    }
+
+    // Archived objects have to be restored first; restoring needs an archived object
+    if (err.name === 'InvalidObjectState') {
+      return fail(MediaErrorCode.PRECONDITION_FAILED, error);
+    }
+
+    // KMS key errors (SSE-KMS); S3 reports a denied key as AccessDenied mentioning KMS
+    if (
+      err.name?.startsWith('KMS.') ||
+      ((err.name === 'AccessDenied' || httpCode === 403) && /\bkms\b/i.test(err.message ?? ''))
+    ) {
+      if (err.name === 'KMS.ThrottlingException' || err.name === 'KMS.LimitExceededException') {
+        return fail(
+          MediaErrorCode.RATE_LIMITED,
+          new Error('KMS request rate exceeded - try again later')
+        );
+      }
+      if (
+        err.name === 'KMS.AccessDeniedException' ||
+        err.name === 'AccessDenied' ||
+        httpCode === 403
+      ) {
+        return fail(
+          MediaErrorCode.UNAUTHORIZED,
+          new Error(
+            'Access denied to the KMS key - allow kms:GenerateDataKey and kms:Decrypt for these credentials'
+          )
+        );
+      }
+      // Disabled, pending deletion, missing or the wrong kind of key
+      return fail(
+        MediaErrorCode.INVALID_CONFIG,
+        new Error(`KMS key cannot be used: ${err.message ?? err.name}`)
+      );
+    }
+
+    // Missing, wrong or unsupported encryption parameters
+    if (
+      (err.name === 'InvalidRequest' || err.name === 'InvalidArgument') &&
+      /encrypt|\bSSE\b/i.test(err.message ?? '')
+    ) {
+      return fail(MediaErrorCode.INVALID_CONFIG, error);
+    }
+
+    // Authentication/authorization errors
+    if (err.name === 'AccessDenied' || err.name === 'InvalidAccessKeyId' || httpCode === 403) {
+      return fail(
+        MediaErrorCode.UNAUTHORIZED,
+        new Error(`Access denied - check ${this.serviceName} credentials and bucket permissions`)
+      );
+    }
+
+    // Invalid credentials
+    if (err.name === 'SignatureDoesNotMatch' || httpCode === 401) {
+      return fail(
+        MediaErrorCode.INVALID_CREDENTIALS,
+        new Error(`Invalid ${this.serviceName} credentials - check accessKeyId and secretAccessKey`)
+      );
+    }
+
+    // Not found errors
+    if (err.name === 'NoSuchKey' || httpCode === 404) {
+      return fail(MediaErrorCode.FILE_NOT_FOUND, error);
+    }
+
+    // Conditional request errors
+    if (err.name === 'ConditionalRequestConflict' || httpCode === 409) {
+      return fail(MediaErrorCode.CONFLICT, error);
+    }
+    if (err.name === 'PreconditionFailed' || httpCode === 412) {
+      return fail(MediaErrorCode.PRECONDITION_FAILED, error);
+    }
+
+    // Corrupted in transit; sending the same bytes again usually succeeds
+    if (
+      err.name === 'BadDigest' ||
+      err.name === 'InvalidDigest' ||
+      err.name === 'XAmzContentSHA256Mismatch'
+    ) {
+      return fail(MediaErrorCode.CHECKSUM_MISMATCH, error, { retryable: true });
+    }
+
+    // Throttling/rate limiting
+    if (
+      err.name === 'SlowDown' ||
+      err.name === 'TooManyRequests' ||
+      err.name === 'ThrottlingException' ||
+      httpCode === 429
+    ) {
+      return fail(
+        MediaErrorCode.RATE_LIMITED,
+        new Error(`${this.serviceName} rate limit exceeded - try again later`),
+        { retryAfterMs: parseRetryAfter(err.$response?.headers?.['retry-after']) }
+      );
+    }
+
+    // Service unavailable
+    if (err.name === 'ServiceUnavailable' || httpCode === 503) {
+      return fail(
+        MediaErrorCode.NETWORK_ERROR,
+        new Error(`${this.serviceName} service temporarily unavailable - try again later`),
+        { retryAfterMs: parseRetryAfter(err.$response?.headers?.['retry-after']) }
+      );
+    }
+
+    // Timeouts
+    if (
+      err.name === 'TimeoutError' ||
+      err.name === 'RequestTimeout' ||
+      err.code === 'ETIMEDOUT' ||
+      err.message?.includes('ETIMEDOUT')
+    ) {
+      return fail(
+        MediaErrorCode.TIMEOUT,
+        new Error('Network timeout - check connection or try smaller file')
+      );
+    }
+
+    // Dropped connections
+    if (err.code === 'ECONNRESET' || err.message?.includes('ECONNRESET')) {
+      return fail(MediaErrorCode.NETWORK_ERROR, new Error('Connection reset - try again'));
+    }
+
+    // File size errors
+    if (err.name === 'EntityTooLarge' || httpCode === 413) {
+      return fail(MediaErrorCode.FILE_TOO_LARGE, new Error('File exceeds maximum allowed size'));
+    }
+
+    // Other server-side failures keep the operation's code but may succeed on retry
+    const serverError = err.name === 'InternalError' || (httpCode !== undefined && httpCode >= 500);
+    return fail(defaultCode, error, serverError ? { retryable: true } : undefined);
+  }
+
+  /**
+   * Map an S3 error without throwing it
+   */
+  private toMediaError(error: unknown, defaultCode: MediaErrorCode): MediaError {
+    try {
+      return this.mapS3Error(error, defaultCode);
+    } catch (mapped) {
+      return mapped as MediaError;
+    }
+  }
+}
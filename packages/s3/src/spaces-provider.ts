@@ -0,0 +1,60 @@
+import type { ProviderFeatures, TransformationOptions } from '@fluxmedia/core';
+import { S3CompatibleProvider } from './s3-compatible-provider';
+import { SpacesFeatures } from './features';
+import type { S3CompatibleClientOptions, SpacesConfig } from './types';
+
+/**
+ * DigitalOcean Spaces provider implementation.
+ * Signed uploads are presigned PUT URLs, so `maxSize` is not enforced by the signature.
+ *
+ * @example
+ * ```typescript
+ * const provider = new SpacesProvider({
+ *   region: 'nyc3',
+ *   bucket: 'my-space',
+ *   accessKeyId: process.env.SPACES_KEY,
+ *   secretAccessKey: process.env.SPACES_SECRET,
+ *   cdn: true,
+ * });
+ * ```
+ */
+export class SpacesProvider extends S3CompatibleProvider<SpacesConfig> {
+  readonly name: string = 'spaces';
+  readonly features: ProviderFeatures = SpacesFeatures;
+  protected readonly serviceName: string = 'Spaces';
+
+  constructor(config: SpacesConfig) {
+    super(config);
+    this.validateConfig(['region', 'bucket', 'accessKeyId', 'secretAccessKey']);
+  }
+
+  /**
+   * Get safe config info for debugging (no secrets)
+   */
+  getConfigInfo() {
+    return {
+      bucket: this.config.bucket,
+      region: this.config.region,
+      cdn: this.config.cdn ?? false,
+      publicUrl: this.config.publicUrl,
+    };
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl}/${id}`;
+    }
+    const host = this.config.cdn
+      ? `${this.config.region}.cdn.digitaloceanspaces.com`
+      : `${this.config.region}.digitaloceanspaces.com`;
+    return `https://${this.config.bucket}.${host}/${id}`;
+  }
+
+  protected clientOptions(): S3CompatibleClientOptions {
+    return {
+      // Spaces requests are signed for us-east-1; the endpoint selects the datacenter
+      region: 'us-east-1',
+      endpoint: `https://${this.config.region}.digitaloceanspaces.com`,
+    };
+  }
+}
@@ -1,26 +1,60 @@
+import type { ServerSideEncryption } from '@fluxmedia/core';
+
 /**
- * Configuration options for S3 provider
+ * Configuration shared by every S3-compatible provider
  */
-export interface S3Config {
+export interface S3CompatibleConfig {
     /**
-     * AWS region
+     * Bucket name
+     */
+    bucket: string;
+
+    /**
+     * Access Key ID
+     */
+    accessKeyId: string;
+
+    /**
+     * Secret Access Key
+     */
+    secretAccessKey: string;
+
+    /**
+     * Default server-side encryption for uploads. An `sse-c` key is also sent
+     * when reading and copying files. Services support different modes:
+     * R2 only accepts `sse-c`, MinIO needs a KMS for `sse-s3` and `sse-kms`.
+     */
+    encryption?: ServerSideEncryption | undefined;
+}
+
+/**
+ * S3 client settings a provider derives from its configuration
+ */
+export interface S3CompatibleClientOptions {
+    /**
+     * Region used to sign requests
      */
     region: string;
 
     /**
-     * S3 bucket name
+     * API endpoint (defaults to AWS)
      */
-    bucket: string;
+    endpoint?: string;
 
     /**
-     * AWS Access Key ID
+     * Address buckets as `endpoint/bucket` instead of `bucket.endpoint`
      */
-    accessKeyId: string;
+    forcePathStyle?: boolean;
+}
 
+/**
+ * Configuration options for S3 provider
+ */
+export interface S3Config extends S3CompatibleConfig {
     /**
-     * AWS Secret Access Key
+     * AWS region
      */
-    secretAccessKey: string;
+    region: string;
 
     /**
      * Custom endpoint URL (for S3-compatible services)
@@ -32,3 +66,75 @@ export interface S3Config {
      */
     forcePathStyle?: boolean;
 }
+
+/**
+ * Configuration options for MinIO provider
+ */
+export interface MinioConfig extends S3CompatibleConfig {
+    /**
+     * MinIO server URL, e.g. `http://localhost:9000`
+     */
+    endpoint: string;
+
+    /**
+     * Region the server is configured with (default: 'us-east-1')
+     */
+    region?: string;
+
+    /**
+     * Public base URL for objects, e.g. behind a reverse proxy
+     * (default: `endpoint/bucket`)
+     */
+    publicUrl?: string;
+}
+
+/**
+ * Configuration options for Backblaze B2 provider
+ */
+export interface B2Config extends S3CompatibleConfig {
+    /**
+     * Region from the bucket's S3 endpoint, e.g. 'us-west-004'
+     */
+    region: string;
+
+    /**
+     * Public base URL for objects, e.g. a CDN in front of the bucket
+     * (default: the bucket's S3 URL)
+     */
+    publicUrl?: string;
+}
+
+/**
+ * Configuration options for Wasabi provider
+ */
+export interface WasabiConfig extends S3CompatibleConfig {
+    /**
+     * Wasabi region, e.g. 'eu-central-1' (default: 'us-east-1')
+     */
+    region?: string;
+
+    /**
+     * Public base URL for objects (default: the bucket's S3 URL)
+     */
+    publicUrl?: string;
+}
+
+/**
+ * Configuration options for DigitalOcean Spaces provider
+ */
+export interface SpacesConfig extends S3CompatibleConfig {
+    /**
+     * Datacenter region, e.g. 'nyc3'
+     */
+    region: string;
+
+    /**
+     * Serve objects from the Spaces CDN endpoint (default: false)
+     */
+    cdn?: boolean;
+
+    /**
+     * Public base URL for objects, e.g. a custom CDN domain (overrides `cdn`)
+     */
+    publicUrl?: string;
+}
@@ -0,0 +1,58 @@
+import type { ProviderFeatures, TransformationOptions } from '@fluxmedia/core';
+import { S3CompatibleProvider } from './s3-compatible-provider';
+import { WasabiFeatures } from './features';
+import type { S3CompatibleClientOptions, WasabiConfig } from './types';
+
+/**
+ * Wasabi provider implementation.
+ *
+ * @example
+ * ```typescript
+ * const provider = new WasabiProvider({
+ *   region: 'eu-central-1',
+ *   bucket: 'media',
+ *   accessKeyId: process.env.WASABI_ACCESS_KEY,
+ *   secretAccessKey: process.env.WASABI_SECRET_KEY,
+ * });
+ * ```
+ */
+export class WasabiProvider extends S3CompatibleProvider<WasabiConfig> {
+  readonly name: string = 'wasabi';
+  readonly features: ProviderFeatures = WasabiFeatures;
+  protected readonly serviceName: string = 'Wasabi';
+  protected readonly supportsPostPolicy: boolean = true;
+
+  constructor(config: WasabiConfig) {
+    super(config);
+    this.validateConfig(['bucket', 'accessKeyId', 'secretAccessKey']);
+  }
+
+  /**
+   * Get safe config info for debugging (no secrets)
+   */
+  getConfigInfo() {
+    return {
+      bucket: this.config.bucket,
+      region: this.region,
+      publicUrl: this.config.publicUrl,
+    };
+  }
+
+  getUrl(id: string, _transform?: TransformationOptions): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl}/${id}`;
+    }
+    return `https://s3.${this.region}.wasabisys.com/${this.config.bucket}/${id}`;
+  }
+
+  protected clientOptions(): S3CompatibleClientOptions {
+    return {
+      region: this.region,
+      endpoint: `https://s3.${this.region}.wasabisys.com`,
+    };
+  }
+
+  private get region(): string {
+    return this.config.region ?? 'us-east-1';
+  }
+}
@@ -30,6 +30,7 @@ export default defineConfig({
         alias: {
             '@fluxmedia/core/testing': path.resolve(__dirname, 'packages/core/src/testing.ts'),
             '@fluxmedia/core': path.resolve(__dirname, 'packages/core/src/index.ts'),
+            '@fluxmedia/s3': path.resolve(__dirname, 'packages/s3/src/index.ts'),
         },
     },
 });